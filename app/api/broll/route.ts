@@ -0,0 +1,45 @@
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { findClip } from '@/server/db/brollClips';
+
+// GET ?key=… → a downloaded B-roll clip from data/broll. Supports Range
+// requests, which browsers and the renderer use to seek in video.
+export async function GET(request: NextRequest) {
+  const key = request.nextUrl.searchParams.get('key') ?? '';
+  const file = findClip(key);
+  if (!file) {
+    return NextResponse.json({ error: 'Clip not found; generate the B-roll again' }, { status: 404 });
+  }
+
+  const size = fs.statSync(file).size;
+  const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!range || (!range[1] && !range[2])) {
+    return new NextResponse(new Uint8Array(fs.readFileSync(file)), {
+      headers: { 'Content-Type': 'video/mp4', 'Content-Length': String(size), 'Accept-Ranges': 'bytes' },
+    });
+  }
+
+  // "bytes=-500" is the last 500 bytes
+  const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+  const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+  if (start > end || start >= size) {
+    return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  const chunk = Buffer.alloc(end - start + 1);
+  const fd = fs.openSync(file, 'r');
+  try {
+    fs.readSync(fd, chunk, 0, chunk.length, start);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return new NextResponse(new Uint8Array(chunk), {
+    status: 206,
+    headers: {
+      'Content-Type': 'video/mp4',
+      'Content-Length': String(chunk.length),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getProject, projectIdSchema } from '@/server/db/projects';
+import { buildLmsPackage, LMS_FORMATS, resolveRenderPath } from '@/server/lms';
+
+const exportRequestSchema = z.object({
+  projectId: projectIdSchema,
+  format: z.enum(LMS_FORMATS).default('scorm12'),
+  passingScore: z.number().int().min(0).max(100).default(80),
+  // One of the project's renders; defaults to the latest
+  videoUrl: z.string().optional(),
+});
+
+// POST { projectId, format, passingScore?, videoUrl? } → LMS package (.zip)
+// built from an existing MP4 render and the storyboard version it shows.
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+    const parsed = exportRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: z.prettifyError(parsed.error) }, { status: 400 });
+    }
+    const { projectId, format, passingScore } = parsed.data;
+
+    const project = getProject(projectId);
+    if (!project) {
+      return NextResponse.json({ error: `Project ${projectId} not found` }, { status: 404 });
+    }
+
+    const render = parsed.data.videoUrl
+      ? project.renders.find((r) => r.videoUrl === parsed.data.videoUrl)
+      : project.renders.at(-1);
+    if (!render) {
+      return NextResponse.json({ error: 'Render the MP4 for this project before exporting' }, { status: 422 });
+    }
+    const { videoUrl } = render;
+    if (!resolveRenderPath(videoUrl)) {
+      return NextResponse.json({ error: `Render file ${videoUrl} is missing from public/renders` }, { status: 404 });
+    }
+    // The quiz must be the one in the video, even if the script changed since
+    const storyboard = project.versions.find((v) => v.id === render.versionId)?.storyboard;
+    if (!storyboard) {
+      return NextResponse.json(
+        { error: `Render ${videoUrl} doesn't record its storyboard version; render the MP4 again before exporting` },
+        { status: 422 }
+      );
+    }
+
+    const zip = buildLmsPackage({ projectId, storyboard, videoUrl, format, passingScore });
+    const fileName = `${storyboard.title.replace(/[^\p{L}\p{N}]+/gu, '_').slice(0, 60) || 'course'}-${format}.zip`;
+
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    console.error('[LMS] Export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,81 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { bundle } from '@remotion/bundler';
-import { renderMedia, selectComposition } from '@remotion/renderer';
-import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
-import type { Storyboard, Segment } from '../../../remotion/Composition';
+import { z } from 'zod';
+import { refineRenderInput, renderInputObject, renderOutputSchema } from '../../../lib/renderInput';
+import { describeIssues, fieldIssues } from '../../../lib/validation';
+import { addProjectRender, getProject, projectIdSchema } from '../../../server/db/projects';
+import { renderStoryboard } from '../../../server/lib/render';
 
+const renderRequestSchema = renderInputObject
+  .extend({
+    projectId: projectIdSchema.optional(),
+    // The project's storyboard version being rendered; defaults to the current one
+    versionId: z.string().optional(),
+    output: renderOutputSchema,
+  })
+  .superRefine(refineRenderInput);
+
+// POST { storyboard, segments?, audioDuration?, audioUrl?, brollClips?, quizAudio?,
+// output?, projectId?, versionId? } → { videoUrl, duration }. Invalid input gets a
+// 400 with one entry per bad field in `issues`.
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { storyboard, audioUrl, brollUrls, segments } = body as {
-      storyboard: Storyboard;
-      audioUrl?: string | null;
-      brollUrls?: string[] | null;
-      segments?: Segment[];
-    };
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+    const parsed = renderRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      const issues = fieldIssues(parsed.error);
+      console.warn('[Render] Rejected input:\n' + describeIssues(issues));
+      return NextResponse.json(
+        { error: `Invalid render input:\n${describeIssues(issues)}`, issues },
+        { status: 400 }
+      );
+    }
+    const { storyboard, audioUrl, brollClips, segments, quizAudio, audioDuration, projectId, versionId, output } =
+      parsed.data;
 
-    if (!storyboard) {
-      return NextResponse.json({ error: 'Missing storyboard data' }, { status: 400 });
+    // Recorded with the render so an LMS export pairs the video with its own quiz
+    const project = projectId ? getProject(projectId) : null;
+    if (projectId && !project) {
+      return NextResponse.json({ error: `Project ${projectId} not found` }, { status: 404 });
+    }
+    if (versionId && !project?.versions.some((v) => v.id === versionId)) {
+      return NextResponse.json({ error: `Version ${versionId} not found in project ${projectId}` }, { status: 404 });
     }
 
     console.log('[Render] Starting MP4 export...');
     console.log('[Render] Storyboard title:', storyboard.title);
     console.log('[Render] Modules:', storyboard.modules.length);
     console.log('[Render] Has audio:', !!audioUrl);
-    console.log('[Render] B-roll clips:', brollUrls?.length || 0);
+    console.log('[Render] B-roll clips:', Object.keys(brollClips ?? {}).length);
     console.log('[Render] Has segments:', !!segments?.length);
+    console.log('[Render] Quiz scenes:', storyboard.quiz.length, quizAudio?.length ? '(narrated)' : '(silent)');
 
-    // Bundle the Remotion project
-    const bundleLocation = await bundle({
-      entryPoint: join(process.cwd(), 'remotion/index.tsx'),
-      webpackOverride: (config) => config,
-    });
-
-    console.log('[Render] Bundle created at:', bundleLocation);
-
-    // Get composition details
-    const composition = await selectComposition({
-      serveUrl: bundleLocation,
-      id: 'GraphycsComposition',
-      inputProps: { storyboard, audioUrl, brollUrls, segments },
-    });
-
-    console.log('[Render] Composition selected:', composition.id);
-    console.log('[Render] Duration in frames:', composition.durationInFrames);
-    console.log('[Render] FPS:', composition.fps);
-    console.log('[Render] Dimensions:', `${composition.width}x${composition.height}`);
+    const { videoUrl, duration, outputPath } = await renderStoryboard({
+      storyboard,
+      audioUrl,
+      brollClips,
+      segments,
+      quizAudio,
+      audioDuration,
+    }, undefined, output);
 
-    // Ensure output directory exists
-    const outputDir = join(process.cwd(), 'public', 'renders');
-    if (!existsSync(outputDir)) {
-      mkdirSync(outputDir, { recursive: true });
+    if (project) {
+      addProjectRender(project.id, { videoUrl, duration, versionId: versionId ?? project.currentVersionId });
+      console.log('[Render] Recorded render on project:', project.id);
     }
 
-    // Generate output filename
-    const filename = `video-${Date.now()}.mp4`;
-    const outputPath = join(outputDir, filename);
-
-    console.log('[Render] Starting render to:', outputPath);
-
-    // Render the video
-    await renderMedia({
-      composition,
-      serveUrl: bundleLocation,
-      codec: 'h264',
-      outputLocation: outputPath,
-      inputProps: { storyboard, audioUrl, brollUrls, segments },
-      onProgress: ({ progress, renderedFrames, encodedFrames }) => {
-        console.log(
-          `[Render] Progress: ${(progress * 100).toFixed(1)}% | ` +
-          `Rendered: ${renderedFrames}/${composition.durationInFrames} | ` +
-          `Encoded: ${encodedFrames}/${composition.durationInFrames}`
-        );
-      },
-    });
-
-    const videoUrl = `/renders/${filename}`;
-
     console.log('[Render] ===== RENDER COMPLETE =====');
     console.log('[Render] Output file:', outputPath);
     console.log('[Render] Public URL:', videoUrl);
@@ -84,7 +76,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       videoUrl,
-      duration: composition.durationInFrames / composition.fps,
+      duration,
     });
   } catch (error) {
     console.error('[Render] Error:', error);
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { storyboardFileJsonSchema } from '@/server/lib/storyboardFile';
+
+// GET → JSON Schema of exported storyboard files, for editors and other tools
+export async function GET() {
+  return NextResponse.json(storyboardFileJsonSchema(), {
+    headers: { 'Content-Type': 'application/schema+json' },
+  });
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSilentMp3, estimateSpeechSeconds } from '@/server/standins/tts';
+
+// Stand-in for ElevenLabs POST /v1/text-to-speech/:voiceId. Answers with
+// silence as long as a voice would take to read the text.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ voiceId: string }> }) {
+  const { voiceId } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.text !== 'string' || !body.text.trim()) {
+    return NextResponse.json({ detail: 'text is required' }, { status: 422 });
+  }
+
+  const seconds = estimateSpeechSeconds(body.text);
+  console.log(`[Standins] TTS voice=${voiceId}: ${body.text.length} chars → ${seconds.toFixed(2)}s of silence`);
+
+  return new NextResponse(new Uint8Array(createSilentMp3(seconds)), {
+    headers: { 'Content-Type': 'audio/mpeg' },
+  });
+}
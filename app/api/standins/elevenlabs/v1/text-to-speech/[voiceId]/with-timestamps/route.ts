@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSilentMp3, estimateSpeechSeconds, evenCharacterAlignment } from '@/server/standins/tts';
+
+// Stand-in for ElevenLabs POST /v1/text-to-speech/:voiceId/with-timestamps.
+// Answers with silence as long as a voice would take to read the text, and
+// the characters spread evenly over it.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ voiceId: string }> }) {
+  const { voiceId } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.text !== 'string' || !body.text.trim()) {
+    return NextResponse.json({ detail: 'text is required' }, { status: 422 });
+  }
+
+  const seconds = estimateSpeechSeconds(body.text);
+  console.log(`[Standins] TTS voice=${voiceId} with timestamps: ${body.text.length} chars → ${seconds.toFixed(2)}s of silence`);
+
+  const alignment = evenCharacterAlignment(body.text, seconds);
+  return NextResponse.json({
+    audio_base64: createSilentMp3(seconds).toString('base64'),
+    alignment,
+    normalized_alignment: alignment,
+  });
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { encodeTaskId } from '@/server/standins/runway';
+
+// Stand-in for Runway POST /v1/image_to_video
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.promptText !== 'string') {
+    return NextResponse.json({ error: 'promptText is required' }, { status: 400 });
+  }
+
+  const id = encodeTaskId({
+    createdAt: Date.now(),
+    duration: body.duration === 10 ? 10 : 5,
+    seed: typeof body.seed === 'number' ? body.seed : 0,
+  });
+  console.log('[Standins] Runway task created for prompt:', body.promptText);
+
+  return NextResponse.json({ id });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeTaskId, ensurePlaceholderClip, taskStatus } from '@/server/standins/runway';
+
+// Stand-in for Runway GET /v1/tasks/:id
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const info = decodeTaskId(id);
+  if (!info) {
+    return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+  }
+
+  const status = taskStatus(info);
+  if (status !== 'SUCCEEDED') {
+    return NextResponse.json({ id, status });
+  }
+
+  const clipPath = await ensurePlaceholderClip(info.duration);
+  return NextResponse.json({
+    id,
+    status,
+    output: [new URL(clipPath, request.nextUrl.origin).toString()],
+  });
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectFormat, extractDocument, FORMAT_MIME_TYPES, SUPPORTED_EXTENSIONS } from '@/server/ingest';
+import { createProject, getProject, projectIdSchema, updateProject } from '@/server/db/projects';
+import { readUpload, saveUpload } from '@/server/db/uploads';
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+// Room for the multipart boundaries and the other fields around the file
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+const tooLarge = () =>
+  NextResponse.json({ error: `File exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }, { status: 413 });
+
+// POST multipart/form-data { file, projectId? } → extracted text + headings.
+// Without a projectId a new project is created for the document.
+export async function POST(request: NextRequest) {
+  try {
+    // Refuse oversized bodies before formData() buffers them
+    if (Number(request.headers.get('content-length')) > MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES) {
+      return tooLarge();
+    }
+    const form = request.headers.get('content-type')?.startsWith('multipart/form-data')
+      ? await request.formData().catch(() => null)
+      : null;
+    if (!form) {
+      return NextResponse.json({ error: 'Expected a multipart/form-data body' }, { status: 400 });
+    }
+
+    const file = form.get('file');
+    const projectId = form.get('projectId');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+    }
+    if (projectId !== null && projectId !== '' && !projectIdSchema.safeParse(projectId).success) {
+      return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return tooLarge();
+    }
+
+    const format = detectFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Use one of: ${SUPPORTED_EXTENSIONS.join(', ')}` },
+        { status: 415 }
+      );
+    }
+
+    console.log('[Upload] Extracting', file.name, `(${format}, ${file.size} bytes)`);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const document = await extractDocument(buffer, format);
+
+    if (document.text.length < 20) {
+      return NextResponse.json(
+        { error: 'No usable text found in the document (scanned PDFs need OCR first)' },
+        { status: 422 }
+      );
+    }
+
+    const project =
+      typeof projectId === 'string' && projectId
+        ? getProject(projectId)
+        : createProject({ name: file.name.replace(/\.[^.]+$/, '') });
+    if (!project) {
+      return NextResponse.json({ error: `Project ${projectId} not found` }, { status: 404 });
+    }
+
+    const storedPath = saveUpload(project.id, file.name, buffer);
+    updateProject(project.id, {
+      sourceText: document.text,
+      sourceDocument: {
+        fileName: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size,
+        format,
+        storedPath,
+        headings: document.headings,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+
+    console.log('[Upload] Extracted', document.text.length, 'chars,', document.headings.length, 'headings');
+
+    return NextResponse.json({
+      projectId: project.id,
+      format,
+      text: document.text,
+      headings: document.headings,
+    });
+  } catch (error) {
+    console.error('[Upload] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Upload failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET ?projectId=… → the original file attached to the project
+export async function GET(request: NextRequest) {
+  const projectId = projectIdSchema.safeParse(request.nextUrl.searchParams.get('projectId'));
+  const project = projectId.success ? getProject(projectId.data) : null;
+  const source = project?.sourceDocument;
+  const buffer = source ? readUpload(source.storedPath) : null;
+
+  if (!source || !buffer) {
+    return NextResponse.json({ error: 'No source document for this project' }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      // The browser-reported type could be anything, e.g. text/html for a .txt file
+      'Content-Type': FORMAT_MIME_TYPES[source.format],
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(source.fileName)}"`,
+    },
+  });
+}
@@ -1,11 +1,6 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink } from "@trpc/client";
-import superjson from "superjson";
-import { createTRPCReact } from "@trpc/react-query";
-import { z } from "zod";
 
 // UI (shadcn)
 import { Button } from "@/components/ui/button";
@@ -19,9 +14,13 @@ import {
   SelectValue,
   SelectItem,
 } from "@/components/ui/select";
-import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { TRPCProvider, trpc, type GeneratedStoryboard, type RouterOutputs } from "@/components/trpc";
+import { RegenerationGuidance, useSectionRegeneration } from "@/components/section-regeneration";
+import { JobProgress, PartialResults, useJobProgress } from "@/components/job-progress";
+import { TTS_PROVIDER_LABELS, VoiceLibraryPanel } from "@/components/voice-library-panel";
 
 // Icons
 import {
@@ -31,14 +30,59 @@ import {
   AudioLines,
   Film,
   Loader2,
-  CheckCircle2,
   Download,
+  FolderOpen,
+  Package,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
 } from "lucide-react";
 
 // Remotion + Lottie preview
 import { Player } from "@remotion/player";
-import { GraphycsComposition } from "@/remotion/Composition";
-import type { Segment } from "@/remotion/Composition";
+import {
+  GraphycsComposition,
+  getCompositionDurationInFrames,
+  getQuizNarrationSegments,
+} from "@/remotion/Composition";
+import type { QuizAudio, Segment, Storyboard } from "@/remotion/Composition";
+import { isGrounded, type SourceRef } from "@/lib/sourceSpans";
+import {
+  LANGUAGES,
+  LANGUAGE_CODES,
+  normalizeLanguage,
+  type LanguageCode,
+} from "@/lib/languages";
+import { narrationLines, narrationScript } from "@/lib/narration";
+import { alignVisualPlan, storyboardSceneIds } from "@/lib/visualPlan";
+import { MAX_MODULES } from "@/lib/storyboard";
+import {
+  EMPTY_VOICE_LIBRARY,
+  TTS_PROVIDERS,
+  voiceLibrarySchema,
+  type VoiceLibrary,
+} from "@/lib/voices";
+import { captionCues, toWebVtt } from "@/lib/wordTimings";
+import {
+  QUIZ_TYPES,
+  describeCorrect,
+  findUnsupportedQuestions,
+  type QuizType,
+} from "@/lib/quiz";
+import {
+  AUDIENCES,
+  READING_LEVELS,
+  TONES,
+  type GenerationBrief,
+} from "@/lib/brief";
+import {
+  findGlossaryViolations,
+  findReplacementConflicts,
+  formatGlossary,
+  isGlossaryEmpty,
+  parseGlossary,
+} from "@/lib/glossary";
 
 /**
  * STEP 1.1 — shadcn UI + tRPC + Remotion Player + Lottie + OpenAI Responses API (GPT‑5)
@@ -54,77 +98,588 @@ import type { Segment } from "@/remotion/Composition";
  */
 
 // ---------- Types shared client/server ----------
-export type Module = {
-  title: string;
-  points: string[];
-  lottie: "office" | "checklist" | "security";
+export type { Storyboard } from "@/lib/renderInput";
+type LottieStyle = "office" | "checklist" | "security";
+
+export type CountRange = { min: number; max: number };
+export type StoryboardLimits = {
+  overview: CountRange;
+  modules: CountRange;
+  points: CountRange;
+  quiz: CountRange;
+  options: CountRange;
+};
+
+type SourceDocument = NonNullable<RouterOutputs["project"]["get"]["sourceDocument"]>;
+
+// ---------- UI ----------
+const SAMPLE_TEXT = `Die DSGVO schützt personenbezogene Daten. Mitarbeitende müssen verstehen: Welche Daten erfassen wir? Rechtsgrundlage? Einwilligung? Vorfallsmeldung? Fehler vermeiden durch Minimierung, Prozesse, Schulungen.`;
+
+type LLMProviderChoice = "default" | "openai" | "local" | "mock";
+type TTSProviderChoice = "default" | "eleven" | "openai" | "local";
+// "source" keeps the language the policy text is written in
+type LanguageChoice = "source" | LanguageCode;
+
+const DEFAULT_LIMITS: StoryboardLimits = {
+  overview: { min: 3, max: 3 },
+  modules: { min: 3, max: 3 },
+  points: { min: 3, max: 3 },
+  quiz: { min: 3, max: 3 },
+  options: { min: 2, max: 4 },
+};
+
+// Scene counts that a target video length decides instead
+const LENGTH_SIZED_LIMITS: (keyof StoryboardLimits)[] = ["overview", "modules", "points"];
+
+const LIMIT_FIELDS: { key: keyof StoryboardLimits; label: string; max?: number }[] = [
+  { key: "overview", label: "Overview items" },
+  { key: "modules", label: "Modules", max: MAX_MODULES },
+  { key: "points", label: "Points / module" },
+  { key: "quiz", label: "Quiz questions" },
+  { key: "options", label: "Answer options" },
+];
+
+const QUIZ_TYPE_LABELS: Record<QuizType, string> = {
+  multiple_choice: "Multiple choice",
+  multi_select: "Multi-select",
+  true_false: "True / false",
+  ordering: "Ordering",
+};
+
+const AUDIENCE_LABELS: Record<(typeof AUDIENCES)[number], string> = {
+  frontline: "Frontline staff",
+  managers: "Managers",
+  executives: "Executives",
+};
+
+const TONE_LABELS: Record<(typeof TONES)[number], string> = {
+  formal: "Formal",
+  friendly: "Friendly",
+  urgent: "Urgent",
 };
-export type Storyboard = {
-  title: string;
-  language: string;
-  intro: string;
-  overview: string[];
-  modules: Module[];
-  summary: string;
-  quiz: { q: string; a: string[]; correct: number }[];
+
+const READING_LEVEL_LABELS: Record<(typeof READING_LEVELS)[number], string> = {
+  plain: "Plain language",
+  standard: "Standard",
+  specialist: "Specialist",
 };
 
-// ---------- tRPC client ----------
-const trpc = createTRPCReact<import("@/trpc-types").AppRouter>();
-const queryClient = new QueryClient();
-function TRPCProvider({ children }: { children: React.ReactNode }) {
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Hits on the LLM, voice and B-roll cache since the server started
+function CacheStats() {
+  const stats = trpc.cache.stats.useQuery(undefined, { refetchInterval: 15000 });
+  const clear = trpc.cache.clear.useMutation({ onSuccess: () => stats.refetch() });
+  if (!stats.data) return null;
+  if (!stats.data.enabled) {
+    return <p className="text-xs text-gray-500">Result cache is off (CACHE_DISABLED).</p>;
+  }
   return (
-    <trpc.Provider
-      client={trpc.createClient({
-        links: [httpBatchLink({ url: "/api/trpc", transformer: superjson })],
-      })}
-      queryClient={queryClient}
-    >
-      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
-    </trpc.Provider>
+    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+      <span className="font-medium text-gray-700">Cache</span>
+      {stats.data.namespaces.map((n) => (
+        <span key={n.namespace}>
+          {n.namespace}: {n.hits} hit{n.hits === 1 ? "" : "s"} / {n.misses} miss
+          {n.misses === 1 ? "" : "es"} · {n.entries} stored ({formatBytes(n.bytes)})
+        </span>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2"
+        onClick={() => {
+          if (confirm("Clear cached LLM replies, voice clips and B-roll?")) clear.mutate();
+        }}
+        disabled={clear.isPending}
+      >
+        Clear
+      </Button>
+    </div>
   );
 }
 
-// ---------- UI ----------
-const SAMPLE_TEXT = `Die DSGVO schützt personenbezogene Daten. Mitarbeitende müssen verstehen: Welche Daten erfassen wir? Rechtsgrundlage? Einwilligung? Vorfallsmeldung? Fehler vermeiden durch Minimierung, Prozesse, Schulungen.`;
+function CountRangeInput({
+  label,
+  value,
+  onChange,
+  max,
+  disabled = false,
+}: {
+  label: string;
+  value: CountRange;
+  onChange: (value: CountRange) => void;
+  max?: number;
+  disabled?: boolean;
+}) {
+  const update = (field: keyof CountRange, raw: string) => {
+    const n = Math.min(max ?? Infinity, Math.max(1, parseInt(raw, 10) || 1));
+    const next = { ...value, [field]: n };
+    // Keep the range valid while typing
+    if (field === "min" && next.max < n) next.max = n;
+    if (field === "max" && next.min > n) next.min = n;
+    onChange(next);
+  };
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-500">{label}</Label>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={1}
+          max={max}
+          value={value.min}
+          onChange={(e) => update("min", e.target.value)}
+          disabled={disabled}
+          className="w-16 h-8"
+        />
+        <span className="text-gray-400">–</span>
+        <Input
+          type="number"
+          min={1}
+          max={max}
+          value={value.max}
+          onChange={(e) => update("max", e.target.value)}
+          disabled={disabled}
+          className="w-16 h-8"
+        />
+      </div>
+    </div>
+  );
+}
+
+function VersionHistory({
+  projectId,
+  author,
+  onRestore,
+  onBranch,
+}: {
+  projectId: string;
+  author: string;
+  onRestore: (storyboard: GeneratedStoryboard) => void;
+  onBranch: (projectId: string) => void;
+}) {
+  const utils = trpc.useUtils();
+  const versions = trpc.version.list.useQuery({ projectId });
+  const revert = trpc.version.revert.useMutation();
+  const branch = trpc.version.branch.useMutation();
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const diff = trpc.version.diff.useQuery(
+    { projectId, fromVersionId: fromId ?? "", toVersionId: toId ?? "" },
+    { enabled: !!fromId && !!toId && fromId !== toId }
+  );
+
+  const handleRevert = async (versionId: string) => {
+    const version = await revert.mutateAsync({ projectId, versionId, author });
+    await utils.version.list.invalidate({ projectId });
+    onRestore(version.storyboard);
+  };
+
+  const handleBranch = async (versionId: string) => {
+    const project = await branch.mutateAsync({ projectId, versionId, author });
+    await utils.project.list.invalidate();
+    onBranch(project.id);
+  };
+
+  const formatValue = (value: unknown) =>
+    value === undefined ? "—" : JSON.stringify(value);
+
+  if (!versions.data?.length) return null;
 
-function Stepper({ step }: { step: number }) {
-  const steps = ["Sende an GPT", "Erhalte JSON", "Szene-Komposition", "Bereit"];
-  const pct = [10, 45, 80, 100][Math.min(step, 3)];
   return (
-    <div className="space-y-2">
-      <div className="flex items-center gap-2 text-sm">
-        {steps.map((s, i) => (
-          <div
-            key={i}
-            className={`flex items-center gap-1 ${
-              i <= step ? "text-emerald-600" : "text-gray-400"
-            }`}
-          >
-            {i < step ? (
-              <CheckCircle2 className="w-4 h-4" />
-            ) : (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            )}
-            <span>{s}</span>
-            {i < steps.length - 1 && (
-              <span className="mx-2 text-gray-300">›</span>
-            )}
+    <Card className="p-6 rounded-2xl shadow-sm space-y-4">
+      <h2 className="text-xl font-semibold">Version history</h2>
+      <table className="w-full text-sm">
+        <thead className="text-left text-gray-500">
+          <tr>
+            <th className="py-1">Version</th>
+            <th>Source</th>
+            <th>Author</th>
+            <th>Created</th>
+            <th>Compare</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {versions.data.map((v) => (
+            <tr key={v.id} className="border-t">
+              <td className="py-1">
+                v{v.number}{" "}
+                {v.isCurrent && <Badge variant="secondary">current</Badge>}
+              </td>
+              <td>
+                {v.source}
+                {v.note && (
+                  <span className="text-gray-400"> · {v.note}</span>
+                )}
+              </td>
+              <td>{v.author}</td>
+              <td>{new Date(v.createdAt).toLocaleString()}</td>
+              <td className="space-x-2">
+                <label>
+                  <input
+                    type="radio"
+                    name="diff-from"
+                    checked={fromId === v.id}
+                    onChange={() => setFromId(v.id)}
+                  />{" "}
+                  A
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="diff-to"
+                    checked={toId === v.id}
+                    onChange={() => setToId(v.id)}
+                  />{" "}
+                  B
+                </label>
+              </td>
+              <td className="text-right space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={v.isCurrent || revert.isPending}
+                  onClick={() => handleRevert(v.id)}
+                >
+                  Revert
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={branch.isPending}
+                  onClick={() => handleBranch(v.id)}
+                >
+                  Branch
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {diff.data && (
+        <div className="space-y-1 text-xs font-mono">
+          <div className="text-sm font-sans font-semibold">
+            v{diff.data.from} → v{diff.data.to}:{" "}
+            {diff.data.changes.length} change(s)
+          </div>
+          {diff.data.changes.map((change) => (
+            <div key={change.path} className="grid grid-cols-3 gap-2">
+              <span className="text-gray-500">
+                {change.kind} {change.path}
+              </span>
+              <span className="text-red-600 line-through">
+                {formatValue(change.before)}
+              </span>
+              <span className="text-emerald-700">
+                {formatValue(change.after)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function LocalizationPanel({
+  projectId,
+  masterProjectId,
+  sourceLanguage,
+  author,
+  onOpen,
+}: {
+  projectId: string;
+  masterProjectId: string | null;
+  sourceLanguage: string;
+  author: string;
+  onOpen: (projectId: string) => void;
+}) {
+  const utils = trpc.useUtils();
+  const variants = trpc.localization.list.useQuery(
+    { projectId },
+    { enabled: !masterProjectId }
+  );
+  const localize = trpc.localization.localize.useMutation();
+  const [languages, setLanguages] = useState<LanguageCode[]>([]);
+  const [terms, setTerms] = useState("");
+  const [render, setRender] = useState(true);
+  const { start: startJob, latest } = useJobProgress(localize.isPending);
+
+  // Variants are localized from their master, never from each other
+  if (masterProjectId) {
+    return (
+      <Card className="p-6 rounded-2xl shadow-sm flex items-center justify-between">
+        <span className="text-sm text-gray-600">
+          This project is a localized variant.
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onOpen(masterProjectId)}>
+          Open master
+        </Button>
+      </Card>
+    );
+  }
+
+  const toggle = (code: LanguageCode, checked: boolean) =>
+    setLanguages((prev) =>
+      checked ? [...prev, code] : prev.filter((c) => c !== code)
+    );
+
+  const handleLocalize = async () => {
+    const jobId = startJob();
+    try {
+      await localize.mutateAsync({
+        projectId,
+        languages,
+        doNotTranslate: terms
+          .split(/[\n,]/)
+          .map((t) => t.trim())
+          .filter(Boolean),
+        render,
+        author,
+        jobId,
+      });
+      await utils.localization.list.invalidate({ projectId });
+      await utils.project.list.invalidate();
+    } catch (error) {
+      alert(
+        `Localization failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  };
+
+  return (
+    <Card className="p-6 rounded-2xl shadow-sm space-y-4">
+      <h2 className="text-xl font-semibold">Localize</h2>
+      <div className="flex flex-wrap gap-4">
+        {LANGUAGE_CODES.filter((code) => code !== sourceLanguage).map((code) => (
+          <div key={code} className="flex items-center gap-2">
+            <Checkbox
+              id={`locale-${code}`}
+              checked={languages.includes(code)}
+              onCheckedChange={(checked) => toggle(code, !!checked)}
+            />
+            <Label htmlFor={`locale-${code}`} className="cursor-pointer">
+              {LANGUAGES[code].nativeName}
+            </Label>
           </div>
         ))}
       </div>
-      <Progress value={pct} className="h-2" />
+      <div className="space-y-1">
+        <Label className="text-sm">Do not translate (one term per line)</Label>
+        <Textarea
+          className="min-h-[80px]"
+          value={terms}
+          onChange={(e) => setTerms(e.target.value)}
+          placeholder={"Acme Corp\nGDPR"}
+        />
+      </div>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="locale-render"
+            checked={render}
+            onCheckedChange={(checked) => setRender(!!checked)}
+          />
+          <Label htmlFor="locale-render" className="cursor-pointer">
+            Render one MP4 per language
+          </Label>
+        </div>
+        <Button
+          className="gap-2"
+          onClick={handleLocalize}
+          disabled={!languages.length || localize.isPending}
+        >
+          {localize.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          {localize.isPending ? "Localizing…" : `Localize (${languages.length})`}
+        </Button>
+      </div>
+      {localize.isPending && latest && (
+        <p className="text-xs text-gray-500">
+          {latest.current}/{latest.total}: {latest.message}
+        </p>
+      )}
+      {localize.data?.results.some((r) => r.error || r.missingTerms > 0) && (
+        <ul className="text-xs space-y-1">
+          {localize.data.results.map((r) => (
+            <li key={r.language} className={r.error ? "text-red-600" : "text-amber-700"}>
+              {r.error
+                ? `${LANGUAGES[r.language].nativeName}: ${r.error}`
+                : r.missingTerms > 0
+                ? `${LANGUAGES[r.language].nativeName}: ${r.missingTerms} protected term(s) lost in translation`
+                : null}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!!variants.data?.length && (
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-500">
+            <tr>
+              <th className="py-1">Language</th>
+              <th>Updated</th>
+              <th>Renders</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {variants.data.map((v) => (
+              <tr key={v.id} className="border-t">
+                <td className="py-1">
+                  {v.language ? LANGUAGES[v.language].nativeName : v.name}
+                </td>
+                <td>{new Date(v.updatedAt).toLocaleString()}</td>
+                <td>{v.renderCount}</td>
+                <td className="text-right">
+                  <Button variant="outline" size="sm" onClick={() => onOpen(v.id)}>
+                    Open
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {localize.data?.results
+        .filter((r) => r.videoUrl)
+        .map((r) => (
+          <a
+            key={r.language}
+            href={r.videoUrl!}
+            download
+            className="block text-sm text-emerald-700 underline"
+          >
+            {LANGUAGES[r.language].nativeName} MP4
+          </a>
+        ))}
+    </Card>
+  );
+}
+
+// Dot next to a script line: green when a quote was found in the policy text
+function SourceMarker({
+  sourceRef,
+  selected,
+  onSelect,
+}: {
+  sourceRef?: SourceRef;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const grounded = isGrounded(sourceRef);
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      title={
+        grounded
+          ? "Show source"
+          : sourceRef
+          ? "Quoted source not found in the policy text"
+          : "No source cited"
+      }
+      className={`inline-block w-2.5 h-2.5 rounded-full ml-2 align-middle ${
+        grounded ? "bg-emerald-500" : "bg-amber-400"
+      } ${selected ? "ring-2 ring-offset-1 ring-gray-400" : ""}`}
+    />
+  );
+}
+
+// Excerpts of the source text around each quote, with the quote highlighted
+function SourcePanel({
+  path,
+  sourceRef,
+  sourceText,
+}: {
+  path: string;
+  sourceRef?: SourceRef;
+  sourceText: string;
+}) {
+  const CONTEXT = 120;
+  return (
+    <div className="rounded-lg border bg-slate-50 p-3 space-y-2 text-xs">
+      <div className="font-semibold">Source for {path}</div>
+      {!sourceRef?.quotes.length && (
+        <div className="text-amber-700">The model cited no source for this line.</div>
+      )}
+      {sourceRef?.quotes.map((quote, i) => {
+        const inRange =
+          quote.start !== null &&
+          quote.end !== null &&
+          quote.end <= sourceText.length;
+        if (!inRange) {
+          return (
+            <div key={i} className="text-red-600">
+              Not found in source: “{quote.text}”
+            </div>
+          );
+        }
+        const start = quote.start!;
+        const end = quote.end!;
+        return (
+          <p key={i} className="font-mono leading-relaxed">
+            {start > CONTEXT ? "…" : ""}
+            {sourceText.slice(Math.max(0, start - CONTEXT), start)}
+            <mark className="bg-yellow-200">{sourceText.slice(start, end)}</mark>
+            {sourceText.slice(end, end + CONTEXT)}
+            {end + CONTEXT < sourceText.length ? "…" : ""}
+          </p>
+        );
+      })}
     </div>
   );
 }
 
 function DemoPage() {
   const [text, setText] = useState(SAMPLE_TEXT);
-  const [style, setStyle] = useState<Module["lottie"]>("office");
+  const [style, setStyle] = useState<LottieStyle>("office");
+  const [limits, setLimits] = useState<StoryboardLimits>(DEFAULT_LIMITS);
+  const [llmProvider, setLlmProvider] = useState<LLMProviderChoice>("default");
+  const [language, setLanguage] = useState<LanguageChoice>("source");
+  const [quizTypes, setQuizTypes] = useState<QuizType[]>([...QUIZ_TYPES]);
+  const [brief, setBrief] = useState<GenerationBrief>({});
+  // Edited as text, see parseGlossary
+  const [glossaryText, setGlossaryText] = useState({ required: "", forbidden: "" });
+  const glossary = useMemo(
+    () => parseGlossary(glossaryText.required, glossaryText.forbidden),
+    [glossaryText]
+  );
+  const [sourceDocument, setSourceDocument] = useState<
+    Pick<SourceDocument, "fileName" | "headings"> | null
+  >(null);
+  const [isUploading, setIsUploading] = useState(false);
   const generate = trpc.structure.generate.useMutation();
+  const planCourse = trpc.structure.outlineCourse.useMutation();
+  const { mutate: runLint, data: lintWarnings, reset: resetLint } =
+    trpc.structure.lint.useMutation();
+
+  // Pipeline events streamed while a job runs
+  const generateProgress = useJobProgress(generate.isPending || planCourse.isPending);
   const tts = trpc.audio.tts.useMutation();
   const audioSegments = trpc.audioSegments.generateSegments.useMutation();
+  const quizNarration = trpc.audioSegments.generateQuiz.useMutation();
   const video = trpc.video.runwayBatch.useMutation();
+  const voiceProgress = useJobProgress(audioSegments.isPending);
+  const brollProgress = useJobProgress(video.isPending);
+
+  // Persistence: everything generated below is saved onto the active project
+  const utils = trpc.useUtils();
+  const projects = trpc.project.list.useQuery();
+  const createProject = trpc.project.create.useMutation();
+  const updateProject = trpc.project.update.useMutation();
+  const deleteProject = trpc.project.delete.useMutation();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [masterProjectId, setMasterProjectId] = useState<string | null>(null);
+  const [storyboard, setStoryboard] = useState<GeneratedStoryboard | null>(null);
+
+  // Version history + manual edits
+  const commitVersion = trpc.version.commit.useMutation();
+  const exportStoryboard = trpc.storyboardFile.export.useMutation();
+  const importStoryboard = trpc.storyboardFile.import.useMutation();
+  const [author, setAuthor] = useState("editor");
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
 
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [audioSeconds, setAudioSeconds] = useState<number | null>(null);
@@ -132,28 +687,453 @@ function DemoPage() {
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
   const [segments, setSegments] = useState<Segment[] | null>(null);
-  const [brollClips, setBrollClips] = useState<string[] | null>(null); // Simplified: just URLs
+  const [quizAudio, setQuizAudio] = useState<QuizAudio[] | null>(null);
+  const [brollClips, setBrollClips] = useState<Record<string, string> | null>(null); // by scene id
   const [useSegmented, setUseSegmented] = useState(false);
+  const [ttsProvider, setTtsProvider] = useState<TTSProviderChoice>("default");
+  const voice = ttsProvider === "default" ? undefined : ttsProvider;
+  const [voiceLibrary, setVoiceLibrary] = useState<VoiceLibrary>(EMPTY_VOICE_LIBRARY);
+  // Only a valid library is sent; the panel lists what's wrong with the rest
+  const voices = useMemo(() => voiceLibrarySchema.safeParse(voiceLibrary).data, [voiceLibrary]);
   const [useBroll, setUseBroll] = useState(false);
   const [isRendering, setIsRendering] = useState(false);
+  const [lmsFormat, setLmsFormat] = useState<"scorm12" | "cmi5">("scorm12");
+  const [passingScore, setPassingScore] = useState(80);
+  const [isExporting, setIsExporting] = useState(false);
+  // Single-track audio can't be patched per section, so it goes stale instead
+  const [narrationStale, setNarrationStale] = useState(false);
+
+  const story = (storyboard ?? undefined) as Storyboard | undefined;
+
+  // Source traceability for the Script card
+  const [selectedSourcePath, setSelectedSourcePath] = useState<string | null>(null);
+  const sourcesByPath = useMemo(
+    () => new Map((storyboard?.sources ?? []).map((ref) => [ref.path, ref])),
+    [storyboard]
+  );
+  const groundedCount = [...sourcesByPath.values()].filter(isGrounded).length;
+  const quizIssues = useMemo(
+    () =>
+      new Map(
+        (storyboard ? findUnsupportedQuestions(storyboard) : []).map((issue) => [
+          issue.index,
+          issue.message,
+        ])
+      ),
+    [storyboard]
+  );
+  // Terms generation couldn't fix, or that came back with manual edits
+  const glossaryViolations = useMemo(
+    () => (storyboard ? findGlossaryViolations(storyboard, glossary) : []),
+    [storyboard, glossary]
+  );
+  const marker = (path: string) =>
+    storyboard?.sources ? (
+      <SourceMarker
+        sourceRef={sourcesByPath.get(path)}
+        selected={selectedSourcePath === path}
+        onSelect={() =>
+          setSelectedSourcePath((prev) => (prev === path ? null : path))
+        }
+      />
+    ) : null;
+
+  type ProjectPatch = Parameters<typeof updateProject.mutateAsync>[0]["patch"];
+
+  // Creates the project on first save, patches it afterwards
+  const saveProject = async (
+    patch: ProjectPatch,
+    name = "Untitled project"
+  ): Promise<string | null> => {
+    try {
+      let id = projectId;
+      if (id) {
+        await updateProject.mutateAsync({ id, patch });
+      } else {
+        const created = await createProject.mutateAsync({ name, ...patch });
+        id = created.id;
+        setProjectId(id);
+      }
+      await utils.project.list.invalidate();
+      return id;
+    } catch (error) {
+      console.error("[Projects] Save failed:", error);
+      return null;
+    }
+  };
 
-  // Local progress stepper while the mutation is inflight
-  const [step, setStep] = useState(0);
+  // Every storyboard change lands in the project's version history
+  const commitStoryboard = async (
+    id: string,
+    next: GeneratedStoryboard,
+    source: "generated" | "manual" | "regenerated" | "imported",
+    note?: string
+  ) => {
+    try {
+      await commitVersion.mutateAsync({ projectId: id, storyboard: next, author, source, note });
+      await utils.version.list.invalidate({ projectId: id });
+    } catch (error) {
+      console.error("[Versions] Commit failed:", error);
+    }
+  };
+
+  const handleStartEdit = () => {
+    setDraft(JSON.stringify(storyboard, null, 2));
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    let edited: GeneratedStoryboard;
+    try {
+      edited = JSON.parse(draft);
+    } catch {
+      return alert("Storyboard JSON is not valid.");
+    }
+    const id = await saveProject({ sourceText: text }, edited.title);
+    if (!id) return;
+    try {
+      await commitVersion.mutateAsync({
+        projectId: id,
+        storyboard: edited,
+        author,
+        source: "manual",
+      });
+    } catch (error) {
+      return alert(
+        `Edit rejected: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+    await utils.version.list.invalidate({ projectId: id });
+    // The old voice and B-roll no longer match the script (and quiz audio
+    // can't be rendered once the question count changed); the commit dropped them
+    resetAssets();
+    setStoryboard(edited);
+    setIsEditing(false);
+  };
+
+  // Storyboard files (JSON/YAML) for review outside the app
+  const handleExportStoryboard = async (format: "json" | "yaml") => {
+    if (!storyboard) return;
+    try {
+      const file = await exportStoryboard.mutateAsync({ storyboard, format });
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      a.download = file.fileName;
+      a.click();
+      URL.revokeObjectURL(a.href);
+    } catch (error) {
+      alert(`Export failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  // Captions timed to the narration's words, then the quiz scenes' questions and answers
+  const handleDownloadCaptions = () => {
+    if (!segments || !story) return;
+    const quizSegments = getQuizNarrationSegments({ storyboard: story, segments, quizAudio });
+    const vtt = toWebVtt(captionCues([...segments, ...quizSegments], story.language));
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(new Blob([vtt], { type: "text/vtt" }));
+    a.download = `${story.title.replace(/\s+/g, "_")}.vtt`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  const handleImportStoryboard = async (file: File) => {
+    let imported: GeneratedStoryboard;
+    let migratedFrom: number | null;
+    try {
+      ({ storyboard: imported, migratedFrom } = await importStoryboard.mutateAsync({
+        content: await file.text(),
+      }));
+    } catch (error) {
+      return alert(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    resetAssets();
+    setStoryboard(imported);
+    setIsEditing(false);
+    const id = await saveProject({ sourceText: text }, imported.title);
+    if (id) {
+      await commitStoryboard(
+        id,
+        imported,
+        "imported",
+        `Imported from ${file.name}${migratedFrom ? ` (migrated from schema version ${migratedFrom})` : ""}`
+      );
+    }
+  };
+
+  // Revert/branch results from the history card
+  const handleVersionRestored = (restored: GeneratedStoryboard) => {
+    resetAssets();
+    setStoryboard(restored);
+  };
+
+  const resetAssets = () => {
+    setAudioUrl(null);
+    setAudioSeconds(null);
+    setSegments(null);
+    setQuizAudio(null);
+    setNarrationStale(false);
+    setBrollClips(null);
+    setSelectedSourcePath(null);
+  };
+
+  const handleNewProject = () => {
+    setProjectId(null);
+    setMasterProjectId(null);
+    setIsEditing(false);
+    setSourceDocument(null);
+    setStoryboard(null);
+    setText(SAMPLE_TEXT);
+    resetAssets();
+    generate.reset();
+  };
+
+  const handleOpenProject = async (id: string) => {
+    const project = await utils.project.get.fetch({ id });
+    console.log("[Projects] Opened", project.id, project.name);
+    resetAssets();
+    setIsEditing(false);
+    setProjectId(project.id);
+    setText(project.sourceText);
+    setSourceDocument(project.sourceDocument ?? null);
+    setMasterProjectId(project.masterProjectId ?? null);
+    if (project.defaultStyle) setStyle(project.defaultStyle);
+    if (project.limits) setLimits(project.limits);
+    setLlmProvider(project.llmProvider ?? "default");
+    setTtsProvider(project.ttsProvider ?? "default");
+    setVoiceLibrary(project.voices ?? EMPTY_VOICE_LIBRARY);
+    setLanguage(project.language ?? "source");
+    setQuizTypes(project.quizTypes ?? [...QUIZ_TYPES]);
+    setBrief(project.brief ?? {});
+    setGlossaryText(formatGlossary(project.glossary));
+    setStoryboard(project.storyboard);
+    if (project.narration) {
+      setAudioUrl(project.narration.audioUrl);
+      setSegments(project.narration.segments);
+      setAudioSeconds(project.narration.totalDuration);
+      setQuizAudio(project.narration.quiz ?? null);
+      setUseSegmented(!!project.narration.segments);
+    }
+    if (project.broll) {
+      setBrollClips(project.broll.clips);
+      setUseBroll(true);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!projectId) return;
+    if (!confirm("Delete this project?")) return;
+    await deleteProject.mutateAsync({ id: projectId });
+    await utils.project.list.invalidate();
+    handleNewProject();
+  };
+
+  // Extracts text from a PDF/DOCX/MD/HTML file and attaches it to the project
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      if (projectId) form.append("projectId", projectId);
+
+      const response = await fetch("/api/upload", { method: "POST", body: form });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Upload failed");
+
+      console.log("[Upload] Extracted", result.text.length, "chars from", file.name);
+      setProjectId(result.projectId);
+      setText(result.text);
+      setSourceDocument({ fileName: file.name, headings: result.headings });
+      await utils.project.list.invalidate();
+    } catch (error) {
+      alert(
+        `Upload failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePlanCourse = async () => {
+    try {
+      await planCourse.mutateAsync({
+        jobId: generateProgress.start(),
+        text,
+        provider: llmProvider === "default" ? undefined : llmProvider,
+      });
+    } catch (error) {
+      alert(
+        `Course outline failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  };
+
+  // Starts a fresh project from one video of the course outline
+  const handleUseCourseVideo = (sourceText: string) => {
+    handleNewProject();
+    setText(sourceText);
+  };
+
+  const handleGenerate = async () => {
+    // The field may hold a half-typed number; the server accepts 30 s – 30 min
+    const generationBrief: GenerationBrief = {
+      ...brief,
+      targetSeconds: brief.targetSeconds
+        ? Math.min(1800, Math.max(30, brief.targetSeconds))
+        : undefined,
+    };
+    let res: GeneratedStoryboard;
+    try {
+      res = await generate.mutateAsync({
+        jobId: generateProgress.start(),
+        text,
+        defaultStyle: style,
+        limits,
+        provider: llmProvider === "default" ? undefined : llmProvider,
+        language: language === "source" ? undefined : language,
+        quizTypes,
+        brief: generationBrief,
+        glossary: isGlossaryEmpty(glossary) ? undefined : glossary,
+        voice,
+        voices,
+        // Generating again should give a new take, not the cached one
+        fresh: storyboard !== null,
+        outline: sourceDocument?.headings.length
+          ? sourceDocument.headings
+          : undefined,
+      });
+    } catch (error) {
+      // e.g. a target length the limits can't reach
+      console.error("[Generate] Error:", error);
+      return alert(
+        `Generation failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+    resetAssets();
+    setStoryboard(res);
+    const id = await saveProject(
+      {
+        sourceText: text,
+        defaultStyle: style,
+        limits,
+        llmProvider: llmProvider === "default" ? undefined : llmProvider,
+        language: language === "source" ? undefined : language,
+        quizTypes,
+        brief: generationBrief,
+        glossary,
+        narration: null,
+        broll: null,
+      },
+      res.title
+    );
+    if (id) await commitStoryboard(id, res, "generated");
+  };
+
+  // Rewrites one section; the rest of the script, its voice and B-roll stay
+  const {
+    button: regenButton,
+    guidance: regenGuidance,
+    setGuidance: setRegenGuidance,
+  } = useSectionRegeneration({
+    disabled: generate.isPending,
+    input: () =>
+      storyboard && {
+        text,
+        storyboard,
+        brief: {
+          audience: brief.audience,
+          tone: brief.tone,
+          readingLevel: brief.readingLevel,
+        },
+        glossary: isGlossaryEmpty(glossary) ? undefined : glossary,
+        limits,
+        quizTypes,
+        provider: llmProvider === "default" ? undefined : llmProvider,
+      },
+    onRegenerated: async (next, section, note) => {
+      setStoryboard(next);
+      const id = await saveProject({ sourceText: text }, next.title);
+      if (id) await commitStoryboard(id, next, "regenerated", note);
+
+      // Re-voice only what changed: unchanged sentences keep their clips
+      if (!segments && !audioUrl && !quizAudio) return;
+      try {
+        let nextSegments = segments;
+        let totalDuration = useSegmented ? audioSeconds : null;
+        if (useSegmented && segments) {
+          const res = await audioSegments.mutateAsync({
+            lines: narrationScript(next),
+            voice,
+            voices,
+            language: next.language || "de",
+            reuse: segments,
+            jobId: voiceProgress.start(),
+          });
+          nextSegments = res.segments;
+          totalDuration = res.totalDuration;
+          setSegments(res.segments);
+          setAudioSeconds(res.totalDuration);
+        } else if (audioUrl && section.kind !== "quiz") {
+          setNarrationStale(true);
+        }
+
+        let nextQuizAudio = quizAudio;
+        if (section.kind === "quiz" && quizAudio) {
+          const [clip] = await quizNarration.mutateAsync({
+            quiz: [next.quiz[section.index]],
+            voice,
+            voices,
+            language: next.language || "de",
+          });
+          nextQuizAudio = quizAudio.map((a, i) => (i === section.index ? clip : a));
+          setQuizAudio(nextQuizAudio);
+        }
+
+        await saveProject({
+          narration: {
+            audioUrl: useSegmented ? null : audioUrl,
+            segments: useSegmented ? nextSegments : null,
+            totalDuration,
+            quiz: nextQuizAudio,
+          },
+        });
+      } catch (error) {
+        console.error("[Regenerate] Narration update failed:", error);
+        setNarrationStale(true);
+      }
+    },
+  });
+
+  // Re-lint shortly after the script, reading level, narration mode or voice changes
   useEffect(() => {
-    if (generate.isPending) {
-      setStep(0);
-      const a = setTimeout(() => setStep(1), 300);
-      const b = setTimeout(() => setStep(2), 900);
-      const c = setTimeout(() => setStep(3), 1600);
-      return () => {
-        clearTimeout(a);
-        clearTimeout(b);
-        clearTimeout(c);
-      };
+    if (!storyboard) {
+      resetLint();
+      return;
     }
-  }, [generate.isPending]);
+    const timer = setTimeout(
+      () =>
+        runLint({
+          storyboard,
+          readingLevel: brief.readingLevel,
+          segmented: useSegmented,
+          voice,
+          voices,
+        }),
+      500
+    );
+    return () => clearTimeout(timer);
+  }, [storyboard, brief.readingLevel, useSegmented, voice, voices, runLint, resetLint]);
 
-  const story = generate.data as Storyboard | undefined;
+  const lintNotes = (...paths: string[]) =>
+    (lintWarnings ?? [])
+      .filter((w) => paths.includes(w.path))
+      .map((w, i) => (
+        <div key={i} className="text-xs text-amber-700">
+          ⚠ {w.message}
+        </div>
+      ));
 
   // Measure audio length when we receive it
   useEffect(() => {
@@ -181,28 +1161,55 @@ function DemoPage() {
   }, [audioUrl]);
 
   const fps = 30;
-  const fallbackFrames = (story?.modules?.length || 3) * 4 * fps;
-  const durationInFrames = audioSeconds
-    ? Math.ceil(audioSeconds * fps)
-    : fallbackFrames;
+  const renderCount = projects.data?.find((p) => p.id === projectId)?.renderCount ?? 0;
+  // Narration or scene flow, then the quiz scenes
+  const durationInFrames = story
+    ? getCompositionDurationInFrames(
+        {
+          storyboard: story,
+          segments: useSegmented ? segments : null,
+          audioDuration: useSegmented ? null : audioSeconds,
+          quizAudio,
+        },
+        fps
+      )
+    : 10 * fps;
+
+  // Question/answer clips for the quiz scenes, in the storyboard's language
+  const generateQuizAudio = async (storyboard: Pick<Storyboard, "quiz" | "language">) => {
+    if (!storyboard.quiz.length) return null;
+    console.log("[Quiz] Narrating", storyboard.quiz.length, "quiz scenes...");
+    const clips = await quizNarration.mutateAsync({
+      quiz: storyboard.quiz,
+      voice,
+      voices,
+      language: storyboard.language || "de",
+    });
+    setQuizAudio(clips);
+    return clips;
+  };
 
   const handleGenerateVoice = async () => {
     if (!story) return alert("Generate storyboard first.");
+    if (
+      glossaryViolations.length &&
+      !confirm(
+        `The script breaks the glossary in ${glossaryViolations.length} place(s). Record the voice anyway?`
+      )
+    )
+      return;
+    if (!voices) return alert("Fix the voice library first.");
+    setNarrationStale(false);
 
     if (useSegmented) {
-      // Segmented mode with voice-driven timing
-      const narration = [
-        story.intro,
-        ...story.overview,
-        ...story.modules.flatMap((m) => m.points),
-        story.summary,
-      ].join(" ");
-
+      // Segmented mode with voice-driven timing, each scene in its own voice
       console.log("[Segmented] Generating voice segments...");
       const res = await audioSegments.mutateAsync({
-        text: narration,
-        voice: "eleven",
+        lines: narrationScript(story),
+        voice,
+        voices,
         language: story.language || "de",
+        jobId: voiceProgress.start(),
       });
 
       if (!res?.segments) {
@@ -212,19 +1219,26 @@ function DemoPage() {
       console.log("[Segmented] Generated", res.segments.length, "segments");
       setSegments(res.segments);
       setAudioSeconds(res.totalDuration);
+      const quiz = await generateQuizAudio(story);
+      await saveProject({
+        ttsProvider: voice,
+        voices,
+        narration: {
+          audioUrl: null,
+          segments: res.segments,
+          totalDuration: res.totalDuration,
+          quiz,
+        },
+      });
     } else {
       // Single-pass mode
-      const narration = [
-        story.intro,
-        ...story.overview,
-        ...story.modules.flatMap((m) => m.points),
-        story.summary,
-      ].join("\n");
+      const narration = narrationLines(story).join("\n");
 
       console.log("[TTS] Generating single audio track...");
       const res = await tts.mutateAsync({
         text: narration,
-        voice: "eleven",
+        voice,
+        voices,
         language: story.language || "de",
       });
 
@@ -235,6 +1249,12 @@ function DemoPage() {
 
       console.log("[TTS] Audio URL:", res.audioUrl);
       setAudioUrl(res.audioUrl);
+      const quiz = await generateQuizAudio(story);
+      await saveProject({
+        ttsProvider: voice,
+        voices,
+        narration: { audioUrl: res.audioUrl, segments: null, totalDuration: null, quiz },
+      });
     }
   };
 
@@ -242,46 +1262,40 @@ function DemoPage() {
     if (!story) return alert("Generate storyboard first.");
 
     try {
-      // Get semantic concepts from story (generated by GPT-5)
-      const moduleConcepts = (story as any).moduleConcepts || story.modules.map(m => m.title);
-
-      // Generate concepts for ALL slides: intro + modules + summary
-      const allConcepts = [
-        story.intro, // Intro slide
-        ...moduleConcepts, // Module slides
-        story.summary // Summary slide
-      ];
-
-      const allTitles = [
-        story.title, // Intro
-        ...story.modules.map(m => m.title), // Modules
-        'Summary' // Summary
-      ];
-
-      console.log("[Broll] Generating", allConcepts.length, "B-roll clips (one per slide)");
-      console.log("[Broll] Concepts:", allConcepts);
-      console.log("[Broll] Titles:", allTitles);
+      // One clip per scene of the visual plan; scenes added since it was
+      // planned get generic visuals
+      const plan = alignVisualPlan(storyboard?.visualPlan, story);
+      const scenes = Object.entries(plan).map(([sceneId, { brollPrompt, shotType, cameraMotion }]) => ({
+        sceneId,
+        brollPrompt,
+        shotType,
+        cameraMotion,
+      }));
+      console.log("[Broll] Generating", scenes.length, "B-roll clips (one per scene)");
+      console.log("[Broll] Prompts:", scenes.map((scene) => `${scene.sceneId}: ${scene.brollPrompt}`));
 
       const res = await video.mutateAsync({
-        prompts: allConcepts,
-        seconds: 5 as 5,
-        accent: 'emerald' as 'emerald',
+        scenes,
+        seconds: 5 as const,
+        accent: 'emerald' as const,
+        jobId: brollProgress.start(),
       });
 
-      if (!res?.urls || res.urls.length === 0) {
+      const clipCount = Object.keys(res?.clips ?? {}).length;
+      if (!clipCount) {
         return alert("B-roll generation failed - no URLs returned");
       }
 
-      console.log("[Broll] Generated", res.urls.length, "clips");
-      res.urls.forEach((url, i) => {
-        console.log(`[Broll] Clip ${i + 1}:`, {
-          url,
-          metadata: res.metadata?.[i],
+      console.log("[Broll] Generated", clipCount, "clips");
+      res.metadata.forEach((meta) => {
+        console.log(`[Broll] Clip ${meta.scene_id}:`, {
+          url: meta.scene_id ? res.clips[meta.scene_id] : undefined,
+          metadata: meta,
         });
       });
 
-      // Simplified: just store URLs
-      setBrollClips(res.urls);
+      setBrollClips(res.clips);
+      await saveProject({ broll: { clips: res.clips, metadata: res.metadata } });
     } catch (error) {
       console.error("[Broll] Error:", error);
       alert(`B-roll generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -298,10 +1312,13 @@ function DemoPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          projectId,
           storyboard: story,
           audioUrl,
-          brollUrls: useBroll ? brollClips : null,
+          brollClips: useBroll ? brollClips : null,
           segments: useSegmented ? segments : null,
+          quizAudio,
+          audioDuration: useSegmented ? null : audioSeconds,
         }),
       });
 
@@ -312,6 +1329,7 @@ function DemoPage() {
 
       const result = await response.json();
       console.log("[Render] Success:", result.videoUrl);
+      if (projectId) await utils.project.list.invalidate();
 
       // Download the video
       const a = document.createElement("a");
@@ -334,6 +1352,42 @@ function DemoPage() {
     }
   };
 
+  // Packages the latest render + quiz for upload to the corporate LMS
+  const handleExportLms = async () => {
+    if (!projectId) return alert("Save the project and render the MP4 first.");
+
+    setIsExporting(true);
+    try {
+      console.log("[LMS] Exporting", lmsFormat, "package...");
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, format: lmsFormat, passingScore }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Export failed");
+      }
+
+      const blob = await response.blob();
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(blob);
+      a.download = `${(story?.title ?? "course").replace(/\s+/g, "_")}-${lmsFormat}.zip`;
+      a.click();
+      URL.revokeObjectURL(a.href);
+    } catch (error) {
+      console.error("[LMS] Error:", error);
+      alert(
+        `LMS export failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleTestAudio = () => {
     if (!audioUrl) return alert("Generate voice first.");
 
@@ -403,7 +1457,7 @@ function DemoPage() {
         </h1>
         <div className="flex gap-2">
           <Button
-            onClick={() => generate.mutate({ text, defaultStyle: style })}
+            onClick={handleGenerate}
             className="gap-2"
             disabled={generate.isPending}
           >
@@ -430,8 +1484,100 @@ function DemoPage() {
       </header>
 
       <main className="max-w-5xl mx-auto px-6 pb-24 space-y-8">
+        <Card className="p-6 rounded-2xl shadow-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <FolderOpen className="w-4 h-4 text-gray-500" />
+            <Label className="text-sm">Project</Label>
+            <Select
+              value={projectId ?? ""}
+              onValueChange={(id) => handleOpenProject(id)}
+            >
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Unsaved project" />
+              </SelectTrigger>
+              <SelectContent>
+                {(projects.data ?? []).map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleNewProject}>
+              <Plus className="w-4 h-4" />
+              New
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={handleDeleteProject}
+              disabled={!projectId || deleteProject.isPending}
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </Button>
+            {projectId && (
+              <Badge variant="secondary" className="gap-1">
+                <Save className="w-3 h-3" />
+                {createProject.isPending || updateProject.isPending
+                  ? "Saving…"
+                  : "Saved"}
+              </Badge>
+            )}
+            <div className="flex items-center gap-2 ml-auto">
+              <Label htmlFor="author" className="text-sm">
+                Author
+              </Label>
+              <Input
+                id="author"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                className="w-36 h-8"
+              />
+            </div>
+          </div>
+        </Card>
+
         <Card className="p-6 rounded-2xl shadow-sm space-y-3">
-          <Label>1) Paste policy text</Label>
+          <div className="flex items-center justify-between">
+            <Label>1) Paste policy text or upload a document</Label>
+            <label className="inline-flex items-center gap-2 text-sm cursor-pointer text-gray-600 hover:text-gray-900">
+              {isUploading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              {isUploading ? "Extracting…" : "Upload PDF, DOCX, MD or HTML"}
+              <input
+                type="file"
+                accept=".pdf,.docx,.md,.markdown,.html,.htm,.txt"
+                className="hidden"
+                disabled={isUploading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleUpload(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+          {sourceDocument && (
+            <div className="text-xs text-gray-500">
+              Source:{" "}
+              {projectId ? (
+                <a
+                  className="underline"
+                  href={`/api/upload?projectId=${projectId}`}
+                >
+                  {sourceDocument.fileName}
+                </a>
+              ) : (
+                sourceDocument.fileName
+              )}{" "}
+              · {sourceDocument.headings.length} headings used as outline
+            </div>
+          )}
           <Textarea
             value={text}
             onChange={(e) => setText(e.target.value)}
@@ -442,7 +1588,7 @@ function DemoPage() {
             <Label className="text-sm">Comic Pack</Label>
             <Select
               value={style}
-              onValueChange={(v) => setStyle(v as Module["lottie"])}
+              onValueChange={(v) => setStyle(v as LottieStyle)}
             >
               <SelectTrigger className="w-56">
                 <SelectValue placeholder="Choose style" />
@@ -453,28 +1599,377 @@ function DemoPage() {
                 <SelectItem value="security">Security</SelectItem>
               </SelectContent>
             </Select>
+            <Label className="text-sm">Model</Label>
+            <Select
+              value={llmProvider}
+              onValueChange={(v) => setLlmProvider(v as LLMProviderChoice)}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose model" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Server default</SelectItem>
+                <SelectItem value="openai">OpenAI</SelectItem>
+                <SelectItem value="local">Local model</SelectItem>
+                <SelectItem value="mock">Mock (offline)</SelectItem>
+              </SelectContent>
+            </Select>
+            <Label className="text-sm">Language</Label>
+            <Select
+              value={language}
+              onValueChange={(v) => setLanguage(v as LanguageChoice)}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose language" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="source">Same as source text</SelectItem>
+                {LANGUAGE_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {LANGUAGES[code].nativeName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+          <div className="flex flex-wrap items-end gap-4 pt-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Audience</Label>
+              <Select
+                value={brief.audience ?? "any"}
+                onValueChange={(v) =>
+                  setBrief((prev) => ({
+                    ...prev,
+                    audience: v === "any" ? undefined : (v as GenerationBrief["audience"]),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-40 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {AUDIENCES.map((a) => (
+                    <SelectItem key={a} value={a}>
+                      {AUDIENCE_LABELS[a]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Tone</Label>
+              <Select
+                value={brief.tone ?? "any"}
+                onValueChange={(v) =>
+                  setBrief((prev) => ({
+                    ...prev,
+                    tone: v === "any" ? undefined : (v as GenerationBrief["tone"]),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {TONES.map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {TONE_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Reading level</Label>
+              <Select
+                value={brief.readingLevel ?? "any"}
+                onValueChange={(v) =>
+                  setBrief((prev) => ({
+                    ...prev,
+                    readingLevel:
+                      v === "any" ? undefined : (v as GenerationBrief["readingLevel"]),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-40 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {READING_LEVELS.map((l) => (
+                    <SelectItem key={l} value={l}>
+                      {READING_LEVEL_LABELS[l]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="target-seconds" className="text-xs text-gray-500">
+                Target length (s)
+              </Label>
+              <Input
+                id="target-seconds"
+                type="number"
+                min={30}
+                max={1800}
+                placeholder="Auto"
+                value={brief.targetSeconds ?? ""}
+                onChange={(e) => {
+                  const n = parseInt(e.target.value, 10);
+                  setBrief((prev) => ({ ...prev, targetSeconds: n > 0 ? n : undefined }));
+                }}
+                className="w-24 h-8"
+              />
+            </div>
+            {!!brief.targetSeconds && (
+              <p className="text-xs text-gray-500 pb-2">
+                Overview, modules and points are sized to the target length from
+                the voice&apos;s measured pace; the quiz gets as many questions of
+                its range as fit.
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4 pt-2">
+            <div className="space-y-1">
+              <Label htmlFor="glossary-required" className="text-xs text-gray-500">
+                Required terms (one per line, exact spelling)
+              </Label>
+              <Textarea
+                id="glossary-required"
+                value={glossaryText.required}
+                onChange={(e) =>
+                  setGlossaryText((prev) => ({ ...prev, required: e.target.value }))
+                }
+                rows={3}
+                placeholder="Data Protection Officer"
+                className="text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="glossary-forbidden" className="text-xs text-gray-500">
+                Forbidden terms (term =&gt; replacement, replacement optional)
+              </Label>
+              <Textarea
+                id="glossary-forbidden"
+                value={glossaryText.forbidden}
+                onChange={(e) =>
+                  setGlossaryText((prev) => ({ ...prev, forbidden: e.target.value }))
+                }
+                rows={3}
+                placeholder="guarantee => aim"
+                className="text-xs"
+              />
+              {findReplacementConflicts(glossary.forbidden).map(({ index, replacement, term }) => (
+                <div key={index} className="text-xs text-red-600">
+                  &quot;{replacement}&quot; contains the forbidden term &quot;{term}&quot;
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-4 pt-2">
+            {LIMIT_FIELDS.map(({ key, label, max }) => (
+              <CountRangeInput
+                key={key}
+                label={label}
+                max={max}
+                value={limits[key]}
+                onChange={(value) =>
+                  setLimits((prev) => ({ ...prev, [key]: value }))
+                }
+                disabled={!!brief.targetSeconds && LENGTH_SIZED_LIMITS.includes(key)}
+              />
+            ))}
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Question types</Label>
+              <div className="flex gap-3">
+                {QUIZ_TYPES.map((type) => (
+                  <div key={type} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`quiz-${type}`}
+                      checked={quizTypes.includes(type)}
+                      // At least one type must stay selected
+                      disabled={quizTypes.length === 1 && quizTypes[0] === type}
+                      onCheckedChange={(checked) =>
+                        setQuizTypes((prev) =>
+                          checked
+                            ? QUIZ_TYPES.filter((t) => t === type || prev.includes(t))
+                            : prev.filter((t) => t !== type)
+                        )
+                      }
+                    />
+                    <Label htmlFor={`quiz-${type}`} className="text-xs cursor-pointer">
+                      {QUIZ_TYPE_LABELS[type]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 ml-auto"
+              onClick={handlePlanCourse}
+              disabled={planCourse.isPending || text.length < 20}
+            >
+              {planCourse.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Split into course
+            </Button>
+          </div>
+          {planCourse.isPending && generateProgress.latest && (
+            <p className="text-xs text-gray-500">{generateProgress.latest.message}</p>
+          )}
+          {planCourse.data && (
+            <div className="space-y-2 pt-2 text-sm">
+              <div className="font-semibold">
+                {planCourse.data.title} — {planCourse.data.videos.length} videos
+              </div>
+              <ol className="list-decimal ml-5 space-y-1">
+                {planCourse.data.videos.map((video, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{video.title}</span>{" "}
+                    <span className="text-gray-500">
+                      ({video.sectionTitles.length} sections) {video.description}
+                    </span>{" "}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => handleUseCourseVideo(video.sourceText)}
+                    >
+                      Use as new project
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </Card>
 
         <Card className="p-6 rounded-2xl shadow-sm">
-          <h2 className="text-xl font-semibold mb-3">2) Script</h2>
-          {generate.isIdle && !story && (
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-semibold">2) Script</h2>
+            {!isEditing && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    Import
+                    <input
+                      type="file"
+                      accept=".json,.yaml,.yml"
+                      className="hidden"
+                      disabled={importStoryboard.isPending}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportStoryboard(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+                {story && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExportStoryboard("json")}
+                      disabled={exportStoryboard.isPending}
+                    >
+                      Export JSON
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExportStoryboard("yaml")}
+                      disabled={exportStoryboard.isPending}
+                    >
+                      Export YAML
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleStartEdit}>
+                      Edit
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+            {isEditing && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsEditing(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSaveEdit}
+                  disabled={commitVersion.isPending}
+                >
+                  Save as new version
+                </Button>
+              </div>
+            )}
+          </div>
+          {!generate.isPending && !story && (
             <p className="text-sm text-gray-500">
               Click Generate to structure the storyboard via OpenAI (JSON schema
               enforced).
             </p>
           )}
-          {generate.isPending && <Stepper step={step} />}
-          {story && (
+          {generate.isPending && (
+            <JobProgress events={generateProgress.events}>
+              <PartialResults partials={generateProgress.partials} />
+            </JobProgress>
+          )}
+          {isEditing && (
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={20}
+              className="font-mono text-xs"
+            />
+          )}
+          {story && !isEditing && (
             <div className="space-y-3 text-sm">
+              {storyboard?.sources && (
+                <div className="text-xs text-gray-500">
+                  {groundedCount} lines grounded in the policy text. Click a dot
+                  to see the cited passage.
+                </div>
+              )}
+              <RegenerationGuidance value={regenGuidance} onChange={setRegenGuidance} />
+              {glossaryViolations.length > 0 && (
+                <ul className="text-xs text-amber-700 space-y-0.5">
+                  {glossaryViolations.map((v, i) => (
+                    <li key={i}>
+                      ⚠ {v.path}: “{v.found}”{" "}
+                      {v.kind === "spelling"
+                        ? `should be written “${v.expected}”`
+                        : v.expected
+                          ? `is not allowed, use “${v.expected}”`
+                          : "is not allowed; reword it"}
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div>
                 <span className="font-semibold">Intro:</span> {story.intro}
+                {regenButton({ kind: "intro" }, "intro")}
+                {lintNotes("intro")}
               </div>
               <div>
                 <span className="font-semibold">Overview:</span>
+                {lintNotes("overview")}
                 <ul className="list-disc ml-5">
                   {story.overview.map((o, i) => (
-                    <li key={i}>{o}</li>
+                    <li key={i}>
+                      {o}
+                      {marker(`overview[${i}]`)}
+                      {lintNotes(`overview[${i}]`)}
+                    </li>
                   ))}
                 </ul>
               </div>
@@ -484,10 +1979,16 @@ function DemoPage() {
                   {story.modules.map((m, i) => (
                     <li key={i}>
                       <span className="font-medium">{m.title}</span> — style{" "}
-                      <code>{m.lottie}</code>
+                      <code>{style}</code>
+                      {regenButton({ kind: "module", index: i }, `module ${i + 1}`)}
+                      {lintNotes(`modules[${i}]`, `modules[${i}].title`)}
                       <ul className="list-disc ml-5">
                         {m.points.map((p, j) => (
-                          <li key={j}>{p}</li>
+                          <li key={j}>
+                            {p}
+                            {marker(`modules[${i}].points[${j}]`)}
+                            {lintNotes(`modules[${i}].points[${j}]`)}
+                          </li>
                         ))}
                       </ul>
                     </li>
@@ -496,11 +1997,70 @@ function DemoPage() {
               </div>
               <div>
                 <span className="font-semibold">Summary:</span> {story.summary}
+                {marker("summary")}
+                {regenButton({ kind: "summary" }, "summary")}
+                {lintNotes("summary")}
+              </div>
+              <div>
+                <span className="font-semibold">Quiz:</span>
+                <ol className="list-decimal ml-5 space-y-1">
+                  {story.quiz.map((q, i) => (
+                    <li key={i}>
+                      <Badge variant="outline" className="mr-1 text-[10px]">
+                        {QUIZ_TYPE_LABELS[q.type]}
+                      </Badge>
+                      {q.q}{" "}
+                      <span className="text-gray-500">→ {describeCorrect(q)}</span>
+                      {marker(`quiz[${i}]`)}
+                      {regenButton({ kind: "quiz", index: i }, `quiz question ${i + 1}`)}
+                      {q.moduleIndex !== null && (
+                        <span className="text-xs text-gray-400">
+                          {" "}
+                          · tests module {q.moduleIndex + 1}
+                        </span>
+                      )}
+                      {q.explanation && (
+                        <div className="text-xs text-gray-500">{q.explanation}</div>
+                      )}
+                      {quizIssues.get(i) && (
+                        <div className="text-xs text-amber-700">⚠ {quizIssues.get(i)}</div>
+                      )}
+                      {lintNotes(`quiz[${i}]`)}
+                    </li>
+                  ))}
+                </ol>
               </div>
+              {selectedSourcePath && (
+                <SourcePanel
+                  path={selectedSourcePath}
+                  sourceRef={sourcesByPath.get(selectedSourcePath)}
+                  sourceText={text}
+                />
+              )}
             </div>
           )}
         </Card>
 
+        {projectId && (
+          <VersionHistory
+            projectId={projectId}
+            author={author}
+            onRestore={handleVersionRestored}
+            onBranch={handleOpenProject}
+          />
+        )}
+
+        {projectId && story && (
+          <LocalizationPanel
+            key={projectId}
+            projectId={projectId}
+            masterProjectId={masterProjectId}
+            sourceLanguage={normalizeLanguage(story.language)}
+            author={author}
+            onOpen={handleOpenProject}
+          />
+        )}
+
         <Card className="p-6 rounded-2xl shadow-sm space-y-3">
           <h2 className="text-xl font-semibold mb-3">3) Advanced Features</h2>
           <div className="flex flex-col gap-3">
@@ -514,6 +2074,33 @@ function DemoPage() {
                 Segmented TTS (voice-driven timing with music-metadata)
               </Label>
             </div>
+            <div className="flex items-center gap-3">
+              <Label className="text-sm">Voice engine</Label>
+              <Select
+                value={ttsProvider}
+                onValueChange={(v) => setTtsProvider(v as TTSProviderChoice)}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose voice engine" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Server default</SelectItem>
+                  {TTS_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider} value={provider}>
+                      {TTS_PROVIDER_LABELS[provider]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <VoiceLibraryPanel
+              library={voiceLibrary}
+              onChange={setVoiceLibrary}
+              sceneIds={story ? storyboardSceneIds(story) : []}
+              language={story?.language || "de"}
+              sampleText={story?.intro}
+              onSave={projectId ? () => saveProject({ voices: voiceLibrary }) : undefined}
+            />
             <div className="flex items-center gap-3">
               <Checkbox
                 id="broll"
@@ -524,6 +2111,7 @@ function DemoPage() {
                 Generate B-roll with Runway Gen-4 Turbo
               </Label>
             </div>
+            <CacheStats />
           </div>
         </Card>
 
@@ -535,14 +2123,14 @@ function DemoPage() {
                 variant="outline"
                 className="gap-2"
                 onClick={handleGenerateVoice}
-                disabled={!story || tts.isPending || audioSegments.isPending}
+                disabled={!story || tts.isPending || audioSegments.isPending || quizNarration.isPending}
               >
-                {tts.isPending || audioSegments.isPending ? (
+                {tts.isPending || audioSegments.isPending || quizNarration.isPending ? (
                   <Loader2 className="w-4 h-4 animate-spin" />
                 ) : (
                   <AudioLines className="w-4 h-4" />
                 )}
-                {tts.isPending || audioSegments.isPending
+                {tts.isPending || audioSegments.isPending || quizNarration.isPending
                   ? "Generating Voice…"
                   : "Add Voice"}
               </Button>
@@ -587,8 +2175,72 @@ function DemoPage() {
                 )}
                 {isRendering ? "Rendering MP4…" : "Render MP4"}
               </Button>
+              {segments && (
+                <Button variant="outline" className="gap-2" onClick={handleDownloadCaptions}>
+                  <Download className="w-4 h-4" />
+                  Captions (.vtt)
+                </Button>
+              )}
             </div>
           </div>
+          <div className="flex items-center gap-3 flex-wrap text-sm">
+            <Label className="text-sm">LMS package</Label>
+            <Select
+              value={lmsFormat}
+              onValueChange={(v) => setLmsFormat(v as "scorm12" | "cmi5")}
+            >
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="scorm12">SCORM 1.2</SelectItem>
+                <SelectItem value="cmi5">cmi5 (xAPI)</SelectItem>
+              </SelectContent>
+            </Select>
+            <Label htmlFor="passing-score" className="text-sm">
+              Pass mark %
+            </Label>
+            <Input
+              id="passing-score"
+              type="number"
+              min={0}
+              max={100}
+              value={passingScore}
+              onChange={(e) =>
+                setPassingScore(Math.min(100, Math.max(0, Number(e.target.value) || 0)))
+              }
+              className="w-20 h-8"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={handleExportLms}
+              disabled={!story || !renderCount || isExporting}
+            >
+              {isExporting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Package className="w-4 h-4" />
+              )}
+              {isExporting ? "Packaging…" : "Export for LMS"}
+            </Button>
+            {!renderCount && (
+              <span className="text-xs text-gray-500">
+                Uses the project&apos;s latest render; render the MP4 first.
+              </span>
+            )}
+          </div>
+          {audioSegments.isPending && (
+            <JobProgress events={voiceProgress.events}>
+              <PartialResults partials={voiceProgress.partials} />
+            </JobProgress>
+          )}
+          {video.isPending && (
+            <JobProgress events={brollProgress.events}>
+              <PartialResults partials={brollProgress.partials} />
+            </JobProgress>
+          )}
           {(audioUrl || segments) && (
             <div className="text-xs text-emerald-600">
               Voice attached.{" "}
@@ -597,20 +2249,29 @@ function DemoPage() {
                 : `Duration ${
                     audioSeconds ? audioSeconds.toFixed(1) + "s" : "…"
                   }`}
-              {brollClips && ` • ${brollClips.length} B-roll clips ready`}
+              {brollClips && ` • ${Object.keys(brollClips).length} B-roll clips ready`}
+              {narrationStale && (
+                <span className="text-amber-700">
+                  {" "}
+                  • Script changed since the voice was recorded; click Add Voice
+                  to update it.
+                </span>
+              )}
             </div>
           )}
           {story ? (
             <Player
               key={`${audioUrl || segments?.[0]?.url || "no-audio"}-${
-                brollClips?.join(',') || "no-broll"
+                (brollClips && Object.values(brollClips).join(",")) || "no-broll"
               }`}
               component={GraphycsComposition}
               inputProps={{
                 storyboard: story,
                 audioUrl: useSegmented ? null : audioUrl,
-                brollUrls: useBroll ? brollClips || undefined : undefined,
+                brollClips: useBroll ? brollClips || undefined : undefined,
                 segments: useSegmented ? segments || undefined : undefined,
+                quizAudio: quizAudio || undefined,
+                audioDuration: useSegmented ? undefined : audioSeconds ?? undefined,
               }}
               durationInFrames={durationInFrames}
               compositionWidth={1280}
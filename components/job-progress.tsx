@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useState } from "react";
+import { skipToken } from "@tanstack/react-query";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/components/trpc";
+import type { ProgressEvent, ProgressPartial } from "@/server/lib/progress";
+
+/**
+ * Pipeline events of a running job, streamed from progress.watch. `start()`
+ * picks a fresh job id for each run, so pass it as the mutation's jobId; the
+ * subscription opens while `active` is set, so pass the mutation's isPending.
+ */
+export function useJobProgress(active: boolean) {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ jobId: string | null; events: ProgressEvent[] }>({
+    jobId: null,
+    events: [],
+  });
+  trpc.progress.watch.useSubscription(jobId && active ? { jobId } : skipToken, {
+    onData: (event) =>
+      setProgress((prev) =>
+        prev.jobId === jobId
+          ? { jobId, events: [...prev.events, event] }
+          : { jobId, events: [event] }
+      ),
+  });
+  const events = progress.jobId === jobId ? progress.events : [];
+  return {
+    start: () => {
+      const id = crypto.randomUUID();
+      setJobId(id);
+      return id;
+    },
+    events,
+    latest: events.at(-1),
+    partials: events.flatMap((e) => (e.partial ? [e.partial] : [])),
+  };
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  map: "Reading sections",
+  reduce: "Combining notes",
+  storyboard: "Storyboard",
+  voice: "Voice",
+  broll: "B-roll",
+  localize: "Localizing",
+};
+
+// The stages a job has reached so far, with the current one's step count
+export function JobProgress({
+  events,
+  children,
+}: {
+  events: ProgressEvent[];
+  children?: React.ReactNode;
+}) {
+  const latest = events.at(-1);
+  const stages = [...new Set(events.map((e) => e.stage))];
+  if (!latest) {
+    return (
+      <div className="flex items-center gap-1 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" /> Starting…
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {stages.map((stage, i) => (
+          <div
+            key={stage}
+            className={`flex items-center gap-1 ${
+              stage === latest.stage ? "text-gray-700" : "text-emerald-600"
+            }`}
+          >
+            {stage === latest.stage ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <CheckCircle2 className="w-4 h-4" />
+            )}
+            <span>{STAGE_LABELS[stage] ?? stage}</span>
+            {i < stages.length - 1 && <span className="mx-2 text-gray-300">›</span>}
+          </div>
+        ))}
+      </div>
+      <Progress value={(latest.current / Math.max(1, latest.total)) * 100} className="h-2" />
+      <p className="text-xs text-gray-500">
+        {latest.current}/{latest.total}: {latest.message}
+      </p>
+      {children}
+    </div>
+  );
+}
+
+// What finished steps have produced so far
+export function PartialResults({ partials }: { partials: ProgressPartial[] }) {
+  const storyboard = partials.findLast((p) => p.kind === "storyboard");
+  const segments = partials.flatMap((p) => (p.kind === "segment" ? [p] : []));
+  const clips = partials.flatMap((p) => (p.kind === "clip" ? [p] : []));
+  return (
+    <>
+      {storyboard && (
+        <div className="text-xs text-gray-600">
+          <span className="font-medium">{storyboard.storyboard.title}</span>:{" "}
+          {storyboard.storyboard.modules.map((m) => m.title).join(" · ")}
+        </div>
+      )}
+      {segments.length > 0 && (
+        <ol className="text-xs text-gray-600 max-h-24 overflow-y-auto">
+          {segments.map(({ index, segment, reused }) => (
+            <li key={index}>
+              {index + 1}. {segment.text.slice(0, 60)}
+              {segment.text.length > 60 ? "…" : ""}{" "}
+              <span className="text-gray-400">
+                {segment.duration.toFixed(1)}s{reused ? " (kept)" : ""}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {clips.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {clips.map(({ sceneId, url }) => (
+            <video key={sceneId} src={url} title={sceneId} muted loop autoPlay className="rounded w-full" />
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc, type GeneratedStoryboard, type RouterInputs } from "@/components/trpc";
+
+type RegenerateInput = RouterInputs["structure"]["regenerateSection"];
+export type ScriptSection = RegenerateInput["section"];
+
+// Small inline button next to a regenerable part of the script
+function RegenerateButton({
+  busy,
+  disabled,
+  onClick,
+}: {
+  busy: boolean;
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-1 ml-1 text-gray-500"
+      title="Regenerate this section"
+      onClick={onClick}
+      disabled={disabled}
+    >
+      {busy ? (
+        <Loader2 className="w-3 h-3 animate-spin" />
+      ) : (
+        <RefreshCw className="w-3 h-3" />
+      )}
+    </Button>
+  );
+}
+
+// Reviewer direction sent along with every section regeneration
+export function RegenerationGuidance({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor="regen-guidance" className="text-xs text-gray-500 shrink-0">
+        Regeneration guidance
+      </Label>
+      <Input
+        id="regen-guidance"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Optional, e.g. “make this more concrete”"
+        className="h-8 text-xs"
+      />
+    </div>
+  );
+}
+
+/**
+ * Rewrites one section of the script at a time. `input` supplies the rest of
+ * the request (source text, storyboard, brief, …) or null while there is no
+ * storyboard; `onRegenerated` gets the new storyboard and a version note.
+ * Always skips the LLM cache: regenerating is asking for a new take.
+ */
+export function useSectionRegeneration({
+  input,
+  disabled,
+  onRegenerated,
+}: {
+  input: () => Omit<RegenerateInput, "section" | "guidance" | "fresh"> | null;
+  disabled: boolean;
+  onRegenerated: (next: GeneratedStoryboard, section: ScriptSection, note: string) => Promise<void>;
+}) {
+  const regenerate = trpc.structure.regenerateSection.useMutation();
+  const [guidance, setGuidance] = useState("");
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+
+  const regenerateSection = async (section: ScriptSection, key: string) => {
+    const request = input();
+    if (!request) return;
+    const note = guidance.trim();
+    setRegeneratingKey(key);
+    let next: GeneratedStoryboard;
+    try {
+      next = await regenerate.mutateAsync({
+        ...request,
+        section,
+        guidance: note || undefined,
+        fresh: true,
+      });
+    } catch (error) {
+      console.error("[Regenerate] Error:", error);
+      return alert(
+        `Regeneration failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setRegeneratingKey(null);
+    }
+    await onRegenerated(next, section, `Regenerated ${key}${note ? `: ${note}` : ""}`);
+  };
+
+  return {
+    guidance,
+    setGuidance,
+    // The button for one section, keyed for its spinner
+    button: (section: ScriptSection, key: string) => (
+      <RegenerateButton
+        busy={regeneratingKey === key}
+        disabled={disabled || regenerate.isPending}
+        onClick={() => regenerateSection(section, key)}
+      />
+    ),
+  };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { httpBatchLink, httpSubscriptionLink, splitLink } from "@trpc/client";
+import superjson from "superjson";
+import { createTRPCReact } from "@trpc/react-query";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+
+// ---------- tRPC client ----------
+type AppRouter = import("@/trpc-types").AppRouter;
+export type RouterInputs = inferRouterInputs<AppRouter>;
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
+export type GeneratedStoryboard = RouterOutputs["structure"]["generate"];
+
+export const trpc = createTRPCReact<AppRouter>();
+const queryClient = new QueryClient();
+export function TRPCProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <trpc.Provider
+      client={trpc.createClient({
+        links: [
+          // Progress subscriptions stream over SSE, everything else is batched
+          splitLink({
+            condition: (op) => op.type === "subscription",
+            true: httpSubscriptionLink({ url: "/api/trpc", transformer: superjson }),
+            false: httpBatchLink({ url: "/api/trpc", transformer: superjson }),
+          }),
+        ],
+      })}
+      queryClient={queryClient}
+    >
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    </trpc.Provider>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import React from "react";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectValue,
+  SelectItem,
+} from "@/components/ui/select";
+import { VoicePreviewButton, useVoicePreview } from "@/components/voice-preview";
+import { LANGUAGES, LANGUAGE_CODES, type LanguageCode } from "@/lib/languages";
+import {
+  TTS_PROVIDERS,
+  voiceLibrarySchema,
+  type TtsProviderName,
+  type VoiceLibrary,
+  type VoiceProfile,
+} from "@/lib/voices";
+import { fieldIssues } from "@/lib/validation";
+
+// Auditioned before a storyboard exists; afterwards its intro is read
+const VOICE_SAMPLE_TEXT = "Welcome to this short training. Let's walk through what matters most.";
+
+export const TTS_PROVIDER_LABELS: Record<TtsProviderName, string> = {
+  eleven: "ElevenLabs",
+  openai: "OpenAI TTS",
+  local: "Local (offline drafts)",
+};
+
+// The project's voices, their tuning and which scene each one narrates
+export function VoiceLibraryPanel({
+  library,
+  onChange,
+  sceneIds,
+  language,
+  sampleText,
+  onSave,
+}: {
+  library: VoiceLibrary;
+  onChange: (library: VoiceLibrary) => void;
+  sceneIds: string[];
+  language: string;
+  sampleText?: string;
+  onSave?: () => void;
+}) {
+  const preview = useVoicePreview(language, sampleText || VOICE_SAMPLE_TEXT);
+  const parsed = voiceLibrarySchema.safeParse(library);
+
+  const updateVoice = (index: number, patch: Partial<VoiceProfile>) =>
+    onChange({
+      ...library,
+      voices: library.voices.map((voice, i) => (i === index ? { ...voice, ...patch } : voice)),
+    });
+
+  const addVoice = () => {
+    let n = library.voices.length + 1;
+    while (library.voices.some((voice) => voice.id === `voice-${n}`)) n++;
+    const voice: VoiceProfile = { id: `voice-${n}`, name: n === 1 ? "Narrator" : `Voice ${n}`, provider: "eleven", voiceId: "" };
+    onChange({
+      ...library,
+      voices: [...library.voices, voice],
+      defaultVoice: library.defaultVoice ?? voice.id,
+    });
+  };
+
+  // Scenes that used the removed voice go back to the default voice
+  const removeVoice = (id: string) =>
+    onChange({
+      voices: library.voices.filter((voice) => voice.id !== id),
+      defaultVoice: library.defaultVoice === id ? null : library.defaultVoice,
+      sceneVoices: Object.fromEntries(Object.entries(library.sceneVoices).filter(([, voiceId]) => voiceId !== id)),
+    });
+
+  const assignScene = (sceneId: string, voiceId: string) => {
+    const rest = { ...library.sceneVoices };
+    delete rest[sceneId];
+    onChange({ ...library, sceneVoices: voiceId === "default" ? rest : { ...rest, [sceneId]: voiceId } });
+  };
+
+  const parseNumber = (raw: string) => (raw.trim() === "" ? undefined : Number(raw));
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Voices</Label>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="gap-1" onClick={addVoice} disabled={library.voices.length >= 20}>
+            <Plus className="w-3 h-3" /> Add voice
+          </Button>
+          {onSave && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={onSave} disabled={!parsed.success}>
+              <Save className="w-3 h-3" /> Save voices
+            </Button>
+          )}
+        </div>
+      </div>
+      {!library.voices.length && (
+        <p className="text-xs text-gray-500">
+          No voices yet: every scene uses the voice engine&apos;s configured voice.
+        </p>
+      )}
+      {library.voices.map((voice, index) => (
+        <div key={index} className="grid grid-cols-6 gap-2 items-end rounded-lg border p-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Name</Label>
+            <Input className="h-8" value={voice.name} onChange={(e) => updateVoice(index, { name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Engine</Label>
+            <Select value={voice.provider} onValueChange={(v) => updateVoice(index, { provider: v as TtsProviderName })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TTS_PROVIDERS.map((provider) => (
+                  <SelectItem key={provider} value={provider}>
+                    {TTS_PROVIDER_LABELS[provider]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Voice id</Label>
+            <Input
+              className="h-8"
+              value={voice.voiceId}
+              placeholder="engine default"
+              onChange={(e) => updateVoice(index, { voiceId: e.target.value.trim() })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Language</Label>
+            <Select
+              value={voice.language ?? "any"}
+              onValueChange={(v) => updateVoice(index, { language: v === "any" ? undefined : (v as LanguageCode) })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any language</SelectItem>
+                {LANGUAGE_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {LANGUAGES[code].nativeName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs text-gray-500">Style</Label>
+            <Input
+              className="h-8"
+              value={voice.style ?? ""}
+              placeholder="e.g. calm and friendly"
+              onChange={(e) => updateVoice(index, { style: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Speed (0.7–1.2)</Label>
+            <Input
+              className="h-8"
+              type="number"
+              min={0.7}
+              max={1.2}
+              step={0.05}
+              value={voice.speed ?? ""}
+              placeholder="1"
+              onChange={(e) => updateVoice(index, { speed: parseNumber(e.target.value) })}
+            />
+          </div>
+          {voice.provider === "eleven" && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Stability</Label>
+                <Input
+                  className="h-8"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={voice.stability ?? ""}
+                  placeholder="0.5"
+                  onChange={(e) => updateVoice(index, { stability: parseNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Similarity</Label>
+                <Input
+                  className="h-8"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={voice.similarityBoost ?? ""}
+                  placeholder="0.7"
+                  onChange={(e) => updateVoice(index, { similarityBoost: parseNumber(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+          <div className="flex gap-2 col-start-5 col-span-2 justify-end">
+            <VoicePreviewButton voice={voice} preview={preview} />
+            <Button variant="ghost" size="sm" onClick={() => removeVoice(voice.id)}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      {library.voices.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-gray-500 w-20">Default</Label>
+            <Select
+              value={library.defaultVoice ?? "server"}
+              onValueChange={(v) => onChange({ ...library, defaultVoice: v === "server" ? null : v })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="server">Engine default</SelectItem>
+                {library.voices.map((voice) => (
+                  <SelectItem key={voice.id} value={voice.id}>
+                    {voice.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {sceneIds.map((sceneId) => (
+            <div key={sceneId} className="flex items-center gap-2">
+              <Label className="text-xs text-gray-500 w-20">{sceneId}</Label>
+              <Select value={library.sceneVoices[sceneId] ?? "default"} onValueChange={(v) => assignScene(sceneId, v)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default voice</SelectItem>
+                  {library.voices.map((voice) => (
+                    <SelectItem key={voice.id} value={voice.id}>
+                      {voice.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+      {library.voices.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Scene voices apply to segmented narration; a single track and the quiz use the default voice.
+        </p>
+      )}
+      {!parsed.success && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {fieldIssues(parsed.error).map((issue, i) => (
+            <li key={i}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
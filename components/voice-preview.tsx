@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/components/trpc";
+import { voiceProfileSchema, type VoiceProfile } from "@/lib/voices";
+
+/**
+ * Reads `text` with a voice profile's current settings, before they are
+ * saved. One voice at a time: `previewing` is the id of the one reading.
+ */
+export function useVoicePreview(language: string, text: string) {
+  const preview = trpc.audio.preview.useMutation();
+  const [previewing, setPreviewing] = useState<string | null>(null);
+
+  const play = async (profile: VoiceProfile) => {
+    setPreviewing(profile.id);
+    try {
+      const clip = await preview.mutateAsync({ profile, language, text: text.slice(0, 300) });
+      await new Audio(clip.url).play();
+    } catch (error) {
+      alert(`Preview failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  return { previewing, play };
+}
+
+export function VoicePreviewButton({
+  voice,
+  preview,
+}: {
+  voice: VoiceProfile;
+  preview: ReturnType<typeof useVoicePreview>;
+}) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="gap-1"
+      onClick={() => preview.play(voice)}
+      disabled={!voiceProfileSchema.safeParse(voice).success || preview.previewing !== null}
+    >
+      {preview.previewing === voice.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+      Preview
+    </Button>
+  );
+}
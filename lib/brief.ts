@@ -0,0 +1,23 @@
+// Who a video is for and how it should sound. Shared by generation prompts,
+// project storage and the page.
+import { z } from "zod";
+
+export const AUDIENCES = ["frontline", "managers", "executives"] as const;
+export type Audience = (typeof AUDIENCES)[number];
+
+export const TONES = ["formal", "friendly", "urgent"] as const;
+export type Tone = (typeof TONES)[number];
+
+export const READING_LEVELS = ["plain", "standard", "specialist"] as const;
+export type ReadingLevel = (typeof READING_LEVELS)[number];
+
+// Every field is optional; unset fields leave the choice to the model
+export const generationBriefSchema = z.object({
+  audience: z.enum(AUDIENCES).optional(),
+  tone: z.enum(TONES).optional(),
+  readingLevel: z.enum(READING_LEVELS).optional(),
+  // Whole video, quiz scenes included
+  targetSeconds: z.number().int().min(30).max(1800).optional(),
+});
+
+export type GenerationBrief = z.infer<typeof generationBriefSchema>;
@@ -0,0 +1,18 @@
+// How each B-roll clip was generated, stored with the project so a clip can be
+// reproduced or regenerated with the same prompt and seed.
+import { z } from "zod";
+
+export const brollMetadataSchema = z.object({
+  prompt: z.string(),
+  seed: z.number(),
+  duration: z.number(),
+  style_frame: z.string(),
+  scene_index: z.number(),
+  // Missing on clips generated before the visual plan
+  scene_id: z.string().optional(),
+  shot_type: z.string().optional(),
+  camera_motion: z.string().optional(),
+  concept: z.string(),
+});
+
+export type BrollMetadata = z.infer<typeof brollMetadataSchema>;
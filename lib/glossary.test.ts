@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyGlossary,
+  findGlossaryViolations,
+  formatGlossary,
+  glossaryInputSchema,
+  parseGlossary,
+  type Glossary,
+} from "./glossary";
+
+const storyboard = (intro: string, summary = "That's all.") => ({
+  title: "Security basics",
+  intro,
+  overview: [],
+  modules: [{ title: "Passwords", points: ["Use a password manager."] }],
+  summary,
+  quiz: [],
+});
+
+const glossary: Glossary = {
+  required: ["Data Protection Officer"],
+  forbidden: [
+    { term: "helpdesk", replacement: "the Service Desk" },
+    { term: "guys", replacement: null },
+  ],
+};
+
+describe("applyGlossary", () => {
+  it("keeps a replacement as written in the middle of a sentence", () => {
+    const { storyboard: fixed } = applyGlossary(storyboard("Incidents are reported to helpdesk right away."), glossary);
+    expect(fixed.intro).toBe("Incidents are reported to the Service Desk right away.");
+  });
+
+  it("capitalizes a replacement that starts the text or a sentence", () => {
+    const { storyboard: fixed } = applyGlossary(storyboard("Helpdesk can help. Ask first! helpdesk is free."), glossary);
+    expect(fixed.intro).toBe("The Service Desk can help. Ask first! The Service Desk is free.");
+  });
+
+  it("corrects the spelling of required terms", () => {
+    const { storyboard: fixed, fixed: count } = applyGlossary(
+      storyboard("Ask the data protection officer."),
+      glossary
+    );
+    expect(fixed.intro).toBe("Ask the Data Protection Officer.");
+    expect(count).toBe(1);
+  });
+
+  it("leaves forbidden terms without a replacement for a reviewer", () => {
+    const result = applyGlossary(storyboard("Hi guys."), glossary);
+    expect(result.storyboard.intro).toBe("Hi guys.");
+    expect(result.violations).toEqual([{ path: "intro", kind: "forbidden", found: "guys", expected: null }]);
+  });
+
+  it("only matches whole words", () => {
+    const { fixed } = applyGlossary(storyboard("Helpdesks are busy."), glossary);
+    expect(fixed).toBe(0);
+  });
+});
+
+describe("findGlossaryViolations", () => {
+  it("reports every broken rule with its path and leaves the text alone", () => {
+    const violations = findGlossaryViolations(storyboard("Call helpdesk.", "Ask the data protection officer."), glossary);
+    expect(violations).toEqual([
+      { path: "intro", kind: "forbidden", found: "helpdesk", expected: "the Service Desk" },
+      { path: "summary", kind: "spelling", found: "data protection officer", expected: "Data Protection Officer" },
+    ]);
+  });
+});
+
+describe("parseGlossary", () => {
+  it("round-trips through the page's text format", () => {
+    const parsed = parseGlossary(" Data Protection Officer \n\n", "helpdesk => the Service Desk\nguys");
+    expect(parsed).toEqual(glossary);
+    expect(formatGlossary(parsed)).toEqual({
+      required: "Data Protection Officer",
+      forbidden: "helpdesk => the Service Desk\nguys",
+    });
+  });
+});
+
+describe("glossaryInputSchema", () => {
+  it("rejects a replacement that brings back a forbidden term", () => {
+    const result = glossaryInputSchema.safeParse({
+      forbidden: [
+        { term: "IT", replacement: "the IT service desk" },
+        { term: "guys", replacement: "you guys" },
+        { term: "helpdesk", replacement: "the Service Desk" },
+      ],
+    });
+    expect(result.error?.issues.map(({ path, message }) => ({ path, message }))).toEqual([
+      { path: ["forbidden", 0, "replacement"], message: '"the IT service desk" contains the forbidden term "IT"' },
+      { path: ["forbidden", 1, "replacement"], message: '"you guys" contains the forbidden term "guys"' },
+    ]);
+  });
+
+  it("accepts the test glossary", () => {
+    expect(glossaryInputSchema.parse(glossary)).toEqual(glossary);
+  });
+});
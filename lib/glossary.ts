@@ -0,0 +1,196 @@
+// Per-project wording rules from Legal/Brand. Used by generation (prompt +
+// auto-fix) and by the page to flag what couldn't be fixed.
+import { z } from "zod";
+
+export type ForbiddenTerm = {
+  term: string;
+  replacement: string | null; // null: flag only, a human has to reword
+};
+
+export type Glossary = {
+  required: string[]; // exact spelling to use, e.g. "Data Protection Officer"
+  forbidden: ForbiddenTerm[];
+};
+
+export const glossarySchema = z.object({
+  required: z.array(z.string().min(1).max(200)).max(200).default([]),
+  forbidden: z
+    .array(z.object({ term: z.string().min(1).max(200), replacement: z.string().max(200).nullable() }))
+    .max(200)
+    .default([]),
+});
+
+/**
+ * Replacements that bring a forbidden term back, e.g. "IT => the IT service
+ * desk": the auto-fix would be flagged again on the next lint.
+ */
+export function findReplacementConflicts(forbidden: ForbiddenTerm[]) {
+  return forbidden.flatMap(({ replacement }, index) => {
+    const found = replacement
+      ? forbidden.find(({ term }) => term.trim() && termPattern(term.trim()).test(replacement))
+      : undefined;
+    return found ? [{ index, replacement: replacement!, term: found.term.trim() }] : [];
+  });
+}
+
+// What saves and generations accept. Stored glossaries use glossarySchema, so
+// projects saved before the check still load.
+export const glossaryInputSchema = glossarySchema.superRefine((glossary, ctx) => {
+  for (const { index, replacement, term } of findReplacementConflicts(glossary.forbidden)) {
+    ctx.addIssue({
+      code: "custom",
+      message: `"${replacement}" contains the forbidden term "${term}"`,
+      path: ["forbidden", index, "replacement"],
+    });
+  }
+});
+
+export type GlossaryViolation = {
+  path: string; // "modules[1].points[0]", "quiz[2].options[1].text", …
+  kind: "forbidden" | "spelling";
+  found: string;
+  expected: string | null;
+};
+
+type TextStoryboard = {
+  title: string;
+  intro: string;
+  overview: string[];
+  modules: { title: string; points: string[] }[];
+  summary: string;
+  quiz: { q: string; options: { text: string; feedback: string }[]; explanation: string }[];
+};
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Case-insensitive whole-word match for a term, in any script. */
+export function termPattern(term: string) {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+/** Rebuilds the storyboard with every user-visible string passed through fn. */
+function mapTexts<T extends TextStoryboard>(storyboard: T, fn: (text: string, path: string) => string): T {
+  return {
+    ...storyboard,
+    title: fn(storyboard.title, "title"),
+    intro: fn(storyboard.intro, "intro"),
+    overview: storyboard.overview.map((o, i) => fn(o, `overview[${i}]`)),
+    modules: storyboard.modules.map((m, i) => ({
+      ...m,
+      title: fn(m.title, `modules[${i}].title`),
+      points: m.points.map((p, j) => fn(p, `modules[${i}].points[${j}]`)),
+    })),
+    summary: fn(storyboard.summary, "summary"),
+    quiz: storyboard.quiz.map((q, i) => ({
+      ...q,
+      q: fn(q.q, `quiz[${i}].q`),
+      options: q.options.map((o, j) => ({
+        text: fn(o.text, `quiz[${i}].options[${j}].text`),
+        feedback: fn(o.feedback, `quiz[${i}].options[${j}].feedback`),
+      })),
+      explanation: fn(q.explanation, `quiz[${i}].explanation`),
+    })),
+  };
+}
+
+// Capitalizes a replacement that starts a sentence; anywhere else it's used
+// exactly as the glossary spells it ("reported to helpdesk" must not become
+// "reported to The Service Desk")
+function matchCase(replacement: string, before: string) {
+  return before === "" || /[.!?]\s+$/.test(before)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+const cleanTerms = (terms: string[]) =>
+  [...new Set(terms.map((t) => t.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+
+// Applies the fixable rules to one string and reports every rule it breaks
+function checkText(text: string, path: string, glossary: Glossary, fix: boolean) {
+  const violations: GlossaryViolation[] = [];
+  let fixed = 0;
+  let result = text;
+
+  for (const { term, replacement } of glossary.forbidden) {
+    if (!term.trim()) continue;
+    result = result.replace(termPattern(term.trim()), (found: string, offset: number, whole: string) => {
+      if (fix && replacement) {
+        fixed++;
+        return matchCase(replacement, whole.slice(0, offset));
+      }
+      violations.push({ path, kind: "forbidden", found, expected: replacement });
+      return found;
+    });
+  }
+
+  for (const term of cleanTerms(glossary.required)) {
+    result = result.replace(termPattern(term), (found) => {
+      if (found === term) return found;
+      if (fix) {
+        fixed++;
+        return term;
+      }
+      violations.push({ path, kind: "spelling", found, expected: term });
+      return found;
+    });
+  }
+
+  return { text: result, violations, fixed };
+}
+
+/** Every place the storyboard breaks the glossary, without changing it. */
+export function findGlossaryViolations(storyboard: TextStoryboard, glossary: Glossary): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  mapTexts(storyboard, (text, path) => {
+    violations.push(...checkText(text, path, glossary, false).violations);
+    return text;
+  });
+  return violations;
+}
+
+/**
+ * Replaces forbidden terms that have a replacement and corrects the spelling
+ * of required terms. Forbidden terms without a replacement are left for a
+ * reviewer and come back as violations.
+ */
+export function applyGlossary<T extends TextStoryboard>(
+  storyboard: T,
+  glossary: Glossary
+): { storyboard: T; fixed: number; violations: GlossaryViolation[] } {
+  let fixed = 0;
+  const violations: GlossaryViolation[] = [];
+  const result = mapTexts(storyboard, (text, path) => {
+    const checked = checkText(text, path, glossary, true);
+    fixed += checked.fixed;
+    violations.push(...checked.violations);
+    return checked.text;
+  });
+  return { storyboard: result, fixed, violations };
+}
+
+export const isGlossaryEmpty = (glossary: Glossary | null | undefined) =>
+  !glossary || (!glossary.required.some((t) => t.trim()) && !glossary.forbidden.some((f) => f.term.trim()));
+
+// The page edits the glossary as text: one required term per line, and one
+// forbidden term per line as "term => replacement" (replacement optional)
+export function parseGlossary(requiredText: string, forbiddenText: string): Glossary {
+  const lines = (text: string) => text.split("\n").map((l) => l.trim()).filter(Boolean);
+  return {
+    required: lines(requiredText),
+    forbidden: lines(forbiddenText).map((line) => {
+      const [term, replacement = ""] = line.split("=>").map((part) => part.trim());
+      return { term, replacement: replacement || null };
+    }).filter((f) => f.term),
+  };
+}
+
+export function formatGlossary(glossary: Glossary | null | undefined) {
+  return {
+    required: (glossary?.required ?? []).join("\n"),
+    forbidden: (glossary?.forbidden ?? [])
+      .map((f) => (f.replacement ? `${f.term} => ${f.replacement}` : f.term))
+      .join("\n"),
+  };
+}
@@ -0,0 +1,157 @@
+// Shared by the server (prompts, TTS) and the Remotion composition (fonts).
+
+export type LanguageInfo = {
+  name: string; // English name, used in LLM prompts
+  nativeName: string; // shown in the UI
+  direction: "ltr" | "rtl";
+  // Font stacks for scripts Space Grotesk / Inter don't cover
+  fonts?: { display: string; body: string };
+  // Abbreviations ending in a period that don't end a sentence
+  abbreviations?: string[];
+  // Typical narration pace in words per second, until a voice has been measured
+  wordsPerSecond: number;
+};
+
+export const LANGUAGES = {
+  en: {
+    name: "English",
+    nativeName: "English",
+    direction: "ltr",
+    wordsPerSecond: 2.6,
+    abbreviations: ["e.g.", "i.e.", "etc.", "vs.", "Mr.", "Mrs.", "Dr.", "No."],
+  },
+  de: {
+    name: "German",
+    nativeName: "Deutsch",
+    direction: "ltr",
+    wordsPerSecond: 2.2,
+    abbreviations: ["z.B.", "z. B.", "d.h.", "d. h.", "u.a.", "bzw.", "ggf.", "usw.", "inkl.", "ca.", "Nr.", "Abs.", "vgl.", "Dr."],
+  },
+  fr: {
+    name: "French",
+    nativeName: "Français",
+    direction: "ltr",
+    wordsPerSecond: 2.7,
+    abbreviations: ["p. ex.", "c.-à-d.", "etc.", "M.", "Mme.", "n°."],
+  },
+  es: {
+    name: "Spanish",
+    nativeName: "Español",
+    direction: "ltr",
+    wordsPerSecond: 2.8,
+    abbreviations: ["p. ej.", "etc.", "Sr.", "Sra.", "núm."],
+  },
+  it: {
+    name: "Italian",
+    nativeName: "Italiano",
+    direction: "ltr",
+    wordsPerSecond: 2.7,
+    abbreviations: ["ad es.", "ecc.", "Sig.", "n."],
+  },
+  pt: {
+    name: "Portuguese",
+    nativeName: "Português",
+    direction: "ltr",
+    wordsPerSecond: 2.6,
+    abbreviations: ["p. ex.", "etc.", "Sr.", "Sra.", "n.º"],
+  },
+  nl: {
+    name: "Dutch",
+    nativeName: "Nederlands",
+    direction: "ltr",
+    wordsPerSecond: 2.5,
+    abbreviations: ["bijv.", "o.a.", "d.w.z.", "enz.", "nr."],
+  },
+  pl: {
+    name: "Polish",
+    nativeName: "Polski",
+    direction: "ltr",
+    wordsPerSecond: 2.2,
+    abbreviations: ["np.", "tj.", "itd.", "itp.", "nr."],
+  },
+  ar: {
+    name: "Arabic",
+    nativeName: "العربية",
+    direction: "rtl",
+    wordsPerSecond: 2.1,
+    fonts: {
+      display: `"Noto Kufi Arabic", "Noto Sans Arabic", "Geeza Pro", sans-serif`,
+      body: `"Noto Sans Arabic", "Geeza Pro", "Segoe UI", sans-serif`,
+    },
+  },
+  ja: {
+    name: "Japanese",
+    nativeName: "日本語",
+    direction: "ltr",
+    wordsPerSecond: 3.5,
+    fonts: {
+      display: `"Noto Sans JP", "Hiragino Sans", "Yu Gothic", sans-serif`,
+      body: `"Noto Sans JP", "Hiragino Sans", "Yu Gothic", sans-serif`,
+    },
+  },
+} satisfies Record<string, LanguageInfo>;
+
+export type LanguageCode = keyof typeof LANGUAGES;
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as [LanguageCode, ...LanguageCode[]];
+
+/** Maps "de-DE", "DE" or "German" onto a supported code; falls back to English. */
+export function normalizeLanguage(value: string | null | undefined): LanguageCode {
+  const raw = (value ?? "").trim().toLowerCase();
+  const base = raw.split(/[-_]/)[0];
+  if (base in LANGUAGES) return base as LanguageCode;
+
+  const byName = LANGUAGE_CODES.find(
+    (code) => LANGUAGES[code].name.toLowerCase() === raw || LANGUAGES[code].nativeName.toLowerCase() === raw
+  );
+  return byName ?? "en";
+}
+
+export function getLanguage(value: string | null | undefined): LanguageInfo & { code: LanguageCode } {
+  const code = normalizeLanguage(value);
+  return { code, ...LANGUAGES[code] };
+}
+
+/**
+ * Splits narration into sentences with the language's rules: Intl.Segmenter
+ * handles 。！？ and other non-Latin punctuation, and segments that end in a
+ * known abbreviation ("z. B.") are glued back onto the next one.
+ */
+export function splitSentences(text: string, language: string | null | undefined): string[] {
+  const { code, abbreviations = [] } = getLanguage(language);
+  const segmenter = new Intl.Segmenter(code, { granularity: "sentence" });
+  const pieces = Array.from(segmenter.segment(text), (s) => s.segment);
+
+  // "z. B." is split after "z." as well, so every partial form counts too
+  const stops = abbreviations.flatMap((abbr) =>
+    abbr.split(" ").map((_, i, parts) => parts.slice(0, i + 1).join(" ").toLowerCase())
+  );
+
+  const sentences: string[] = [];
+  let pending = "";
+  for (const piece of pieces) {
+    pending += piece;
+    const trimmed = pending.trimEnd().toLowerCase();
+    const endsInAbbreviation = stops.some((stop) => trimmed === stop || trimmed.endsWith(` ${stop}`));
+    if (!endsInAbbreviation) {
+      sentences.push(pending.trim());
+      pending = "";
+    }
+  }
+  if (pending.trim()) sentences.push(pending.trim());
+
+  return sentences.filter((s) => s.length > 0);
+}
+
+/** The words of a text; Intl.Segmenter also finds word boundaries in Japanese. */
+export function splitWords(text: string, language: string | null | undefined): string[] {
+  const segmenter = new Intl.Segmenter(normalizeLanguage(language), { granularity: "word" });
+  return Array.from(segmenter.segment(text))
+    .filter((segment) => segment.isWordLike)
+    .map((segment) => segment.segment);
+}
+
+/** Number of spoken words. */
+export function countWords(text: string, language: string | null | undefined): number {
+  return splitWords(text, language).length;
+}
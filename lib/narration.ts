@@ -0,0 +1,27 @@
+// Shared by the page and server-side batch jobs so every locale is narrated
+// from the same fields in the same order.
+import { moduleSceneId } from "./visualPlan";
+
+type NarratedStoryboard = {
+  intro: string;
+  overview: string[];
+  modules: { points: string[] }[];
+  summary: string;
+};
+
+export type NarrationLine = { sceneId: string; text: string };
+
+/** The spoken lines of a storyboard with the scene each belongs to, in scene order. */
+export function narrationScript(storyboard: NarratedStoryboard): NarrationLine[] {
+  return [
+    { sceneId: "intro", text: storyboard.intro },
+    ...storyboard.overview.map((text) => ({ sceneId: "overview", text })),
+    ...storyboard.modules.flatMap((m, i) => m.points.map((text) => ({ sceneId: moduleSceneId(i), text }))),
+    { sceneId: "summary", text: storyboard.summary },
+  ];
+}
+
+/** The spoken lines of a storyboard, in scene order. */
+export function narrationLines(storyboard: NarratedStoryboard): string[] {
+  return narrationScript(storyboard).map((line) => line.text);
+}
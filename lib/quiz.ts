@@ -0,0 +1,124 @@
+// Quiz model shared by the server (validation), the page and the composition.
+
+export const QUIZ_TYPES = ["multiple_choice", "multi_select", "true_false", "ordering"] as const;
+export type QuizType = (typeof QUIZ_TYPES)[number];
+
+export type QuizOption = {
+  text: string;
+  feedback: string; // shown when the learner picks this option
+};
+
+export type QuizQuestion = {
+  type: QuizType;
+  q: string;
+  moduleIndex: number | null; // module the question tests; null for pre-typed quizzes
+  options: QuizOption[];
+  // Indices of the correct options. For ordering: every index, in the right sequence.
+  correct: number[];
+  explanation: string;
+};
+
+/** Structural rules per question type, as human-readable problems. */
+export function quizStructureIssues(question: Pick<QuizQuestion, "type" | "options" | "correct">): string[] {
+  const { type, options, correct } = question;
+  const issues: string[] = [];
+
+  if (correct.some((i) => i < 0 || i >= options.length)) {
+    issues.push(`correct indices must be between 0 and ${options.length - 1}`);
+  }
+  if (new Set(correct).size !== correct.length) {
+    issues.push("correct indices must not repeat");
+  }
+
+  switch (type) {
+    case "multiple_choice":
+      if (correct.length !== 1) issues.push("multiple_choice needs exactly one correct option");
+      break;
+    case "multi_select":
+      if (correct.length < 1) issues.push("multi_select needs at least one correct option");
+      break;
+    case "true_false":
+      if (options.length !== 2) issues.push("true_false needs exactly two options (true, false)");
+      if (correct.length !== 1) issues.push("true_false needs exactly one correct option");
+      break;
+    case "ordering":
+      if (correct.length !== options.length) issues.push("ordering must list every option index in the right sequence");
+      break;
+  }
+  return issues;
+}
+
+/** Short answer key for review screens: "B", "A, C", "C → A → B". */
+export function describeCorrect(question: Pick<QuizQuestion, "type" | "options" | "correct">) {
+  const texts = question.correct.map((i) => question.options[i]?.text ?? "?");
+  return texts.join(question.type === "ordering" ? " → " : ", ");
+}
+
+// Letters/digits runs of 4+ characters; short words are mostly function words
+function contentWords(text: string) {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []);
+}
+
+type QuizStoryboard = {
+  modules: { title: string; points: string[] }[];
+  quiz: QuizQuestion[];
+};
+
+/**
+ * Flags questions whose correct answer shares no content words with the
+ * module they claim to test. A cheap guard against quiz answers the video
+ * never teaches; it can't prove an answer right, only spot unsupported ones.
+ */
+export function findUnsupportedQuestions(storyboard: QuizStoryboard): { index: number; message: string }[] {
+  return storyboard.quiz.flatMap((question, index) => {
+    if (question.moduleIndex === null) return [];
+    const tested = storyboard.modules[question.moduleIndex];
+    if (!tested) {
+      return [{ index, message: `refers to module ${question.moduleIndex + 1}, which doesn't exist` }];
+    }
+
+    // True/false and ordering answers are only meaningful with the question
+    const answer =
+      question.type === "true_false" || question.type === "ordering"
+        ? [question.q, ...question.options.map((o) => o.text)].join(" ")
+        : question.correct.map((i) => question.options[i]?.text ?? "").join(" ");
+    const taught = contentWords([tested.title, ...tested.points].join(" "));
+    const supported = [...contentWords(answer)].some((word) => taught.has(word));
+
+    return supported
+      ? []
+      : [{ index, message: `correct answer isn't covered by module ${question.moduleIndex + 1} ("${tested.title}")` }];
+  });
+}
+
+/**
+ * Upgrades the original { q, a: [3 answers], correct: index } shape so
+ * projects saved before typed questions still load.
+ */
+export function migrateLegacyQuestion(value: unknown): unknown {
+  if (!value || typeof value !== "object" || !("a" in value) || "options" in value) return value;
+  const legacy = value as { q?: unknown; a?: unknown; correct?: unknown };
+  return {
+    type: "multiple_choice",
+    q: legacy.q,
+    moduleIndex: null,
+    options: Array.isArray(legacy.a) ? legacy.a.map((text) => ({ text, feedback: "" })) : legacy.a,
+    correct: typeof legacy.correct === "number" ? [legacy.correct] : legacy.correct,
+    explanation: "",
+  };
+}
+
+/**
+ * What the voice says in a quiz scene: the question (with its options, except
+ * for true/false) before the countdown, then the answer and explanation.
+ */
+export function quizNarration(question: QuizQuestion): { prompt: string; reveal: string } {
+  const withStop = (text: string) => (/[.!?。！？]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`);
+  const options = question.type === "true_false" ? [] : question.options.map((o) => withStop(o.text));
+  return {
+    prompt: [withStop(question.q), ...options].join(" "),
+    reveal: [withStop(describeCorrect(question)), question.explanation && withStop(question.explanation)]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
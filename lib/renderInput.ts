@@ -0,0 +1,108 @@
+// What the composition renders: the storyboard, the narration timing, the
+// media assets and the output options. Shared by the page, /api/render,
+// batch renders and the Remotion bundle, which checks it again in
+// calculateMetadata so bad input fails before the first frame rather than
+// crashing Remotion mid-render.
+import { z } from "zod";
+import { quizQuestionSchema, refineQuizModules, storyboardSchema } from "./storyboard";
+import { sceneIdSchema, visualPlanSchema } from "./visualPlan";
+
+// Public paths ("/narration.mp3"), http(s) URLs and inline data: audio
+const assetUrlSchema = z
+  .string()
+  .refine((url) => /^(https?:\/\/|\/(?!\/)|data:(audio|video)\/)/.test(url), {
+    message: "must be an http(s) URL, a path starting with / or a data: URL",
+  });
+
+// A stored storyboard; it may leave out the quiz, and scenes without a plan
+// get generic visuals (see alignVisualPlan)
+export const renderStoryboardSchema = storyboardSchema
+  .extend({
+    quiz: z.array(quizQuestionSchema),
+    visualPlan: visualPlanSchema.optional(),
+  })
+  .superRefine(refineQuizModules);
+
+export type Storyboard = z.infer<typeof renderStoryboardSchema>;
+export type Module = Storyboard["modules"][number];
+
+// When a word of a segment is spoken, in seconds from the segment's start
+export const wordTimingSchema = z.object({
+  text: z.string(),
+  start: z.number().min(0),
+  end: z.number().min(0),
+});
+
+export type WordTiming = z.infer<typeof wordTimingSchema>;
+
+// One narrated sentence, placed on the timeline in seconds
+export const segmentSchema = z.object({
+  text: z.string(),
+  start: z.number().min(0),
+  duration: z.number().positive(),
+  url: assetUrlSchema,
+  // Scene the sentence narrates; older narration is matched to scenes by order
+  sceneId: sceneIdSchema.optional(),
+  // Which voice and tuning recorded the clip (speakerKey on the server)
+  voice: z.string().optional(),
+  // One entry per word of the text (see spokenTokens); older narration has none
+  words: z.array(wordTimingSchema).optional(),
+});
+
+export type Segment = z.infer<typeof segmentSchema>;
+
+const quizBeatAudioSchema = z.object({ url: assetUrlSchema, duration: z.number().positive() });
+
+// Narration for one quiz scene: the question, then the answer after the countdown
+export const quizAudioSchema = z.object({ prompt: quizBeatAudioSchema, reveal: quizBeatAudioSchema });
+
+export type QuizBeatAudio = z.infer<typeof quizBeatAudioSchema>;
+export type QuizAudio = z.infer<typeof quizAudioSchema>;
+
+// Kept apart from the refinement so routes can extend it with their own fields
+export const renderInputObject = z.object({
+  storyboard: renderStoryboardSchema,
+  // Timing: sentence segments, or one track of audioDuration seconds
+  segments: z.array(segmentSchema).nullish(),
+  audioDuration: z.number().positive().nullish(),
+  // Assets
+  audioUrl: assetUrlSchema.nullish(),
+  // B-roll clip per scene id ("intro", "module-0", …)
+  brollClips: z.record(sceneIdSchema, assetUrlSchema).nullish(),
+  quizAudio: z.array(quizAudioSchema).nullish(),
+});
+
+/** Rules that span fields: audio per quiz question, segments on the timeline. */
+export function refineRenderInput(input: z.infer<typeof renderInputObject>, ctx: z.RefinementCtx) {
+  const { storyboard, quizAudio, segments } = input;
+  if (quizAudio?.length && quizAudio.length !== storyboard.quiz.length) {
+    ctx.addIssue({
+      code: "custom",
+      message: `needs one entry per quiz question (${storyboard.quiz.length}), got ${quizAudio.length}`,
+      path: ["quizAudio"],
+    });
+  }
+  segments?.forEach((segment, i) => {
+    const previous = segments[i - 1];
+    if (previous && segment.start < previous.start) {
+      ctx.addIssue({ code: "custom", message: "segments must be in timeline order", path: ["segments", i, "start"] });
+    }
+  });
+}
+
+export const renderInputSchema = renderInputObject.superRefine(refineRenderInput);
+
+export type RenderInput = z.input<typeof renderInputSchema>;
+
+// Encoder settings; the composition itself is always 1280x720 at 30 fps
+export const renderOutputSchema = z
+  .object({
+    codec: z.enum(["h264", "h265"]).default("h264"),
+    // Constant rate factor: lower is better quality and bigger files
+    crf: z.number().int().min(1).max(51).optional(),
+    // 0.5 renders 640x360 drafts, 1.5 renders 1920x1080
+    scale: z.number().min(0.25).max(2).default(1),
+  })
+  .prefault({});
+
+export type RenderOutput = z.infer<typeof renderOutputSchema>;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { isGrounded, locateQuote, traceablePaths } from "./sourceSpans";
+
+const source = "Section 4.2\n\nEmployees  must report “suspicious” e-mails to the IT‑Security team within 24 hours.";
+
+describe("locateQuote", () => {
+  it("returns the quote's offsets in the original text", () => {
+    const span = locateQuote(source, "report “suspicious” e-mails");
+    expect(span).not.toBeNull();
+    expect(source.slice(span!.start, span!.end)).toBe("report “suspicious” e-mails");
+  });
+
+  it("matches across case, quote styles, dashes and whitespace runs", () => {
+    const span = locateQuote(source, 'employees must report "suspicious" e-mails to the IT-Security team');
+    expect(source.slice(span!.start, span!.end)).toBe(
+      "Employees  must report “suspicious” e-mails to the IT‑Security team"
+    );
+  });
+
+  it("ignores quotation marks and ellipses around the quote", () => {
+    const span = locateQuote(source, '"…within 24 hours."');
+    expect(source.slice(span!.start, span!.end)).toBe("within 24 hours");
+  });
+
+  it("doesn't find paraphrases or quotes too short to mean anything", () => {
+    expect(locateQuote(source, "staff must flag phishing")).toBeNull();
+    expect(locateQuote(source, "IT")).toBeNull();
+  });
+});
+
+describe("traceablePaths", () => {
+  it("lists every field that needs a source, in display order", () => {
+    const storyboard = {
+      overview: ["a", "b"],
+      modules: [{ points: ["c"] }, { points: ["d", "e"] }],
+      summary: "f",
+      quiz: [{}],
+    };
+    expect(traceablePaths(storyboard)).toEqual([
+      "overview[0]",
+      "overview[1]",
+      "modules[0].points[0]",
+      "modules[1].points[0]",
+      "modules[1].points[1]",
+      "summary",
+      "quiz[0]",
+    ]);
+  });
+});
+
+describe("isGrounded", () => {
+  it("needs at least one quote that was found in the source", () => {
+    const found = { text: "x", start: 0, end: 1 };
+    const missing = { text: "y", start: null, end: null };
+    expect(isGrounded({ path: "summary", quotes: [missing, found] })).toBe(true);
+    expect(isGrounded({ path: "summary", quotes: [missing] })).toBe(false);
+    expect(isGrounded(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+// Shared by the server (validating LLM citations) and the page (highlighting).
+
+export type SourceQuote = {
+  text: string;
+  // Character offsets into the source text; null when the quote wasn't found
+  start: number | null;
+  end: number | null;
+};
+
+export type SourceRef = {
+  path: string; // e.g. "overview[0]", "modules[1].points[2]", "summary", "quiz[0]"
+  quotes: SourceQuote[];
+};
+
+type TraceableStoryboard = {
+  overview: string[];
+  modules: { points: string[] }[];
+  summary: string;
+  quiz: unknown[];
+};
+
+/** Every field that must be backed by the policy text, in display order. */
+export function traceablePaths(storyboard: TraceableStoryboard): string[] {
+  return [
+    ...storyboard.overview.map((_, i) => `overview[${i}]`),
+    ...storyboard.modules.flatMap((m, i) => m.points.map((_, j) => `modules[${i}].points[${j}]`)),
+    "summary",
+    ...storyboard.quiz.map((_, i) => `quiz[${i}]`),
+  ];
+}
+
+// Folds case, quote styles, dashes and whitespace runs so that a model's
+// "copied" quote still matches the original text.
+function normalizeChar(ch: string) {
+  if (/[‘’‚′`]/.test(ch)) return "'";
+  if (/[“”„″«»]/.test(ch)) return '"';
+  if (/[‐-―−]/.test(ch)) return "-";
+  return ch.toLowerCase();
+}
+
+function normalizeWithMap(text: string) {
+  let normalized = "";
+  const offsets: number[] = []; // normalized index → original index
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!lastWasSpace) {
+        normalized += " ";
+        offsets.push(i);
+      }
+      lastWasSpace = true;
+      continue;
+    }
+    normalized += normalizeChar(text[i]);
+    offsets.push(i);
+    lastWasSpace = false;
+  }
+  return { normalized, offsets };
+}
+
+/** Finds a quote in the source text and returns its original offsets. */
+export function locateQuote(source: string, quote: string): { start: number; end: number } | null {
+  const needle = normalizeWithMap(quote.replace(/^["'\s.…]+|["'\s.…]+$/g, "")).normalized.trim();
+  if (needle.length < 4) return null;
+
+  const { normalized, offsets } = normalizeWithMap(source);
+  const at = normalized.indexOf(needle);
+  if (at === -1) return null;
+
+  return { start: offsets[at], end: offsets[at + needle.length - 1] + 1 };
+}
+
+export function isGrounded(ref: SourceRef | undefined) {
+  return !!ref?.quotes.some((q) => q.start !== null);
+}
@@ -0,0 +1,165 @@
+// The storyboard's shape: what generation asks the model for (with the
+// caller's limits) and what projects, versions, storyboard files and the
+// render input store. Server-free, so the render input (and with it the
+// Remotion bundle) can build on it.
+import { z } from "zod";
+import { QUIZ_TYPES, migrateLegacyQuestion, quizStructureIssues, type QuizType } from "./quiz";
+import { migrateModuleConcepts, visualPlanSchema } from "./visualPlan";
+
+const sourceRefSchema = z.object({
+  path: z.string(),
+  quotes: z.array(
+    z.object({
+      text: z.string(),
+      start: z.number().int().nullable(),
+      end: z.number().int().nullable(),
+    })
+  ),
+});
+
+// B-roll is requested for at most this many scenes per video (see video.ts)
+export const MAX_SCENES = 24;
+// Modules that fit next to the intro, overview and summary scenes
+export const MAX_MODULES = MAX_SCENES - 3;
+
+function countRangeSchema(maxCount?: number) {
+  const count = z.number().int().min(1);
+  return z
+    .object({
+      min: count,
+      max: maxCount === undefined ? count : count.max(maxCount),
+    })
+    .refine((range) => range.min <= range.max, {
+      message: "min must not exceed max",
+    });
+}
+
+// How many items each list of the storyboard may contain. Short memos need
+// fewer modules than a full handbook, so the caller picks the bounds.
+export const storyboardLimitsSchema = z.object({
+  overview: countRangeSchema().default({ min: 3, max: 3 }),
+  modules: countRangeSchema(MAX_MODULES).default({ min: 3, max: 3 }),
+  points: countRangeSchema().default({ min: 3, max: 3 }),
+  quiz: countRangeSchema().default({ min: 3, max: 3 }),
+  // Answer options per question; true/false questions always have two
+  options: countRangeSchema().default({ min: 2, max: 4 }),
+});
+
+export type StoryboardLimits = z.infer<typeof storyboardLimitsSchema>;
+
+export const DEFAULT_STORYBOARD_LIMITS: StoryboardLimits = storyboardLimitsSchema.parse({});
+
+export function describeRange(range: { min: number; max: number }, noun: string) {
+  return range.min === range.max
+    ? `exactly ${range.min} ${noun}`
+    : `between ${range.min} and ${range.max} ${noun}`;
+}
+
+// Applies a count range to an array schema; without a range any non-empty list passes.
+function withCount<T extends z.ZodTypeAny>(schema: z.ZodArray<T>, range?: { min: number; max: number }) {
+  return range ? schema.min(range.min).max(range.max) : schema.min(1);
+}
+
+const quizOptionSchema = z.object({
+  text: z.string(),
+  feedback: z.string(),
+});
+
+type QuestionOptions = {
+  optionRange?: { min: number; max: number };
+  // Generation narrows these to what the prompt asks for; stored storyboards allow all
+  quizTypes?: QuizType[];
+  moduleCount?: number;
+};
+
+export function buildQuizQuestionSchema({ optionRange, quizTypes = [...QUIZ_TYPES], moduleCount }: QuestionOptions = {}) {
+  // True/false questions always have two options, whatever the range says
+  const optionCount = optionRange
+    ? { min: quizTypes.includes("true_false") ? 2 : optionRange.min, max: Math.max(optionRange.max, 2) }
+    : { min: 2, max: 8 };
+  const moduleIndex = z.number().int().min(0);
+  return z.preprocess(
+    migrateLegacyQuestion,
+    z
+      .object({
+        type: z.enum(quizTypes as [QuizType, ...QuizType[]]),
+        q: z.string(),
+        moduleIndex: (moduleCount === undefined ? moduleIndex : moduleIndex.max(moduleCount - 1)).nullable(),
+        options: z.array(quizOptionSchema).min(optionCount.min).max(optionCount.max),
+        correct: z.array(z.number().int().min(0)).min(1),
+        explanation: z.string(),
+      })
+      .superRefine((question, ctx) => {
+        for (const message of quizStructureIssues(question)) {
+          ctx.addIssue({ code: "custom", message, path: ["correct"] });
+        }
+        const count = question.options.length;
+        if (optionRange && question.type !== "true_false" && (count < optionRange.min || count > optionRange.max)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `${question.type} needs ${describeRange(optionRange, "options")}`,
+            path: ["options"],
+          });
+        }
+      })
+  );
+}
+
+/**
+ * Rejects questions that point at a module the storyboard doesn't have.
+ * Kept out of the object schema so it can still be extended.
+ */
+export function refineQuizModules(
+  storyboard: { modules: unknown[]; quiz: { moduleIndex: number | null }[] },
+  ctx: z.RefinementCtx
+) {
+  storyboard.quiz.forEach((question, i) => {
+    if (question.moduleIndex !== null && question.moduleIndex >= storyboard.modules.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: `moduleIndex must be below ${storyboard.modules.length}`,
+        path: ["quiz", i, "moduleIndex"],
+      });
+    }
+  });
+}
+
+export function buildModuleSchema(pointRange?: { min: number; max: number }) {
+  return z.object({
+    title: z.string(),
+    points: withCount(z.array(z.string()), pointRange),
+  });
+}
+
+export function buildStoryboardSchema(limits?: StoryboardLimits, quizTypes?: QuizType[]) {
+  return z.object({
+    title: z.string(),
+    language: z.string(),
+    intro: z.string(),
+    overview: withCount(z.array(z.string()), limits?.overview),
+    modules: withCount(z.array(buildModuleSchema(limits?.points)), limits?.modules),
+    summary: z.string(),
+    quiz: withCount(
+      z.array(buildQuizQuestionSchema({ optionRange: limits?.options, quizTypes, moduleCount: limits?.modules.max })),
+      limits?.quiz
+    ),
+    sources: z.array(sourceRefSchema).optional(),
+  });
+}
+
+// A stored storyboard: any counts, all question types
+export const storyboardSchema = buildStoryboardSchema();
+
+// One stored quiz question, e.g. for storyboards whose quiz may be empty
+export const quizQuestionSchema = buildQuizQuestionSchema();
+
+export type Storyboard = z.infer<typeof storyboardSchema>;
+
+// Extended storyboard with the per-scene visual plan for B-roll and the
+// composition; older storyboards with moduleConcepts are migrated on read
+export const storyboardWithConceptsSchema = z.preprocess(
+  migrateModuleConcepts,
+  storyboardSchema.extend({ visualPlan: visualPlanSchema })
+);
+
+export type StoryboardWithConcepts = z.infer<typeof storyboardWithConceptsSchema>;
@@ -0,0 +1,21 @@
+// Zod issues as field-level errors for API responses and import reports.
+import type { z } from "zod";
+
+export type FieldIssue = {
+  path: string; // same addressing as sources and the glossary: "modules[1].points[0]"
+  message: string;
+};
+
+export function formatIssuePath(path: PropertyKey[]) {
+  return (
+    path
+      .map((key, i) => (typeof key === "number" ? `[${key}]` : `${i ? "." : ""}${String(key)}`))
+      .join("") || "(root)"
+  );
+}
+
+export const fieldIssues = (error: z.ZodError): FieldIssue[] =>
+  error.issues.map((issue) => ({ path: formatIssuePath(issue.path), message: issue.message }));
+
+/** One line per issue, for error messages and logs. */
+export const describeIssues = (issues: FieldIssue[]) => issues.map((i) => `${i.path}: ${i.message}`).join("\n");
@@ -0,0 +1,98 @@
+// How each scene looks: the B-roll prompt and framing, and a few icons for
+// the scene's card. Keyed by scene id so a storyboard that gains or loses
+// modules keeps every other scene's visuals. Shared by generation, the
+// video router, the page and the composition.
+import { z } from "zod";
+
+export const SHOT_TYPES = ["wide", "medium", "close_up", "overhead", "detail"] as const;
+export type ShotType = (typeof SHOT_TYPES)[number];
+
+export const CAMERA_MOTIONS = ["static", "push_in", "pull_out", "pan_left", "pan_right", "tilt_up"] as const;
+export type CameraMotion = (typeof CAMERA_MOTIONS)[number];
+
+// Icons the composition can draw (remotion/SceneIcons.tsx)
+export const SCENE_ICONS = [
+  "shield",
+  "lock",
+  "key",
+  "user",
+  "users",
+  "document",
+  "mail",
+  "alert",
+  "check",
+  "clock",
+  "eye",
+  "globe",
+  "server",
+  "phone",
+  "scale",
+  "lightbulb",
+] as const;
+export type SceneIcon = (typeof SCENE_ICONS)[number];
+
+// "intro", "overview", "module-0" … "module-n", "summary", as in GraphycsComposition
+export const sceneIdSchema = z.string().regex(/^(intro|overview|summary|module-\d+)$/, "unknown scene id");
+
+export const moduleSceneId = (index: number) => `module-${index}`;
+
+/** Every scene of the storyboard's scene flow, in order. */
+export function storyboardSceneIds(storyboard: { modules: unknown[] }): string[] {
+  return ["intro", "overview", ...storyboard.modules.map((_, i) => moduleSceneId(i)), "summary"];
+}
+
+export const sceneVisualSchema = z.object({
+  // Concrete objects only; Runway renders abstract ideas badly
+  brollPrompt: z.string().min(1).max(200),
+  shotType: z.enum(SHOT_TYPES),
+  cameraMotion: z.enum(CAMERA_MOTIONS),
+  icons: z.array(z.enum(SCENE_ICONS)).max(3),
+});
+
+export type SceneVisual = z.infer<typeof sceneVisualSchema>;
+
+export const visualPlanSchema = z.record(sceneIdSchema, sceneVisualSchema);
+
+export type VisualPlan = z.infer<typeof visualPlanSchema>;
+
+// Generic office shots that Runway renders reliably, for scenes without a plan
+const FALLBACK_VISUALS: SceneVisual[] = [
+  { brollPrompt: "modern office with data screens", shotType: "wide", cameraMotion: "push_in", icons: ["shield"] },
+  { brollPrompt: "desk with documents and laptop", shotType: "overhead", cameraMotion: "pan_right", icons: ["document"] },
+  { brollPrompt: "laptop screen with simple interface", shotType: "close_up", cameraMotion: "static", icons: ["lock"] },
+  { brollPrompt: "meeting room with laptops", shotType: "medium", cameraMotion: "pan_left", icons: ["users"] },
+  { brollPrompt: "organized desk with business materials", shotType: "detail", cameraMotion: "pull_out", icons: ["check"] },
+];
+
+export const fallbackSceneVisual = (index: number): SceneVisual => FALLBACK_VISUALS[index % FALLBACK_VISUALS.length];
+
+/**
+ * The plan for exactly the storyboard's scenes: planned scenes keep their
+ * visuals, new scenes get a generic one, and scenes that no longer exist
+ * are dropped.
+ */
+export function alignVisualPlan(plan: VisualPlan | null | undefined, storyboard: { modules: unknown[] }): VisualPlan {
+  return Object.fromEntries(
+    storyboardSceneIds(storyboard).map((id, index) => [id, plan?.[id] ?? fallbackSceneVisual(index)])
+  );
+}
+
+/**
+ * Storyboards from before the visual plan had one B-roll concept string per
+ * module ("moduleConcepts"); those become the modules' prompts.
+ */
+export function migrateModuleConcepts(value: unknown): unknown {
+  if (!value || typeof value !== "object" || "visualPlan" in value || !("moduleConcepts" in value)) return value;
+  const { moduleConcepts, ...storyboard } = value as { moduleConcepts: unknown; modules?: unknown };
+  if (!Array.isArray(storyboard.modules)) return value;
+  const plan = alignVisualPlan(null, { modules: storyboard.modules });
+  if (Array.isArray(moduleConcepts)) {
+    moduleConcepts.forEach((concept, i) => {
+      const id = moduleSceneId(i);
+      if (typeof concept === "string" && concept.trim() && plan[id]) {
+        plan[id] = { ...plan[id], brollPrompt: concept.trim().slice(0, 200) };
+      }
+    });
+  }
+  return { ...storyboard, visualPlan: plan };
+}
@@ -0,0 +1,72 @@
+// A project's cast of voices: which speech engine and voice each one uses,
+// how it is tuned, and which scene it narrates (e.g. a narrator for most of
+// the video and a "manager" voice for one module). Shared by the page, the
+// audio routers and project storage.
+import { z } from "zod";
+import { LANGUAGE_CODES, normalizeLanguage } from "./languages";
+import { sceneIdSchema } from "./visualPlan";
+
+export const TTS_PROVIDERS = ["eleven", "openai", "local"] as const;
+export type TtsProviderName = (typeof TTS_PROVIDERS)[number];
+
+export const voiceProfileSchema = z.object({
+  // Referenced by defaultVoice and sceneVoices, e.g. "narrator"
+  id: z.string().regex(/^[a-z0-9-]{1,40}$/, "lowercase letters, digits and dashes"),
+  name: z.string().min(1).max(60),
+  provider: z.enum(TTS_PROVIDERS),
+  // Empty: the engine's configured voice for the narration language
+  voiceId: z.string().max(200),
+  // Only narrates this language; other languages fall back to the default voice
+  language: z.enum(LANGUAGE_CODES).optional(),
+  // Delivery, e.g. "calm and friendly"; sent to engines that take instructions
+  style: z.string().max(200).optional(),
+  // The range all engines accept
+  speed: z.number().min(0.7).max(1.2).optional(),
+  // ElevenLabs only
+  stability: z.number().min(0).max(1).optional(),
+  similarityBoost: z.number().min(0).max(1).optional(),
+});
+
+export type VoiceProfile = z.infer<typeof voiceProfileSchema>;
+
+export const voiceLibrarySchema = z
+  .object({
+    voices: z.array(voiceProfileSchema).max(20),
+    // Narrates unassigned scenes and the quiz; null: the server's default voice
+    defaultVoice: z.string().nullable(),
+    sceneVoices: z.record(sceneIdSchema, z.string()),
+  })
+  .superRefine((library, ctx) => {
+    const ids = new Set<string>();
+    library.voices.forEach((voice, i) => {
+      if (ids.has(voice.id)) ctx.addIssue({ code: "custom", message: `duplicate voice id "${voice.id}"`, path: ["voices", i, "id"] });
+      ids.add(voice.id);
+    });
+    if (library.defaultVoice !== null && !ids.has(library.defaultVoice)) {
+      ctx.addIssue({ code: "custom", message: `unknown voice "${library.defaultVoice}"`, path: ["defaultVoice"] });
+    }
+    for (const [sceneId, voiceId] of Object.entries(library.sceneVoices)) {
+      if (!ids.has(voiceId)) ctx.addIssue({ code: "custom", message: `unknown voice "${voiceId}"`, path: ["sceneVoices", sceneId] });
+    }
+  });
+
+export type VoiceLibrary = z.infer<typeof voiceLibrarySchema>;
+
+export const EMPTY_VOICE_LIBRARY: VoiceLibrary = { voices: [], defaultVoice: null, sceneVoices: {} };
+
+/**
+ * The voice that narrates a scene in a language: the scene's own voice, else
+ * the library's default, skipping voices made for another language. Null
+ * means the server's default voice.
+ */
+export function voiceForScene(
+  library: VoiceLibrary | null | undefined,
+  sceneId: string | null,
+  language: string
+): VoiceProfile | null {
+  if (!library) return null;
+  const speaks = (voice: VoiceProfile | undefined) =>
+    voice && (!voice.language || voice.language === normalizeLanguage(language)) ? voice : null;
+  const byId = (id: string | null | undefined) => library.voices.find((voice) => voice.id === id);
+  return (sceneId && speaks(byId(library.sceneVoices[sceneId]))) || speaks(byId(library.defaultVoice));
+}
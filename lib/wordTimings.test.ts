@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  captionCues,
+  currentWordIndex,
+  estimateWordTimings,
+  spokenTokens,
+  toWebVtt,
+  wordTimingsFromCharacters,
+} from "./wordTimings";
+
+describe("spokenTokens", () => {
+  it("keeps punctuation and spaces with the word before them", () => {
+    const tokens = spokenTokens("Stop, think. Then click.", "en");
+    expect(tokens.map((t) => t.text)).toEqual(["Stop,", "think.", "Then", "click."]);
+    expect(tokens.map((t) => t.raw).join("")).toBe("Stop, think. Then click.");
+    expect(tokens[1]).toMatchObject({ from: 6, to: 11 });
+  });
+
+  it("finds words in scripts without spaces", () => {
+    expect(spokenTokens("パスワードを守る", "ja").length).toBeGreaterThan(1);
+  });
+});
+
+describe("wordTimingsFromCharacters", () => {
+  it("times each word from its first and last character", () => {
+    const text = "Lock it";
+    const starts = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6];
+    const ends = starts.map((s) => s + 0.1);
+    expect(wordTimingsFromCharacters(text, "en", starts, ends)).toEqual([
+      { text: "Lock", start: 0, end: 0.4 },
+      { text: "it", start: 0.5, end: 0.7 },
+    ]);
+  });
+
+  it("counts characters as code points, as ElevenLabs does", () => {
+    const text = "Lock 🔒 it";
+    const starts = Array.from(text).map((_, i) => i / 10);
+    const ends = starts.map((s) => s + 0.1);
+    expect(wordTimingsFromCharacters(text, "en", starts, ends)).toEqual([
+      { text: "Lock 🔒", start: 0, end: expect.closeTo(0.4, 6) },
+      { text: "it", start: 0.7, end: expect.closeTo(0.9, 6) },
+    ]);
+  });
+
+  it("gives up when the alignment doesn't match the text", () => {
+    expect(wordTimingsFromCharacters("Lock it", "en", [0, 1], [1, 2])).toBeNull();
+  });
+});
+
+describe("estimateWordTimings", () => {
+  it("spreads the duration over the words by length, pausing after punctuation", () => {
+    const words = estimateWordTimings("Stop. Go", "en", 2.2);
+    // 4 + 3 (pause) + 2 weight units over 2.2 seconds
+    expect(words[0]).toEqual({ text: "Stop.", start: 0, end: expect.closeTo(4 / 9 * 2.2, 6) });
+    expect(words[1].start).toBeCloseTo(7 / 9 * 2.2, 6);
+    expect(words[1].end).toBeCloseTo(2.2, 6);
+  });
+});
+
+describe("currentWordIndex", () => {
+  const words = [
+    { text: "a", start: 0.2, end: 0.4 },
+    { text: "b", start: 0.5, end: 0.9 },
+  ];
+
+  it("is -1 before the first word and the last started word afterwards", () => {
+    expect(currentWordIndex(words, 0.1)).toBe(-1);
+    expect(currentWordIndex(words, 0.45)).toBe(0);
+    expect(currentWordIndex(words, 5)).toBe(1);
+  });
+});
+
+describe("captionCues", () => {
+  const text = "One two three four five six seven eight nine.";
+  const words = spokenTokens(text, "en").map((token, i) => ({ text: token.text, start: i, end: i + 0.5 }));
+
+  it("cuts timed segments into short lines timed to their words", () => {
+    const cues = captionCues([{ text, start: 10, duration: 9, url: "/a.mp3", words }], "en");
+    expect(cues).toEqual([
+      { start: 10, end: 16.5, text: "One two three four five six seven" },
+      { start: 17, end: 18.5, text: "eight nine." },
+    ]);
+  });
+
+  it("shows a segment without word timings as one cue", () => {
+    const cues = captionCues([{ text, start: 3, duration: 4, url: "/a.mp3" }], "en");
+    expect(cues).toEqual([{ start: 3, end: 7, text }]);
+  });
+});
+
+describe("toWebVtt", () => {
+  it("writes cues with hour-based timestamps", () => {
+    expect(toWebVtt([{ start: 61.5, end: 3723.25, text: "Hello" }])).toBe(
+      "WEBVTT\n\n00:01:01.500 --> 01:02:03.250\nHello\n"
+    );
+  });
+});
@@ -0,0 +1,139 @@
+// When each word of a narrated sentence is spoken. The server derives it
+// from the TTS engine's character alignment (or estimates it), the
+// composition highlights words with it and captions are cut along it.
+import { normalizeLanguage } from "./languages";
+import type { Segment, WordTiming } from "./renderInput";
+
+export type SpokenToken = {
+  text: string; // the word with its punctuation, as shown
+  raw: string; // text plus the spaces around it; the raw parts join back into the sentence
+  from: number; // character offsets of the word itself
+  to: number;
+};
+
+/**
+ * A sentence cut into words. Punctuation and spaces stick to the word before
+ * them, so "Stop, think." is ["Stop,", "think."]; Intl.Segmenter also finds
+ * the words of scripts without spaces.
+ */
+export function spokenTokens(text: string, language: string | null | undefined): SpokenToken[] {
+  const segmenter = new Intl.Segmenter(normalizeLanguage(language), { granularity: "word" });
+  const tokens: SpokenToken[] = [];
+  let leading = "";
+  for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+    const last = tokens[tokens.length - 1];
+    if (isWordLike) {
+      tokens.push({ text: "", raw: leading + segment, from: index, to: index + segment.length });
+      leading = "";
+    } else if (last) {
+      last.raw += segment;
+    } else {
+      leading += segment;
+    }
+  }
+  for (const token of tokens) token.text = token.raw.trim();
+  return tokens;
+}
+
+// Extra weight of a pause after punctuation, in characters
+const PAUSE_WEIGHT = 3;
+
+/**
+ * Word timings from per-character start and end times (as ElevenLabs
+ * returns them), or null when they don't line up with the text. The times
+ * are per code point, while token offsets count UTF-16 units, so emoji and
+ * other astral characters are mapped across.
+ */
+export function wordTimingsFromCharacters(
+  text: string,
+  language: string | null | undefined,
+  starts: number[],
+  ends: number[]
+): WordTiming[] | null {
+  const characters = Array.from(text);
+  if (starts.length !== characters.length || ends.length !== characters.length) return null;
+  // Code point index of each UTF-16 offset
+  const codePoints: number[] = [];
+  characters.forEach((character, i) => {
+    for (let unit = 0; unit < character.length; unit++) codePoints.push(i);
+  });
+  return spokenTokens(text, language).map((token) => ({
+    text: token.text,
+    start: starts[codePoints[token.from]],
+    end: ends[codePoints[token.to - 1]],
+  }));
+}
+
+/**
+ * Word timings for engines without alignment: the clip's duration spread
+ * over the words by length, with a short pause after punctuation.
+ */
+export function estimateWordTimings(text: string, language: string | null | undefined, duration: number): WordTiming[] {
+  const tokens = spokenTokens(text, language);
+  const weights = tokens.map((token) => ({
+    spoken: token.to - token.from,
+    pause: /[^\p{L}\p{N}]$/u.test(token.text) ? PAUSE_WEIGHT : 0,
+  }));
+  const total = weights.reduce((acc, { spoken, pause }) => acc + spoken + pause, 0) || 1;
+  let time = 0;
+  return tokens.map((token, i) => {
+    const start = time;
+    const end = start + (weights[i].spoken / total) * duration;
+    time = end + (weights[i].pause / total) * duration;
+    return { text: token.text, start, end };
+  });
+}
+
+/** The word being spoken at `seconds` into a segment, or -1 before the first one. */
+export function currentWordIndex(words: WordTiming[], seconds: number) {
+  let current = -1;
+  words.forEach((word, i) => {
+    if (word.start <= seconds) current = i;
+  });
+  return current;
+}
+
+export type CaptionCue = { start: number; end: number; text: string };
+
+// Short enough to read at a glance
+const MAX_CAPTION_WORDS = 7;
+
+/**
+ * Caption cues on the narration timeline: segments with word timings are
+ * cut into lines of up to MAX_CAPTION_WORDS words timed to the words
+ * themselves; others show as one cue for the whole segment.
+ */
+export function captionCues(segments: Segment[], language: string | null | undefined): CaptionCue[] {
+  return segments.flatMap((segment) => {
+    const tokens = spokenTokens(segment.text, language);
+    const { words } = segment;
+    if (!words || words.length !== tokens.length) {
+      return [{ start: segment.start, end: segment.start + segment.duration, text: segment.text }];
+    }
+    const cues: CaptionCue[] = [];
+    for (let i = 0; i < tokens.length; i += MAX_CAPTION_WORDS) {
+      const last = Math.min(i + MAX_CAPTION_WORDS, tokens.length) - 1;
+      cues.push({
+        start: segment.start + words[i].start,
+        end: segment.start + words[last].end,
+        text: tokens
+          .slice(i, last + 1)
+          .map((token) => token.raw)
+          .join("")
+          .trim(),
+      });
+    }
+    return cues;
+  });
+}
+
+const vttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+/** Cues as a WebVTT file. */
+export function toWebVtt(cues: CaptionCue[]) {
+  return ["WEBVTT", ...cues.map((cue) => `${vttTime(cue.start)} --> ${vttTime(cue.end)}\n${cue.text}`)].join("\n\n") + "\n";
+}
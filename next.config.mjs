@@ -5,6 +5,7 @@ const serverExternalPackages = [
   '@remotion/player',
   'remotion',
   'esbuild',
+  'unpdf',
 ];
 
 /** @type {import('next').NextConfig} */
@@ -1,5 +1,5 @@
 import React from "react";
-import { AbsoluteFill, Sequence, Html5Audio, useCurrentFrame, useVideoConfig, interpolate, spring } from "remotion";
+import { AbsoluteFill, Sequence, Html5Audio } from "remotion";
 import { Grade } from "./Grade";
 import { Backdrop } from "./Backdrop";
 import { SceneFrame } from "./SceneFrame";
@@ -7,93 +7,179 @@ import { Timeline } from "./Timeline";
 import { KenBurnsVideo } from "./KenBurnsVideo";
 import { theme } from "./theme";
 import { CinematicLayer } from "./CinematicLayer";
+import { getSceneLabels } from "./labels";
+import { getLanguage } from "../lib/languages";
+import type { QuizAudio, Segment, Storyboard } from "../lib/renderInput";
+import { QuizScene, getQuizBeats, getQuizSceneDurations } from "./QuizScene";
+import { SceneIcons } from "./SceneIcons";
+import { SpokenText } from "./SpokenText";
+import { alignVisualPlan, moduleSceneId } from "../lib/visualPlan";
+import { quizNarration } from "../lib/quiz";
+import { estimateWordTimings } from "../lib/wordTimings";
 
-export type Module = { title: string; points: string[] };
-export type Storyboard = {
-  title: string;
-  language: string;
-  intro: string;
-  overview: string[];
-  modules: Module[];
-  summary: string;
-  quiz: { q: string; a: string[]; correct: number }[];
+export type { Module, QuizAudio, Segment, Storyboard } from "../lib/renderInput";
+export type BrollClip = { brollUrl: string; metadata: unknown };
+
+const HANDLE = 36;
+
+// Scene lengths in frames, in scene order: intro, overview, one per module, summary
+export const getSceneDurations = (storyboard: Pick<Storyboard, "modules">, fps = 30) => [
+  fps * 4,
+  fps * 4,
+  ...storyboard.modules.map(() => fps * 4.5),
+  fps * 5,
+];
+
+// Consecutive scenes overlap by HANDLE frames, except after the last one
+export const getRuntimeDurations = (sceneDurations: number[]) =>
+  sceneDurations.map((duration, index) =>
+    index === sceneDurations.length - 1 ? duration : duration - HANDLE
+  );
+
+export const getStoryboardDurationInFrames = (storyboard: Pick<Storyboard, "modules">, fps = 30) =>
+  getRuntimeDurations(getSceneDurations(storyboard, fps)).reduce((acc, val) => acc + val, 0);
+
+type TimingProps = {
+  storyboard: Pick<Storyboard, "modules" | "quiz">;
+  segments?: Segment[] | null;
+  audioDuration?: number | null;
+  quizAudio?: QuizAudio[] | null;
 };
-export type Segment = { text: string; start: number; duration: number; url: string };
-export type BrollClip = { brollUrl: string; metadata: any };
-
-// Motion helper
-const fadeInUp = (delayFrames = 0, dist = 20) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-  const prog = spring({ frame: frame - delayFrames, fps, config: { damping: 200, mass: 0.8 } });
-  const y = interpolate(prog, [0, 1], [dist, 0]);
-  const o = interpolate(prog, [0, 1], [0, 1]);
-  return { transform: `translateY(${y}px)`, opacity: o } as React.CSSProperties;
+
+// Quiz scenes follow the narration or the scene flow, whichever ends later
+export const getQuizStartFrame = ({ storyboard, segments, audioDuration }: TimingProps, fps = 30) => {
+  if (segments?.length) {
+    const narrationEnd = segments.reduce((acc, seg) => Math.max(acc, seg.start + seg.duration), 0);
+    return Math.ceil(narrationEnd * fps) + fps; // 1 second buffer
+  }
+  return Math.max(getStoryboardDurationInFrames(storyboard, fps), Math.ceil((audioDuration ?? 0) * fps));
+};
+
+/** Total length of the composition, quiz scenes included. */
+export const getCompositionDurationInFrames = (props: TimingProps, fps = 30) =>
+  getQuizStartFrame(props, fps) +
+  getQuizSceneDurations(props.storyboard.quiz, props.quizAudio ?? undefined, fps).reduce((acc, val) => acc + val, 0);
+
+/**
+ * The quiz narration as timeline segments, for captions: each question where
+ * its scene starts, each answer after the countdown. Quiz clips have no
+ * alignment, so their words are estimated.
+ */
+export const getQuizNarrationSegments = (
+  props: TimingProps & { storyboard: Pick<Storyboard, "language"> },
+  fps = 30
+): Segment[] => {
+  const { storyboard, quizAudio } = props;
+  if (!quizAudio?.length) return [];
+  let sceneStart = getQuizStartFrame(props, fps);
+  return storyboard.quiz.flatMap((question, index) => {
+    const audio = quizAudio[index];
+    const beats = getQuizBeats(question, audio, fps);
+    const { prompt, reveal } = quizNarration(question);
+    const clips = [
+      { text: prompt, frame: sceneStart, ...audio.prompt },
+      { text: reveal, frame: sceneStart + beats.prompt + beats.countdown, ...audio.reveal },
+    ];
+    sceneStart += beats.prompt + beats.countdown + beats.reveal;
+    return clips.map(({ text, frame, url, duration }) => ({
+      text,
+      start: frame / fps,
+      duration,
+      url,
+      words: estimateWordTimings(text, storyboard.language, duration),
+    }));
+  });
 };
 
 export const GraphycsComposition: React.FC<{
   storyboard: Storyboard;
   audioUrl?: string | null;
-  brollUrls?: string[]; // Simplified: just an array of URLs
-  segments?: Segment[];
-}> = ({ storyboard, audioUrl, brollUrls, segments }) => {
+  brollClips?: Record<string, string> | null; // B-roll per scene id, from video.runwayBatch
+  segments?: Segment[] | null;
+  quizAudio?: QuizAudio[] | null; // one entry per quiz question, from audioSegments.generateQuiz
+  audioDuration?: number | null; // length of audioUrl, so quiz scenes start after it
+}> = ({ storyboard, audioUrl, brollClips, segments, quizAudio, audioDuration }) => {
   const fps = 30;
-  const HANDLE = 36;
 
-  const introBroll = brollUrls?.[0];
-  const moduleClip = (index: number) => brollUrls ? brollUrls[index + 1] : undefined;
-  const summaryBroll = brollUrls ? brollUrls[brollUrls.length - 1] : undefined;
+  const labels = getSceneLabels(storyboard.language);
+  // Every scene has a visual, planned or generic, whatever the module count
+  const visuals = alignVisualPlan(storyboard.visualPlan, storyboard);
 
   const scenePlan = [
     {
       id: "intro",
-      tag: "Executive Briefing",
-      kicker: "Why it matters",
+      tag: labels.introTag,
+      kicker: labels.introKicker,
       title: storyboard.title,
       body: storyboard.intro,
       bullets: storyboard.overview,
-      broll: introBroll,
     },
     {
       id: "overview",
-      tag: "Module Overview",
-      kicker: "Learning path",
-      title: "What we cover next",
+      tag: labels.overviewTag,
+      kicker: labels.overviewKicker,
+      title: labels.overviewTitle,
       bullets: storyboard.overview,
-      body: "High-level modules to align your team.",
-      broll: moduleClip(0) ?? introBroll,
+      body: labels.overviewBody,
     },
     ...storyboard.modules.map((module, index) => ({
-      id: `module-${index}`,
-      tag: `Module ${index + 1}`,
-      kicker: "Key decisions",
+      id: moduleSceneId(index),
+      tag: labels.moduleTag(index + 1),
+      kicker: labels.moduleKicker,
       title: module.title,
       bullets: module.points,
       body: undefined,
-      broll: moduleClip(index),
     })),
     {
       id: "summary",
-      tag: "Summary",
-      kicker: "Takeaways",
-      title: "Commitment to action",
+      tag: labels.summaryTag,
+      kicker: labels.summaryKicker,
+      title: labels.summaryTitle,
       body: storyboard.summary,
-      bullets: storyboard.quiz.map((q) => q.q),
-      broll: summaryBroll,
+      bullets: storyboard.modules.map((m) => m.title),
     },
+  ].map((scene) => ({ ...scene, broll: brollClips?.[scene.id], visual: visuals[scene.id] }));
+
+  // Non-Latin scripts get their own font stack through theme's CSS variables
+  const language = getLanguage(storyboard.language);
+  const rootStyle = {
+    direction: language.direction,
+    ...(language.fonts && {
+      "--font-display": language.fonts.display,
+      "--font-body": language.fonts.body,
+    }),
+  } as React.CSSProperties;
+
+  const sceneDurations = getSceneDurations(storyboard, fps);
+  const runtimeDurations = getRuntimeDurations(sceneDurations);
+
+  const quizStart = getQuizStartFrame({ storyboard, segments, audioDuration }, fps);
+  const quizDurations = getQuizSceneDurations(storyboard.quiz, quizAudio ?? undefined, fps);
+  // The last scene's marker stretches to where the quiz begins
+  const flowEnd = runtimeDurations.reduce((acc, val) => acc + val, 0);
+  const timelineDurations = [
+    ...runtimeDurations.slice(0, -1),
+    runtimeDurations[runtimeDurations.length - 1] + quizStart - flowEnd,
+    ...quizDurations,
   ];
 
-  const sceneDurations = scenePlan.map((scene) => {
-    if (scene.id === "intro") return fps * 4;
-    if (scene.id.startsWith("module")) return fps * 4.5;
-    if (scene.id === "summary") return fps * 5;
-    return fps * 4;
+  const quizScenes = storyboard.quiz.map((question, index) => {
+    const from = quizStart + quizDurations.slice(0, index).reduce((acc, val) => acc + val, 0);
+    return (
+      <Sequence key={`quiz-${index}`} from={from} durationInFrames={quizDurations[index]}>
+        <CinematicLayer durationInFrames={quizDurations[index]} enterFrames={15} exitFrames={15}>
+          <QuizScene
+            question={question}
+            index={index}
+            total={storyboard.quiz.length}
+            labels={labels}
+            audio={quizAudio?.[index]}
+          />
+        </CinematicLayer>
+      </Sequence>
+    );
   });
 
-  const runtimeDurations = sceneDurations.map((duration, index) =>
-    index === sceneDurations.length - 1 ? duration : duration - HANDLE
-  );
-
   const renderInsight = (sceneIndex: number) => {
     const scene = scenePlan[sceneIndex];
     const statValue =
@@ -101,14 +187,14 @@ export const GraphycsComposition: React.FC<{
         ? "90%"
         : scene.id === "summary"
         ? "72h"
-        : `${scene.bullets?.length ?? 3} pts`;
+        : labels.points(scene.bullets?.length ?? 3);
 
     const statLabel =
       sceneIndex === 0
-        ? "Engagement lift"
+        ? labels.engagementLift
         : scene.id === "summary"
-        ? "Incident window"
-        : "Action items";
+        ? labels.incidentWindow
+        : labels.actionItems;
 
     return (
       <div
@@ -127,8 +213,13 @@ export const GraphycsComposition: React.FC<{
           fontFamily: theme.fonts.body,
         }}
       >
-        {scene.broll && <KenBurnsVideo src={scene.broll} opacity={0.45} />}
+        {scene.broll && <KenBurnsVideo src={scene.broll} motion={scene.visual.cameraMotion} opacity={0.45} />}
         <div style={{ position: "relative", zIndex: 2 }}>
+          {scene.visual.icons.length > 0 && (
+            <div style={{ marginBottom: 16 }}>
+              <SceneIcons icons={scene.visual.icons} />
+            </div>
+          )}
           <p style={{ opacity: 0.8, fontSize: 16, letterSpacing: 1 }}>{statLabel}</p>
           <h3 style={{ fontSize: 58, marginTop: 8, fontFamily: theme.fonts.display }}>{statValue}</h3>
         </div>
@@ -153,10 +244,11 @@ export const GraphycsComposition: React.FC<{
 
   if (segments?.length) {
     return (
-      <AbsoluteFill>
+      <AbsoluteFill lang={language.code} style={rootStyle}>
         <Backdrop />
         {segments.map((segment, idx) => {
-          const sceneIndex = Math.min(idx, scenePlan.length - 1);
+          const byScene = scenePlan.findIndex((scene) => scene.id === segment.sceneId);
+          const sceneIndex = byScene >= 0 ? byScene : Math.min(idx, scenePlan.length - 1);
           const descriptor = scenePlan[sceneIndex];
           return (
             <Sequence key={idx} from={Math.round(segment.start * fps)} durationInFrames={Math.round(segment.duration * fps)}>
@@ -166,13 +258,14 @@ export const GraphycsComposition: React.FC<{
                   tag={descriptor.tag}
                   kicker={descriptor.kicker}
                   title={descriptor.title}
-                  bullets={[segment.text]}
+                  bullets={[<SpokenText key="spoken" text={segment.text} words={segment.words} language={language.code} />]}
                   right={renderInsight(sceneIndex)}
                 />
               </CinematicLayer>
             </Sequence>
           );
         })}
+        {quizScenes}
         <Grade duotoneTint="#10b981" />
       </AbsoluteFill>
     );
@@ -185,7 +278,7 @@ export const GraphycsComposition: React.FC<{
   }, 0);
 
   return (
-    <AbsoluteFill>
+    <AbsoluteFill lang={language.code} style={rootStyle}>
       <Backdrop />
       {audioUrl ? <Html5Audio src={audioUrl} /> : null}
       {scenePlan.map((scene, index) => (
@@ -202,7 +295,8 @@ export const GraphycsComposition: React.FC<{
           </CinematicLayer>
         </Sequence>
       ))}
-      <Timeline sceneDurations={runtimeDurations} />
+      {quizScenes}
+      <Timeline sceneDurations={timelineDurations} />
       <Grade duotoneTint="#10b981" />
     </AbsoluteFill>
   );
@@ -1,23 +1,45 @@
 import React from "react";
-import { Video } from "remotion";
+import { Video, interpolate, useCurrentFrame } from "remotion";
+import type { CameraMotion } from "../lib/visualPlan";
 
 type KenBurnsVideoProps = {
   src: string;
   zoom?: number;
   panX?: number;
   panY?: number;
+  // Movement from the scene's visual plan, on top of the static framing
+  motion?: CameraMotion;
   opacity?: number;
   blendMode?: React.CSSProperties["mixBlendMode"];
 };
 
+// Frames a move takes; a scene shows for about this long
+const MOTION_FRAMES = 150;
+
+// Zoom factor and pan offsets (px) at the start and end of each move
+const MOTIONS: Record<CameraMotion, { zoom: [number, number]; x: [number, number]; y: [number, number] }> = {
+  static: { zoom: [1, 1], x: [0, 0], y: [0, 0] },
+  push_in: { zoom: [0.96, 1.08], x: [0, 0], y: [0, 0] },
+  pull_out: { zoom: [1.08, 0.96], x: [0, 0], y: [0, 0] },
+  pan_left: { zoom: [1, 1], x: [30, -30], y: [0, 0] },
+  pan_right: { zoom: [1, 1], x: [-30, 30], y: [0, 0] },
+  tilt_up: { zoom: [1, 1], x: [0, 0], y: [-24, 24] },
+};
+
 export const KenBurnsVideo: React.FC<KenBurnsVideoProps> = ({
   src,
   zoom = 1.12,
   panX = -30,
   panY = 20,
+  motion = "static",
   opacity = 0.4,
   blendMode = "overlay",
 }) => {
+  const frame = useCurrentFrame();
+  const move = MOTIONS[motion];
+  const at = (range: [number, number]) =>
+    interpolate(frame, [0, MOTION_FRAMES], range, { extrapolateLeft: "clamp", extrapolateRight: "clamp" });
+
   return (
     <div
       style={{
@@ -36,7 +58,7 @@ export const KenBurnsVideo: React.FC<KenBurnsVideoProps> = ({
           width: "120%",
           height: "120%",
           objectFit: "cover",
-          transform: `scale(${zoom}) translate(${panX}px, ${panY}px)`,
+          transform: `scale(${zoom * at(move.zoom)}) translate(${panX + at(move.x)}px, ${panY + at(move.y)}px)`,
           filter: "saturate(0.9) contrast(1.05)",
         }}
       />
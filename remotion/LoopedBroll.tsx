@@ -29,7 +29,7 @@ export const LoopedBroll: React.FC<LoopedBrollProps> = ({
   luminanceClamp = [0.95, 1.05], // Slight brightness normalization
 }) => {
   const frame = useCurrentFrame();
-  const { durationInFrames, fps } = useVideoConfig();
+  const { durationInFrames } = useVideoConfig();
 
   // Calculate crossfade opacity with smooth easing
   const isInCrossfadeZone = frame >= durationInFrames - crossfadeFrames;
@@ -0,0 +1,228 @@
+import React from "react";
+import { AbsoluteFill, Html5Audio, Sequence, interpolate, spring, useCurrentFrame, useVideoConfig } from "remotion";
+import { theme } from "./theme";
+import type { SceneLabels } from "./labels";
+import type { QuizQuestion } from "../lib/quiz";
+import type { QuizAudio } from "../lib/renderInput";
+
+const COUNTDOWN_SECONDS = 5;
+const OPTION_STAGGER = 8;
+const OPTIONS_START = 20;
+
+// Without narration, hold the question as long as it takes to read it
+const readingSeconds = (text: string) => Math.max(3, text.split(/\s+/).filter(Boolean).length / 2.5 + 1);
+
+/** Frame lengths of the three beats of a quiz scene. */
+export const getQuizBeats = (question: QuizQuestion, audio: QuizAudio | undefined, fps = 30) => {
+  const optionsIn = OPTIONS_START + question.options.length * OPTION_STAGGER;
+  const prompt = audio
+    ? Math.ceil(audio.prompt.duration * fps) + fps / 2
+    : Math.ceil(readingSeconds([question.q, ...question.options.map((o) => o.text)].join(" ")) * fps);
+  const reveal = audio
+    ? Math.ceil(audio.reveal.duration * fps) + fps
+    : Math.ceil(readingSeconds(question.explanation) * fps);
+  return {
+    prompt: Math.max(prompt, optionsIn + fps),
+    countdown: COUNTDOWN_SECONDS * fps,
+    reveal,
+  };
+};
+
+export const getQuizSceneDurations = (quiz: QuizQuestion[], quizAudio: QuizAudio[] | undefined, fps = 30) =>
+  quiz.map((question, index) => {
+    const beats = getQuizBeats(question, quizAudio?.[index], fps);
+    return beats.prompt + beats.countdown + beats.reveal;
+  });
+
+const optionMarker = (question: QuizQuestion, index: number, revealed: boolean) =>
+  revealed && question.type === "ordering"
+    ? String(question.correct.indexOf(index) + 1)
+    : String.fromCharCode(65 + index);
+
+export const QuizScene: React.FC<{
+  question: QuizQuestion;
+  index: number;
+  total: number;
+  labels: SceneLabels;
+  audio?: QuizAudio;
+}> = ({ question, index, total, labels, audio }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const beats = getQuizBeats(question, audio, fps);
+  const countdownStart = beats.prompt;
+  const revealStart = beats.prompt + beats.countdown;
+  const revealed = frame >= revealStart;
+
+  const revealProgress = spring({ frame: frame - revealStart, fps, config: { damping: 200 } });
+  const secondsLeft = Math.max(0, Math.ceil((revealStart - frame) / fps));
+  const countdownProgress = interpolate(frame, [countdownStart, revealStart], [1, 0], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+
+  const RADIUS = 70;
+  const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+  return (
+    <AbsoluteFill style={{ padding: 80 }}>
+      {audio && (
+        <>
+          <Sequence durationInFrames={beats.prompt}>
+            <Html5Audio src={audio.prompt.url} />
+          </Sequence>
+          <Sequence from={revealStart} durationInFrames={beats.reveal}>
+            <Html5Audio src={audio.reveal.url} />
+          </Sequence>
+        </>
+      )}
+      <div style={{ display: "grid", gridTemplateColumns: "2fr 1.1fr", gap: 48, height: "100%" }}>
+        <div
+          style={{
+            background: theme.colors.card,
+            borderRadius: theme.radii.lg,
+            padding: 48,
+            boxShadow: theme.shadows.floating,
+            display: "flex",
+            flexDirection: "column",
+            gap: 20,
+          }}
+        >
+          <div
+            style={{
+              alignSelf: "flex-start",
+              padding: "6px 14px",
+              borderRadius: theme.radii.sm,
+              background: theme.colors.accentSoft,
+              color: theme.colors.text,
+              fontFamily: theme.fonts.body,
+              fontSize: 16,
+              fontWeight: 600,
+            }}
+          >
+            {labels.quizTag(index + 1, total)} · {labels.quizHints[question.type]}
+          </div>
+          <h1
+            style={{
+              margin: 0,
+              fontSize: 40,
+              lineHeight: 1.15,
+              fontWeight: 700,
+              color: theme.colors.text,
+              fontFamily: theme.fonts.display,
+            }}
+          >
+            {question.q}
+          </h1>
+          <ul style={{ margin: 0, padding: 0, listStyle: "none", display: "grid", gap: 12 }}>
+            {question.options.map((option, i) => {
+              const enter = spring({ frame: frame - OPTIONS_START - i * OPTION_STAGGER, fps, config: { damping: 200 } });
+              const isCorrect = question.type === "ordering" || question.correct.includes(i);
+              const dim = interpolate(revealProgress, [0, 1], [1, isCorrect ? 1 : 0.4]);
+              return (
+                <li
+                  key={i}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 16,
+                    padding: "12px 16px",
+                    borderRadius: theme.radii.sm,
+                    border: `2px solid ${revealed && isCorrect ? theme.colors.primary : "rgba(15,23,42,0.08)"}`,
+                    background: revealed && isCorrect ? theme.colors.primarySoft : "rgba(255,255,255,0.6)",
+                    fontSize: 22,
+                    color: theme.colors.text,
+                    fontFamily: theme.fonts.body,
+                    opacity: enter * dim,
+                    transform: `translateX(${interpolate(enter, [0, 1], [24, 0])}px)`,
+                  }}
+                >
+                  <span
+                    style={{
+                      width: 36,
+                      height: 36,
+                      flexShrink: 0,
+                      borderRadius: 999,
+                      display: "flex",
+                      alignItems: "center",
+                      justifyContent: "center",
+                      fontWeight: 700,
+                      color: revealed && isCorrect ? "#fff" : theme.colors.text,
+                      background: revealed && isCorrect ? theme.colors.primary : "rgba(15,23,42,0.08)",
+                    }}
+                  >
+                    {optionMarker(question, i, revealed)}
+                  </span>
+                  <span>{option.text}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div
+          style={{
+            borderRadius: theme.radii.lg,
+            background: theme.colors.cardMuted,
+            boxShadow: theme.shadows.floating,
+            padding: 40,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: 24,
+            fontFamily: theme.fonts.body,
+            color: theme.colors.text,
+          }}
+        >
+          {!revealed ? (
+            <>
+              <svg width={2 * RADIUS + 20} height={2 * RADIUS + 20} style={{ opacity: frame >= countdownStart ? 1 : 0.3 }}>
+                <circle cx={RADIUS + 10} cy={RADIUS + 10} r={RADIUS} fill="none" stroke="rgba(15,23,42,0.1)" strokeWidth={12} />
+                <circle
+                  cx={RADIUS + 10}
+                  cy={RADIUS + 10}
+                  r={RADIUS}
+                  fill="none"
+                  stroke={theme.colors.accent}
+                  strokeWidth={12}
+                  strokeLinecap="round"
+                  strokeDasharray={CIRCUMFERENCE}
+                  strokeDashoffset={CIRCUMFERENCE * (1 - countdownProgress)}
+                  transform={`rotate(-90 ${RADIUS + 10} ${RADIUS + 10})`}
+                />
+                <text
+                  x="50%"
+                  y="50%"
+                  dominantBaseline="central"
+                  textAnchor="middle"
+                  fontSize={56}
+                  fontWeight={700}
+                  fill={theme.colors.text}
+                >
+                  {frame >= countdownStart ? secondsLeft : "?"}
+                </text>
+              </svg>
+              <p style={{ margin: 0, fontSize: 20, color: theme.colors.textMuted }}>{labels.quizThink}</p>
+            </>
+          ) : (
+            <div style={{ opacity: revealProgress, transform: `translateY(${interpolate(revealProgress, [0, 1], [20, 0])}px)` }}>
+              <p
+                style={{
+                  margin: 0,
+                  textTransform: "uppercase",
+                  letterSpacing: 2,
+                  fontWeight: 600,
+                  fontSize: 15,
+                  color: theme.colors.primary,
+                }}
+              >
+                {labels.quizAnswer}
+              </p>
+              <p style={{ marginTop: 12, fontSize: 22, lineHeight: 1.5 }}>{question.explanation}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </AbsoluteFill>
+  );
+};
@@ -7,7 +7,7 @@ type SceneFrameProps = {
   kicker?: string;
   title: string;
   body?: string;
-  bullets?: string[];
+  bullets?: React.ReactNode[];
   tag?: string;
   accent?: string;
   right?: React.ReactNode;
@@ -157,7 +157,7 @@ export const SceneFrame: React.FC<SceneFrameProps> = ({
                       display: "flex",
                       alignItems: "center",
                       gap: 16,
-                      fontSize: 22,
+                      fontSize: theme.sceneText.bulletSize,
                       color: theme.colors.text,
                       fontFamily: theme.fonts.body,
                       opacity: stagger(4 + index),
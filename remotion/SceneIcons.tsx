@@ -0,0 +1,79 @@
+import React from "react";
+import { interpolate, spring, useCurrentFrame, useVideoConfig } from "remotion";
+import {
+  CircleCheck,
+  Clock,
+  Eye,
+  FileText,
+  Globe,
+  KeyRound,
+  Lightbulb,
+  Lock,
+  Mail,
+  Scale,
+  Server,
+  Shield,
+  Smartphone,
+  TriangleAlert,
+  User,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import type { SceneIcon } from "../lib/visualPlan";
+
+const ICONS: Record<SceneIcon, LucideIcon> = {
+  shield: Shield,
+  lock: Lock,
+  key: KeyRound,
+  user: User,
+  users: Users,
+  document: FileText,
+  mail: Mail,
+  alert: TriangleAlert,
+  check: CircleCheck,
+  clock: Clock,
+  eye: Eye,
+  globe: Globe,
+  server: Server,
+  phone: Smartphone,
+  scale: Scale,
+  lightbulb: Lightbulb,
+};
+
+type SceneIconsProps = {
+  icons: SceneIcon[];
+  delay?: number;
+};
+
+// The visual plan's icon suggestions, popping in one after another
+export const SceneIcons: React.FC<SceneIconsProps> = ({ icons, delay = 10 }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  return (
+    <div style={{ display: "flex", gap: 12 }}>
+      {icons.map((name, index) => {
+        const Icon = ICONS[name];
+        const prog = spring({ frame: frame - delay - index * 5, fps, config: { damping: 14, mass: 0.6 } });
+        return (
+          <div
+            key={name}
+            style={{
+              width: 52,
+              height: 52,
+              borderRadius: 16,
+              background: "rgba(255,255,255,0.14)",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              transform: `scale(${interpolate(prog, [0, 1], [0.6, 1])})`,
+              opacity: prog,
+            }}
+          >
+            <Icon size={28} color="white" strokeWidth={1.75} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from "react";
+import { useCurrentFrame, useVideoConfig } from "remotion";
+import { theme } from "./theme";
+import { currentWordIndex, spokenTokens } from "../lib/wordTimings";
+import type { WordTiming } from "../lib/renderInput";
+
+type SpokenTextProps = {
+  text: string;
+  words?: WordTiming[];
+  language: string;
+};
+
+// A narrated sentence with the word being spoken highlighted and the words
+// still to come dimmed; plain text for narration without word timings.
+// Expects its Sequence to start where the sentence's audio does.
+export const SpokenText: React.FC<SpokenTextProps> = ({ text, words, language }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  const tokens = spokenTokens(text, language);
+  if (!words || words.length !== tokens.length) return <>{text}</>;
+
+  const current = currentWordIndex(words, frame / fps);
+  return (
+    <>
+      {tokens.map((token, index) => (
+        <span
+          key={index}
+          style={{
+            color: index === current ? theme.colors.primary : undefined,
+            opacity: index > current ? 0.45 : 1,
+          }}
+        >
+          {token.raw}
+        </span>
+      ))}
+    </>
+  );
+};
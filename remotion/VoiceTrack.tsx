@@ -26,7 +26,6 @@ export const VoiceTrack: React.FC<VoiceTrackProps> = ({
   segments,
   fps = 30,
   crossfadeFrames = 2, // 2-3 frames for micro crossfade
-  targetLUFS = -16,
 }) => {
   if (!segments || segments.length === 0) {
     return null;
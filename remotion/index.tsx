@@ -1,5 +1,7 @@
 import { Composition } from 'remotion';
-import { GraphycsComposition, Storyboard, Segment } from './Composition';
+import { GraphycsComposition, getCompositionDurationInFrames } from './Composition';
+import { renderInputSchema } from '../lib/renderInput';
+import { describeIssues, fieldIssues } from '../lib/validation';
 
 export const RemotionRoot: React.FC = () => {
   return (
@@ -24,42 +26,52 @@ export const RemotionRoot: React.FC = () => {
             ],
             summary: 'Summary',
             quiz: [
-              { q: 'Q1', a: ['A', 'B', 'C'], correct: 0 },
-              { q: 'Q2', a: ['A', 'B', 'C'], correct: 1 },
-              { q: 'Q3', a: ['A', 'B', 'C'], correct: 2 },
+              {
+                type: 'multiple_choice',
+                q: 'Q1',
+                moduleIndex: 0,
+                options: [
+                  { text: 'A', feedback: '' },
+                  { text: 'B', feedback: '' },
+                  { text: 'C', feedback: '' },
+                ],
+                correct: [0],
+                explanation: '',
+              },
+              {
+                type: 'true_false',
+                q: 'Q2',
+                moduleIndex: 1,
+                options: [
+                  { text: 'True', feedback: '' },
+                  { text: 'False', feedback: '' },
+                ],
+                correct: [1],
+                explanation: '',
+              },
             ],
           },
         }}
         calculateMetadata={({ props }) => {
-          const fps = 30;
-          let durationInFrames: number;
-
-          if (props.segments && props.segments.length > 0) {
-            // Calculate total duration from segments
-            const totalDuration = props.segments.reduce((acc: number, seg: Segment) => {
-              return Math.max(acc, seg.start + seg.duration);
-            }, 0);
-            durationInFrames = Math.ceil(totalDuration * fps) + 30; // Add 1 second buffer
-            console.log(`[Remotion] Duration from segments: ${totalDuration}s = ${durationInFrames} frames`);
-          } else {
-            const modules = props.storyboard?.modules ?? [];
-            const handle = 36;
-            const baseDurations = [
-              fps * 4, // intro
-              fps * 4, // overview
-              ...modules.map(() => fps * 4.5),
-              fps * 5, // summary
-            ];
-            const runtimeDurations = baseDurations.map((duration, idx) =>
-              idx === baseDurations.length - 1 ? duration : duration - handle
-            );
-            durationInFrames = runtimeDurations.reduce((acc, val) => acc + val, 0);
-            console.log(`[Remotion] Duration from fallback: ${runtimeDurations.length} scenes = ${durationInFrames} frames`);
+          // /api/render validates too; this catches batch renders and the Studio
+          const parsed = renderInputSchema.safeParse(props);
+          if (!parsed.success) {
+            throw new Error(`Invalid render input:\n${describeIssues(fieldIssues(parsed.error))}`);
           }
+          const fps = 30;
+          // Narration (segments or a single track), then one scene per quiz question
+          const input = parsed.data;
+          const durationInFrames = getCompositionDurationInFrames(input, fps);
+          console.log(
+            `[Remotion] Duration: ${durationInFrames} frames ` +
+            `(${input.segments?.length ? 'from segments' : 'from scenes'}, ${input.storyboard.quiz.length} quiz scenes)`
+          );
 
+          // The parsed input has its defaults filled in, so render that rather than the raw props
           return {
             durationInFrames,
             fps,
+            props: input,
           };
         }}
       />
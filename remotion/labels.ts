@@ -0,0 +1,291 @@
+import { normalizeLanguage, type LanguageCode } from "../lib/languages";
+import type { QuizType } from "../lib/quiz";
+
+// Fixed on-screen copy around the storyboard text, per narration language
+export type SceneLabels = {
+  introTag: string;
+  introKicker: string;
+  overviewTag: string;
+  overviewKicker: string;
+  overviewTitle: string;
+  overviewBody: string;
+  moduleTag: (n: number) => string;
+  moduleKicker: string;
+  summaryTag: string;
+  summaryKicker: string;
+  summaryTitle: string;
+  engagementLift: string;
+  incidentWindow: string;
+  actionItems: string;
+  points: (n: number) => string;
+  quizTag: (n: number, total: number) => string;
+  quizHints: Record<QuizType, string>;
+  quizThink: string;
+  quizAnswer: string;
+};
+
+const SCENE_LABELS: Record<LanguageCode, SceneLabels> = {
+  en: {
+    introTag: "Executive Briefing",
+    introKicker: "Why it matters",
+    overviewTag: "Module Overview",
+    overviewKicker: "Learning path",
+    overviewTitle: "What we cover next",
+    overviewBody: "High-level modules to align your team.",
+    moduleTag: (n) => `Module ${n}`,
+    moduleKicker: "Key decisions",
+    summaryTag: "Summary",
+    summaryKicker: "Takeaways",
+    summaryTitle: "Commitment to action",
+    engagementLift: "Engagement lift",
+    incidentWindow: "Incident window",
+    actionItems: "Action items",
+    points: (n) => `${n} pts`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Choose one answer",
+      multi_select: "Select all that apply",
+      true_false: "True or false?",
+      ordering: "Put these in order",
+    },
+    quizThink: "Think it over…",
+    quizAnswer: "Answer",
+  },
+  de: {
+    introTag: "Management-Briefing",
+    introKicker: "Warum es wichtig ist",
+    overviewTag: "Modulübersicht",
+    overviewKicker: "Lernpfad",
+    overviewTitle: "Was als Nächstes kommt",
+    overviewBody: "Die Module im Überblick für Ihr Team.",
+    moduleTag: (n) => `Modul ${n}`,
+    moduleKicker: "Wichtige Entscheidungen",
+    summaryTag: "Zusammenfassung",
+    summaryKicker: "Das Wichtigste",
+    summaryTitle: "Jetzt umsetzen",
+    engagementLift: "Mehr Beteiligung",
+    incidentWindow: "Meldefrist",
+    actionItems: "Maßnahmen",
+    points: (n) => `${n} Punkte`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Wählen Sie eine Antwort",
+      multi_select: "Mehrere Antworten möglich",
+      true_false: "Richtig oder falsch?",
+      ordering: "Bringen Sie die Schritte in die richtige Reihenfolge",
+    },
+    quizThink: "Denken Sie kurz nach…",
+    quizAnswer: "Lösung",
+  },
+  fr: {
+    introTag: "Briefing de direction",
+    introKicker: "Pourquoi c'est important",
+    overviewTag: "Aperçu des modules",
+    overviewKicker: "Parcours",
+    overviewTitle: "Au programme",
+    overviewBody: "Les modules clés pour aligner votre équipe.",
+    moduleTag: (n) => `Module ${n}`,
+    moduleKicker: "Décisions clés",
+    summaryTag: "Résumé",
+    summaryKicker: "À retenir",
+    summaryTitle: "Passer à l'action",
+    engagementLift: "Engagement accru",
+    incidentWindow: "Délai de notification",
+    actionItems: "Actions",
+    points: (n) => `${n} points`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Choisissez une réponse",
+      multi_select: "Plusieurs réponses possibles",
+      true_false: "Vrai ou faux ?",
+      ordering: "Remettez dans l'ordre",
+    },
+    quizThink: "Prenez le temps de réfléchir…",
+    quizAnswer: "Réponse",
+  },
+  es: {
+    introTag: "Resumen ejecutivo",
+    introKicker: "Por qué importa",
+    overviewTag: "Resumen de módulos",
+    overviewKicker: "Itinerario",
+    overviewTitle: "Lo que veremos",
+    overviewBody: "Los módulos clave para alinear a su equipo.",
+    moduleTag: (n) => `Módulo ${n}`,
+    moduleKicker: "Decisiones clave",
+    summaryTag: "Resumen",
+    summaryKicker: "Conclusiones",
+    summaryTitle: "Compromiso de acción",
+    engagementLift: "Más participación",
+    incidentWindow: "Plazo de notificación",
+    actionItems: "Acciones",
+    points: (n) => `${n} puntos`,
+    quizTag: (n, total) => `Test ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Elija una respuesta",
+      multi_select: "Seleccione todas las correctas",
+      true_false: "¿Verdadero o falso?",
+      ordering: "Ordene los pasos",
+    },
+    quizThink: "Piénselo un momento…",
+    quizAnswer: "Respuesta",
+  },
+  it: {
+    introTag: "Briefing per la direzione",
+    introKicker: "Perché è importante",
+    overviewTag: "Panoramica dei moduli",
+    overviewKicker: "Percorso",
+    overviewTitle: "Cosa vedremo",
+    overviewBody: "I moduli principali per allineare il team.",
+    moduleTag: (n) => `Modulo ${n}`,
+    moduleKicker: "Decisioni chiave",
+    summaryTag: "Riepilogo",
+    summaryKicker: "Punti chiave",
+    summaryTitle: "Impegno all'azione",
+    engagementLift: "Più coinvolgimento",
+    incidentWindow: "Termine di notifica",
+    actionItems: "Azioni",
+    points: (n) => `${n} punti`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Scegli una risposta",
+      multi_select: "Seleziona tutte le risposte corrette",
+      true_false: "Vero o falso?",
+      ordering: "Metti in ordine",
+    },
+    quizThink: "Pensaci un attimo…",
+    quizAnswer: "Risposta",
+  },
+  pt: {
+    introTag: "Briefing executivo",
+    introKicker: "Porque é importante",
+    overviewTag: "Visão geral dos módulos",
+    overviewKicker: "Percurso",
+    overviewTitle: "O que vem a seguir",
+    overviewBody: "Os módulos principais para alinhar a sua equipa.",
+    moduleTag: (n) => `Módulo ${n}`,
+    moduleKicker: "Decisões-chave",
+    summaryTag: "Resumo",
+    summaryKicker: "A reter",
+    summaryTitle: "Compromisso de ação",
+    engagementLift: "Mais envolvimento",
+    incidentWindow: "Prazo de notificação",
+    actionItems: "Ações",
+    points: (n) => `${n} pontos`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Escolha uma resposta",
+      multi_select: "Selecione todas as corretas",
+      true_false: "Verdadeiro ou falso?",
+      ordering: "Coloque por ordem",
+    },
+    quizThink: "Pense um pouco…",
+    quizAnswer: "Resposta",
+  },
+  nl: {
+    introTag: "Managementbriefing",
+    introKicker: "Waarom het ertoe doet",
+    overviewTag: "Moduleoverzicht",
+    overviewKicker: "Leerpad",
+    overviewTitle: "Wat we behandelen",
+    overviewBody: "De belangrijkste modules voor uw team.",
+    moduleTag: (n) => `Module ${n}`,
+    moduleKicker: "Belangrijke beslissingen",
+    summaryTag: "Samenvatting",
+    summaryKicker: "Kernpunten",
+    summaryTitle: "Aan de slag",
+    engagementLift: "Meer betrokkenheid",
+    incidentWindow: "Meldtermijn",
+    actionItems: "Acties",
+    points: (n) => `${n} punten`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Kies één antwoord",
+      multi_select: "Selecteer alle juiste antwoorden",
+      true_false: "Waar of niet waar?",
+      ordering: "Zet in de juiste volgorde",
+    },
+    quizThink: "Denk even na…",
+    quizAnswer: "Antwoord",
+  },
+  pl: {
+    introTag: "Briefing dla kadry",
+    introKicker: "Dlaczego to ważne",
+    overviewTag: "Przegląd modułów",
+    overviewKicker: "Ścieżka nauki",
+    overviewTitle: "Co nas czeka",
+    overviewBody: "Najważniejsze moduły dla Twojego zespołu.",
+    moduleTag: (n) => `Moduł ${n}`,
+    moduleKicker: "Kluczowe decyzje",
+    summaryTag: "Podsumowanie",
+    summaryKicker: "Najważniejsze wnioski",
+    summaryTitle: "Czas działać",
+    engagementLift: "Większe zaangażowanie",
+    incidentWindow: "Termin zgłoszenia",
+    actionItems: "Działania",
+    points: (n) => `${n} pkt`,
+    quizTag: (n, total) => `Quiz ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "Wybierz jedną odpowiedź",
+      multi_select: "Zaznacz wszystkie poprawne",
+      true_false: "Prawda czy fałsz?",
+      ordering: "Ułóż w kolejności",
+    },
+    quizThink: "Zastanów się…",
+    quizAnswer: "Odpowiedź",
+  },
+  ar: {
+    introTag: "إحاطة تنفيذية",
+    introKicker: "لماذا يهم ذلك",
+    overviewTag: "نظرة عامة على الوحدات",
+    overviewKicker: "مسار التعلم",
+    overviewTitle: "ما سنتناوله",
+    overviewBody: "الوحدات الرئيسية لتوحيد فريقك.",
+    moduleTag: (n) => `الوحدة ${n}`,
+    moduleKicker: "قرارات رئيسية",
+    summaryTag: "الملخص",
+    summaryKicker: "أهم النقاط",
+    summaryTitle: "الالتزام بالتنفيذ",
+    engagementLift: "زيادة التفاعل",
+    incidentWindow: "مهلة الإبلاغ",
+    actionItems: "إجراءات",
+    points: (n) => `${n} نقاط`,
+    quizTag: (n, total) => `اختبار ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "اختر إجابة واحدة",
+      multi_select: "اختر كل الإجابات الصحيحة",
+      true_false: "صح أم خطأ؟",
+      ordering: "رتّب الخطوات",
+    },
+    quizThink: "فكّر قليلاً…",
+    quizAnswer: "الإجابة",
+  },
+  ja: {
+    introTag: "エグゼクティブ・ブリーフィング",
+    introKicker: "なぜ重要か",
+    overviewTag: "モジュール概要",
+    overviewKicker: "学習の流れ",
+    overviewTitle: "このあと学ぶこと",
+    overviewBody: "チームで押さえるべき主要モジュール。",
+    moduleTag: (n) => `モジュール ${n}`,
+    moduleKicker: "重要なポイント",
+    summaryTag: "まとめ",
+    summaryKicker: "要点",
+    summaryTitle: "行動に移そう",
+    engagementLift: "エンゲージメント向上",
+    incidentWindow: "報告期限",
+    actionItems: "アクション",
+    points: (n) => `${n} 項目`,
+    quizTag: (n, total) => `クイズ ${n}/${total}`,
+    quizHints: {
+      multiple_choice: "答えを1つ選んでください",
+      multi_select: "当てはまるものをすべて選んでください",
+      true_false: "○か×か？",
+      ordering: "正しい順番に並べてください",
+    },
+    quizThink: "考えてみましょう…",
+    quizAnswer: "答え",
+  },
+};
+
+export const getSceneLabels = (language: string | null | undefined) =>
+  SCENE_LABELS[normalizeLanguage(language)];
@@ -23,6 +23,12 @@ export const theme = {
     floating: "0 30px 120px rgba(15, 23, 42, 0.35)",
     glow: "0 0 70px rgba(16, 185, 129, 0.3)",
   },
+  // SceneFrame bullets at 1280×720: 80px frame padding, the 2fr text card
+  // (48px padding) and the 30px marker leave about 565px per line
+  sceneText: {
+    bulletSize: 22,
+    bulletWidth: 565,
+  },
   easing: {
     smooth: [0.4, 0, 0.2, 1],
   },
@@ -103,8 +103,6 @@ export const MotionTrail: React.FC<{
   frames?: number;
   intensity?: number; // 0-1, affects opacity of trail
 }> = ({ children, frames = 3, intensity = 0.3 }) => {
-  const currentFrame = useCurrentFrame();
-
   return (
     <>
       {/* Render trail layers (from oldest to newest) */}
@@ -3,12 +3,24 @@ import { structureRouter } from './routers/structure';
 import { audioRouter } from './routers/audio';
 import { audioSegmentsRouter } from './routers/audioSegments';
 import { videoRouter } from './routers/video';
+import { projectRouter } from './routers/project';
+import { versionRouter } from './routers/version';
+import { localizationRouter } from './routers/localization';
+import { progressRouter } from './routers/progress';
+import { cacheRouter } from './routers/cache';
+import { storyboardFileRouter } from './routers/storyboardFile';
 
 export const appRouter = router({
   structure: structureRouter,
   audio: audioRouter,
   audioSegments: audioSegmentsRouter,
-  video: videoRouter
+  video: videoRouter,
+  project: projectRouter,
+  version: versionRouter,
+  localization: localizationRouter,
+  progress: progressRouter,
+  cache: cacheRouter,
+  storyboardFile: storyboardFileRouter
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,77 +1,79 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
-import { writeFileSync } from 'fs';
+import { getSpeaker, ttsProviderNameSchema } from '../../tts';
+import { synthesizeClip, synthesizeSpeech } from '../../lib/narration';
+import { voiceForScene, voiceLibrarySchema, voiceProfileSchema } from '../../../lib/voices';
+import { existsSync, statSync, writeFileSync } from 'fs';
 import { join } from 'path';
 
 export const audioRouter = router({
   tts: publicProcedure
     .input(z.object({
       text: z.string().min(10),
-      voice: z.enum(['eleven']).default('eleven'),
+      // Speech engine; omitted means the server default (TTS_PROVIDER)
+      voice: ttsProviderNameSchema.optional(),
+      // One track has one voice: the library's default voice
+      voices: voiceLibrarySchema.optional(),
       language: z.string().default('de')
     }))
     .mutation(async ({ input }) => {
-      const apiKey = process.env.ELEVENLABS_API_KEY;
-      const voiceId = process.env.ELEVEN_VOICE_ID || 'Rachel';
+      const speaker = getSpeaker(voiceForScene(input.voices, null, input.language), input.language, input.voice);
+      const { provider } = speaker;
+      const { voiceId, modelId } = speaker.voice;
 
-      if (!apiKey) {
-        console.error('ELEVENLABS_API_KEY missing');
-        throw new Error('ELEVENLABS_API_KEY missing');
-      }
-
-      console.log('[ElevenLabs] Generating TTS for', input.text.length, 'characters, voice:', voiceId);
+      console.log(`[TTS] Generating ${provider.name} TTS for`, input.text.length, 'characters, voice:', voiceId, 'model:', modelId, 'language:', input.language);
 
       try {
-        const res = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-          method: 'POST',
-          headers: {
-            'xi-api-key': apiKey,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            text: input.text,
-            model_id: 'eleven_multilingual_v2',
-            voice_settings: { stability: 0.5, similarity_boost: 0.7 }
-          })
+        const buffer = await synthesizeSpeech(input.text, speaker).catch((error) => {
+          throw new Error(`TTS failed: ${error instanceof Error ? error.message : error}`);
         });
 
-        if (!res.ok) {
-          const errorText = await res.text();
-          console.error('[ElevenLabs] API error:', res.status, errorText);
-          throw new Error(`TTS failed: ${res.status} - ${errorText}`);
-        }
-
-        const arrayBuf = await res.arrayBuffer();
-        const buffer = Buffer.from(arrayBuf);
-
         // Save to public folder with timestamp to prevent caching issues
-        const filename = `narration-${Date.now()}.mp3`;
+        const filename = `narration-${Date.now()}.${provider.mimeType === 'audio/wav' ? 'wav' : 'mp3'}`;
         const publicPath = join(process.cwd(), 'public', filename);
 
-        console.log('[ElevenLabs] ===== AUDIO SAVE DEBUG =====');
-        console.log('[ElevenLabs] Buffer size:', buffer.length, 'bytes');
-        console.log('[ElevenLabs] Filename:', filename);
-        console.log('[ElevenLabs] Full path:', publicPath);
-        console.log('[ElevenLabs] CWD:', process.cwd());
+        console.log('[TTS] ===== AUDIO SAVE DEBUG =====');
+        console.log('[TTS] Buffer size:', buffer.length, 'bytes');
+        console.log('[TTS] Filename:', filename);
+        console.log('[TTS] Full path:', publicPath);
+        console.log('[TTS] CWD:', process.cwd());
 
         writeFileSync(publicPath, buffer);
 
         // Verify file was written
-        const fs = require('fs');
-        const fileExists = fs.existsSync(publicPath);
-        const fileSize = fileExists ? fs.statSync(publicPath).size : 0;
+        const fileExists = existsSync(publicPath);
+        const fileSize = fileExists ? statSync(publicPath).size : 0;
 
-        console.log('[ElevenLabs] File exists after write:', fileExists);
-        console.log('[ElevenLabs] File size after write:', fileSize, 'bytes');
+        console.log('[TTS] File exists after write:', fileExists);
+        console.log('[TTS] File size after write:', fileSize, 'bytes');
 
         const audioUrl = `/${filename}`;
-        console.log('[ElevenLabs] Returning audioUrl:', audioUrl);
-        console.log('[ElevenLabs] ===== END DEBUG =====');
+        console.log('[TTS] Returning audioUrl:', audioUrl);
+        console.log('[TTS] ===== END DEBUG =====');
 
         return { audioUrl };
       } catch (error) {
-        console.error('[ElevenLabs] Error:', error);
+        console.error('[TTS] Error:', error);
         throw error;
       }
+    }),
+
+  // A short sample of a library voice, so it can be auditioned before narrating
+  preview: publicProcedure
+    .input(z.object({
+      profile: voiceProfileSchema,
+      language: z.string().default('de'),
+      text: z.string().min(1).max(300)
+    }))
+    .mutation(async ({ input }) => {
+      const speaker = getSpeaker(input.profile, input.language);
+      console.log(`[TTS] Previewing ${input.profile.name} (${speaker.provider.name} voice: ${speaker.voice.voiceId})`);
+      try {
+        const { url, duration } = await synthesizeClip(input.text, speaker);
+        return { url, duration };
+      } catch (error) {
+        console.error('[TTS] Preview error:', error);
+        throw new Error(`Preview failed: ${error instanceof Error ? error.message : error}`);
+      }
     })
 });
@@ -1,97 +1,71 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
-import { parseBuffer } from 'music-metadata';
-import type { Segment } from '../../../remotion/Composition';
+import { synthesizeQuizNarration, synthesizeSegments } from '../../lib/narration';
+import { storyboardSchema } from '../../../lib/storyboard';
+import { segmentSchema } from '../../../lib/renderInput';
+import { finishProgress, reportProgress } from '../../lib/progress';
+import { getSpeaker, ttsProviderNameSchema } from '../../tts';
+import { sceneIdSchema } from '../../../lib/visualPlan';
+import { voiceForScene, voiceLibrarySchema } from '../../../lib/voices';
 
 export const audioSegmentsRouter = router({
   generateSegments: publicProcedure
     .input(z.object({
-      text: z.string().min(10),
-      voice: z.enum(['eleven']).default('eleven'),
-      language: z.string().default('de')
+      // The narration with each line's scene (narrationScript), for per-scene voices
+      lines: z.array(z.object({ sceneId: sceneIdSchema, text: z.string() })).min(1),
+      // Speech engine; omitted means the server default (TTS_PROVIDER)
+      voice: ttsProviderNameSchema.optional(),
+      voices: voiceLibrarySchema.optional(),
+      language: z.string().default('de'),
+      // Segments from an earlier run; unchanged sentences keep their clips
+      reuse: z.array(segmentSchema).optional(),
+      // Client-chosen id for progress.watch
+      jobId: z.string().max(100).optional()
     }))
     .mutation(async ({ input }) => {
-      const apiKey = process.env.ELEVENLABS_API_KEY;
-      const voiceId = process.env.ELEVEN_VOICE_ID || 'Rachel';
-
-      if (!apiKey) {
-        console.error('[AudioSegments] ELEVENLABS_API_KEY missing');
-        throw new Error('ELEVENLABS_API_KEY missing');
+      const { jobId } = input;
+      try {
+        return await synthesizeSegments(input.lines, input.language, {
+          voices: input.voices,
+          engine: input.voice,
+          reuse: input.reuse,
+          onSegment: (index, total, segment, reused) => reportProgress(jobId, {
+            stage: 'voice',
+            current: index + 1,
+            total,
+            message: `${reused ? 'Kept' : 'Recorded'} segment ${index + 1} of ${total}`,
+            // Without the audio itself, which the mutation returns at the end
+            partial: {
+              kind: 'segment',
+              index,
+              segment: { text: segment.text, start: segment.start, duration: segment.duration },
+              reused
+            }
+          })
+        });
+      } catch (error) {
+        console.error('[AudioSegments] Error:', error);
+        throw error;
+      } finally {
+        finishProgress(jobId);
       }
+    }),
 
-      console.log('[AudioSegments] Starting segmented TTS generation for', input.text.length, 'characters');
-
+  // Question and answer clips for the quiz scenes
+  generateQuiz: publicProcedure
+    .input(z.object({
+      quiz: storyboardSchema.shape.quiz,
+      voice: ttsProviderNameSchema.optional(),
+      // Quiz scenes are read by the library's default voice
+      voices: voiceLibrarySchema.optional(),
+      language: z.string().default('de')
+    }))
+    .mutation(async ({ input }) => {
+      const speaker = getSpeaker(voiceForScene(input.voices, null, input.language), input.language, input.voice);
       try {
-        // Split text into sentences
-        const sentences = input.text
-          .split(/(?<=[.!?])\s+/)
-          .filter(s => s.trim().length > 0);
-
-        console.log('[AudioSegments] Split into', sentences.length, 'sentences');
-
-        const segments: Segment[] = [];
-        let cumulativeTime = 0;
-        const padding = 0.3; // 300ms pause between segments
-
-        for (let i = 0; i < sentences.length; i++) {
-          const sentence = sentences[i];
-          console.log(`[AudioSegments] Processing segment ${i + 1}/${sentences.length}: "${sentence.substring(0, 50)}..."`);
-
-          // Generate TTS for this sentence
-          const res = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-            method: 'POST',
-            headers: {
-              'xi-api-key': apiKey,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              text: sentence,
-              model_id: 'eleven_multilingual_v2',
-              voice_settings: { stability: 0.5, similarity_boost: 0.7 }
-            })
-          });
-
-          if (!res.ok) {
-            const errorText = await res.text();
-            console.error('[AudioSegments] API error for segment', i, ':', res.status, errorText);
-            throw new Error(`TTS failed for segment ${i}: ${res.status}`);
-          }
-
-          const arrayBuf = await res.arrayBuffer();
-          const buffer = Buffer.from(arrayBuf);
-
-          // Detect audio duration using music-metadata
-          const metadata = await parseBuffer(buffer, { mimeType: 'audio/mpeg' });
-          const duration = metadata.format.duration || 0;
-
-          console.log(`[AudioSegments] Segment ${i + 1} duration:`, duration.toFixed(2), 'seconds');
-
-          // Convert to data URL for inline embedding
-          const base64 = buffer.toString('base64');
-          const dataUrl = `data:audio/mpeg;base64,${base64}`;
-
-          segments.push({
-            text: sentence,
-            start: cumulativeTime,
-            duration,
-            url: dataUrl
-          });
-
-          cumulativeTime += duration + padding;
-        }
-
-        const totalDuration = cumulativeTime - padding; // Remove last padding
-        console.log('[AudioSegments] ===== SEGMENTATION COMPLETE =====');
-        console.log('[AudioSegments] Total segments:', segments.length);
-        console.log('[AudioSegments] Total duration:', totalDuration.toFixed(2), 'seconds');
-        console.log('[AudioSegments] ===== END DEBUG =====');
-
-        return {
-          segments,
-          totalDuration
-        };
+        return await synthesizeQuizNarration(input.quiz, speaker);
       } catch (error) {
-        console.error('[AudioSegments] Error:', error);
+        console.error('[AudioSegments] Quiz narration error:', error);
         throw error;
       }
     })
@@ -0,0 +1,12 @@
+import { router, publicProcedure } from '../trpc';
+import { clearCache, getCacheStats } from '../../db/cache';
+
+export const cacheRouter = router({
+  stats: publicProcedure.query(() => getCacheStats()),
+
+  clear: publicProcedure.mutation(() => {
+    clearCache();
+    console.log('[Cache] Cleared');
+    return getCacheStats();
+  }),
+});
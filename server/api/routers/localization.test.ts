@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { alignVisualPlan } from '../../../lib/visualPlan';
+import type { ProjectPatch } from '../../db/projects';
+
+// Projects go to data/ under the working directory
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'graphycs-localization-'));
+vi.spyOn(process, 'cwd').mockReturnValue(root);
+
+const { t } = await import('../trpc');
+const { localizationRouter } = await import('./localization');
+const { commitStoryboardVersion, createProject, getProject, updateProject } = await import('../../db/projects');
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+const caller = t.createCallerFactory(localizationRouter)({});
+
+const fields = {
+  title: 'Password basics',
+  language: 'en',
+  intro: 'Passwords protect our data.',
+  overview: ['Why passwords matter'],
+  modules: [{ title: 'Strong passwords', points: ['Use long passphrases.'] }],
+  summary: 'Long passwords keep accounts safe.',
+  quiz: [
+    {
+      type: 'true_false' as const,
+      q: 'Short passwords are safe.',
+      moduleIndex: 0,
+      options: [
+        { text: 'True', feedback: '' },
+        { text: 'False', feedback: '' },
+      ],
+      correct: [1],
+      explanation: '',
+    },
+  ],
+};
+const storyboard = { ...fields, visualPlan: alignVisualPlan(null, fields) };
+
+const localize = (projectId: string) =>
+  caller.localize({ projectId, languages: ['de'], narrate: false, render: false, provider: 'mock' });
+
+describe('localization.localize', () => {
+  it('refreshes an existing variant with the current settings of its master', async () => {
+    const master = createProject({ name: 'Passwords', language: 'en', llmProvider: 'mock' });
+    commitStoryboardVersion(master.id, { storyboard, author: 'anna', source: 'generated' });
+
+    const first = await localize(master.id);
+    const variantId = first.results[0].projectId!;
+    expect(getProject(variantId)).toMatchObject({ language: 'de', masterProjectId: master.id });
+
+    const settings: ProjectPatch = {
+      brief: { audience: 'frontline', tone: 'friendly', readingLevel: 'plain' },
+      glossary: { required: ['Passphrase'], forbidden: [] },
+      voices: {
+        voices: [{ id: 'anna', name: 'Anna', provider: 'openai', voiceId: 'nova', speed: 0.9 }],
+        defaultVoice: 'anna',
+        sceneVoices: {},
+      },
+    };
+    updateProject(master.id, settings);
+
+    const second = await localize(master.id);
+    expect(second.results[0]).toMatchObject({ projectId: variantId, versionNumber: 2, error: null });
+    expect(getProject(variantId)).toMatchObject({ ...settings, language: 'de' });
+  });
+
+  it('rejects masters without a storyboard and variants', async () => {
+    const empty = createProject({ name: 'Empty' });
+    await expect(localize(empty.id)).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+
+    const variant = createProject({ name: 'Variant', masterProjectId: empty.id });
+    commitStoryboardVersion(variant.id, { storyboard, author: 'anna', source: 'localized' });
+    await expect(localize(variant.id)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
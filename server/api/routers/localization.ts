@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure } from '../trpc';
+import { getLLMProvider, llmProviderNameSchema } from '../../llm';
+import { translateStoryboard } from '../../llm/translate';
+import {
+  addProjectRender,
+  commitStoryboardVersion,
+  createProject,
+  getProject,
+  listLocalizations,
+  projectIdSchema,
+  projectSettings,
+  updateProject,
+  type Project,
+} from '../../db/projects';
+import { synthesizeQuizNarration, synthesizeSegments } from '../../lib/narration';
+import { getSpeaker } from '../../tts';
+import { voiceForScene } from '../../../lib/voices';
+import { bundleComposition, renderStoryboard } from '../../lib/render';
+import { finishProgress, reportProgress } from '../../lib/progress';
+import { LANGUAGE_CODES, LANGUAGES, normalizeLanguage, type LanguageCode } from '../../../lib/languages';
+import { narrationScript } from '../../../lib/narration';
+
+function loadProject(id: string): Project {
+  const project = getProject(id);
+  if (!project) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${id} not found` });
+  }
+  return project;
+}
+
+type LocaleResult = {
+  language: LanguageCode;
+  projectId: string | null;
+  versionNumber: number | null;
+  videoUrl: string | null;
+  missingTerms: number;
+  error: string | null;
+};
+
+export const localizationRouter = router({
+  // Variants translated from a master project
+  list: publicProcedure
+    .input(z.object({ projectId: projectIdSchema }))
+    .query(({ input }) => listLocalizations(input.projectId)),
+
+  /**
+   * Translates the master's current storyboard into each language, then
+   * narrates and renders every variant. Each locale is its own project linked
+   * back to the master; running it again adds a new version to the existing
+   * variant. One failing locale doesn't stop the rest of the batch.
+   */
+  localize: publicProcedure
+    .input(z.object({
+      projectId: projectIdSchema,
+      languages: z.array(z.enum(LANGUAGE_CODES)).min(1).max(LANGUAGE_CODES.length),
+      // Product names, legal terms etc. that must appear verbatim in every locale
+      doNotTranslate: z.array(z.string().min(1).max(100)).max(200).optional(),
+      narrate: z.boolean().default(true),
+      render: z.boolean().default(true),
+      provider: llmProviderNameSchema.optional(),
+      author: z.string().min(1).max(100).default('anonymous'),
+      jobId: z.string().max(100).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const { jobId } = input;
+      const master = loadProject(input.projectId);
+      if (!master.storyboard) {
+        throw new TRPCError({ code: 'PRECONDITION_FAILED', message: `Project ${master.id} has no storyboard to localize` });
+      }
+      if (master.masterProjectId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Localize the master project, not one of its variants' });
+      }
+
+      const provider = getLLMProvider(input.provider ?? master.llmProvider);
+      if (!provider) {
+        throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'No LLM provider configured for translation' });
+      }
+
+      const doNotTranslate = input.doNotTranslate ?? master.doNotTranslate ?? [];
+      updateProject(master.id, { doNotTranslate });
+
+      const masterLanguage = normalizeLanguage(master.storyboard.language);
+      const languages = [...new Set(input.languages)].filter((code) => code !== masterLanguage);
+      const existing = new Map(listLocalizations(master.id).map((p) => [p.language, p.id]));
+      const steps = 1 + Number(input.narrate) + Number(input.narrate && input.render);
+      const total = languages.length * steps;
+      let step = 0;
+      const report = (message: string) =>
+        reportProgress(jobId, { stage: 'localize', current: ++step, total, message });
+
+      console.log(`[Localize] ${master.id} (${masterLanguage}) → ${languages.join(', ')} with ${provider.name}/${provider.model}`);
+
+      let serveUrl: string | undefined;
+      const results: LocaleResult[] = [];
+
+      try {
+        for (const language of languages) {
+          const name = LANGUAGES[language].name;
+          const result: LocaleResult = {
+            language,
+            projectId: null,
+            versionNumber: null,
+            videoUrl: null,
+            missingTerms: 0,
+            error: null,
+          };
+          results.push(result);
+
+          try {
+            report(`Translating into ${name}`);
+            const translated = await translateStoryboard({
+              provider,
+              storyboard: master.storyboard,
+              language,
+              doNotTranslate,
+            });
+            result.missingTerms = translated.missingTerms;
+
+            // An existing variant picks up the master's current brief, glossary and
+            // voices too. B-roll is language-neutral, so variants share the master's clips.
+            const settings = { ...projectSettings(master), language, doNotTranslate };
+            const variantId =
+              existing.get(language) ??
+              createProject({
+                ...settings,
+                name: `${master.name} (${LANGUAGES[language].nativeName})`,
+                masterProjectId: master.id,
+              }).id;
+            updateProject(variantId, { ...settings, broll: master.broll, narration: null });
+
+            const committed = commitStoryboardVersion(variantId, {
+              storyboard: translated.storyboard,
+              author: input.author,
+              source: 'localized',
+              note: `Translated from "${master.name}" v${master.versions.find((v) => v.id === master.currentVersionId)?.number ?? '?'}`,
+            })!;
+            result.projectId = variantId;
+            result.versionNumber = committed.version.number;
+
+            if (!input.narrate) continue;
+
+            report(`Narrating ${name}`);
+            // Voices made for the master's language fall back to the engine's voice for this one
+            const narration = await synthesizeSegments(narrationScript(translated.storyboard), language, {
+              voices: master.voices,
+              engine: master.ttsProvider,
+            });
+            const quizAudio = await synthesizeQuizNarration(
+              translated.storyboard.quiz,
+              getSpeaker(voiceForScene(master.voices, null, language), language, master.ttsProvider)
+            );
+            updateProject(variantId, {
+              narration: {
+                audioUrl: null,
+                segments: narration.segments,
+                totalDuration: narration.totalDuration,
+                quiz: quizAudio,
+              },
+            });
+
+            if (!input.render) continue;
+
+            report(`Rendering ${name} video`);
+            serveUrl ??= await bundleComposition();
+            const rendered = await renderStoryboard(
+              {
+                storyboard: translated.storyboard,
+                segments: narration.segments,
+                quizAudio,
+                brollClips: master.broll?.clips,
+              },
+              serveUrl
+            );
+            addProjectRender(variantId, {
+              videoUrl: rendered.videoUrl,
+              duration: rendered.duration,
+              versionId: committed.version.id,
+            });
+            result.videoUrl = rendered.videoUrl;
+          } catch (error) {
+            console.error(`[Localize] ${language} failed:`, error);
+            result.error = error instanceof Error ? error.message : 'Localization failed';
+          }
+        }
+      } finally {
+        finishProgress(jobId);
+      }
+
+      console.log(`[Localize] Done: ${results.filter((r) => !r.error).length}/${results.length} locales`);
+      return { masterLanguage, results };
+    }),
+});
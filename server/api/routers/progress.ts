@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc';
+import { watchProgress } from '../../lib/progress';
+
+export const progressRouter = router({
+  // Streams a job's pipeline events over SSE; the job id is the one the
+  // client passed to the mutation (structure.generate, audioSegments.generateSegments, …)
+  watch: publicProcedure
+    .input(z.object({ jobId: z.string().max(100) }))
+    .subscription(async function* ({ input, signal }) {
+      yield* watchProgress(input.jobId, signal);
+    }),
+});
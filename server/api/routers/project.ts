@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure } from '../trpc';
+import {
+  createProject,
+  deleteProject,
+  getProject,
+  listProjects,
+  projectIdSchema,
+  projectPatchSchema,
+  updateProject,
+} from '../../db/projects';
+
+const projectInputSchema = z.object({ id: projectIdSchema });
+
+function notFound(id: string): never {
+  throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${id} not found` });
+}
+
+export const projectRouter = router({
+  create: publicProcedure
+    .input(projectPatchSchema.extend({ name: z.string().min(1).max(200) }))
+    .mutation(({ input }) => createProject(input)),
+
+  get: publicProcedure
+    .input(projectInputSchema)
+    .query(({ input }) => getProject(input.id) ?? notFound(input.id)),
+
+  list: publicProcedure.query(() => listProjects()),
+
+  update: publicProcedure
+    .input(projectInputSchema.extend({ patch: projectPatchSchema }))
+    .mutation(({ input }) => updateProject(input.id, input.patch) ?? notFound(input.id)),
+
+  delete: publicProcedure
+    .input(projectInputSchema)
+    .mutation(({ input }) => {
+      if (!deleteProject(input.id)) notFound(input.id);
+      return { id: input.id };
+    }),
+});
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc';
+import { storyboardWithConceptsSchema } from '../../../lib/storyboard';
+import { parseStoryboardFile, serializeStoryboard, STORYBOARD_FORMATS } from '../../lib/storyboardFile';
+
+export const storyboardFileRouter = router({
+  // Storyboard → file content the page offers as a download
+  export: publicProcedure
+    .input(z.object({ storyboard: storyboardWithConceptsSchema, format: z.enum(STORYBOARD_FORMATS) }))
+    .mutation(({ input }) => {
+      const { storyboard, format } = input;
+      const name = storyboard.title.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || 'storyboard';
+      return {
+        content: serializeStoryboard(storyboard, format),
+        fileName: `${name}.storyboard.${format}`,
+        mimeType: format === 'json' ? 'application/json' : 'application/yaml',
+      };
+    }),
+
+  // File content → validated storyboard; errors name each bad field's path and line
+  import: publicProcedure
+    .input(z.object({ content: z.string().max(5_000_000) }))
+    .mutation(({ input }) => {
+      const result = parseStoryboardFile(input.content);
+      console.log(`[StoryboardFile] Imported "${result.storyboard.title}"`);
+      return result;
+    }),
+});
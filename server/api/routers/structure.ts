@@ -1,285 +1,612 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { router, publicProcedure } from "../trpc";
-import OpenAI from "openai";
-
-const storyboardSchema = z.object({
-  title: z.string(),
-  language: z.string(),
-  intro: z.string(),
-  overview: z.array(z.string()).length(3),
-  modules: z
-    .array(
-      z.object({
-        title: z.string(),
-        points: z.array(z.string()).length(3),
-      })
-    )
-    .length(3),
-  summary: z.string(),
-  quiz: z
-    .array(
-      z.object({
-        q: z.string(),
-        a: z.array(z.string()).length(3),
-        correct: z.number().int().min(0).max(2),
-      })
-    )
-    .length(3),
-});
+import { getLLMProvider, generateStructured, llmProviderNameSchema } from "../../llm";
+import { documentHeadingSchema, type DocumentHeading } from "../../ingest/types";
+import { condenseForStoryboard, outlineCourse } from "../../llm/mapReduce";
+import { finishProgress, reportProgress } from "../../lib/progress";
+import { estimateDuration, planForDuration, type LengthPlan } from "../../lib/lengthPlan";
+import { lintStoryboard } from "../../lib/scriptLint";
+import { getSpeaker, ttsProviderNameSchema } from "../../tts";
+import { isGrounded, locateQuote, traceablePaths, type SourceRef } from "../../../lib/sourceSpans";
+import { LANGUAGE_CODES, LANGUAGES, normalizeLanguage } from "../../../lib/languages";
+import { QUIZ_TYPES, findUnsupportedQuestions, type QuizType } from "../../../lib/quiz";
+import { READING_LEVELS, generationBriefSchema, type GenerationBrief } from "../../../lib/brief";
+import { voiceForScene, voiceLibrarySchema } from "../../../lib/voices";
+import {
+  applyGlossary,
+  glossaryInputSchema,
+  isGlossaryEmpty,
+  type Glossary,
+  type GlossaryViolation,
+} from "../../../lib/glossary";
+import {
+  alignVisualPlan,
+  moduleSceneId,
+  sceneVisualSchema,
+  storyboardSceneIds,
+  SCENE_ICONS,
+} from "../../../lib/visualPlan";
+import {
+  DEFAULT_STORYBOARD_LIMITS,
+  buildModuleSchema,
+  buildQuizQuestionSchema,
+  buildStoryboardSchema,
+  describeRange,
+  refineQuizModules,
+  storyboardLimitsSchema,
+  storyboardSchema,
+  storyboardWithConceptsSchema,
+  type Storyboard,
+  type StoryboardLimits,
+  type StoryboardWithConcepts,
+} from "../../../lib/storyboard";
 
-export type Storyboard = z.infer<typeof storyboardSchema>;
+// What the model returns for sources: field paths with verbatim quotes, which
+// resolveSources then locates in the input text.
+const rawSourcesSchema = z.array(
+  z.object({
+    path: z.string(),
+    quotes: z.array(z.string()),
+  })
+);
 
-// Extended storyboard with module concepts for B-roll generation
-export type StoryboardWithConcepts = Storyboard & {
-  moduleConcepts: string[];
-};
+// Only the notes' quotes are the document's own words; anything else quoted
+// from condensed notes can't be found in the source and shows as unverified
+const CONDENSED_QUOTES_HINT = `Copy "sources" quotes only from the "Quote:" lines of the notes, which are verbatim from the document.`;
 
-// OPTIONAL (if this file can ever run in Next.js Edge, force Node in the route file instead):
-// export const runtime = "nodejs";
+// Heading outline of an uploaded document, indented by level
+function describeOutline(outline: DocumentHeading[]) {
+  return outline.map((h) => `${"  ".repeat(h.level - 1)}- ${h.text}`).join("\n");
+}
+
+/**
+ * Keeps citations for real traceable fields only and locates each quote in
+ * the source text. Quotes that can't be found keep null offsets so reviewers
+ * see them as unverified instead of silently losing them.
+ */
+function resolveSources(
+  storyboard: Pick<Storyboard, "overview" | "modules" | "summary" | "quiz">,
+  raw: z.infer<typeof rawSourcesSchema>,
+  sourceText: string
+): SourceRef[] {
+  const paths = new Set(traceablePaths(storyboard));
+  const resolved = raw
+    .filter((ref) => paths.has(ref.path))
+    .map((ref) => ({
+      path: ref.path,
+      quotes: ref.quotes.map((quote) => {
+        const span = locateQuote(sourceText, quote);
+        return { text: quote, start: span?.start ?? null, end: span?.end ?? null };
+      }),
+    }));
+
+  const grounded = resolved.filter(isGrounded).length;
+  console.log(`[Sources] ${grounded}/${paths.size} fields grounded in source text (${raw.length - resolved.length} invalid paths dropped)`);
+  return resolved;
+}
+
+// Question types the model may use, and what each field means for them
+function describeQuizRules(quizTypes: QuizType[], limits: StoryboardLimits) {
+  const rules: Record<QuizType, string> = {
+    multiple_choice: `"multiple_choice": ${describeRange(limits.options, "options")}, exactly one correct`,
+    multi_select: `"multi_select": ${describeRange(limits.options, "options")}, one or more correct`,
+    true_false: `"true_false": exactly two options, "True" and "False" in the output language, one correct`,
+    ordering: `"ordering": ${describeRange(limits.options, "steps")} as options; "correct" lists every option index in the right sequence`,
+  };
+  return `Quiz questions use these types (mix them): ${quizTypes.map((t) => rules[t]).join("; ")}.
+Every question sets "moduleIndex" to the 0-based module it tests, and its correct answer must be taught in that module's points. Give each option "feedback" explaining why it is right or wrong, and an overall "explanation".`;
+}
+
+// Audience, tone and reading level as writing instructions
+function describeBrief(brief: GenerationBrief | undefined) {
+  const audiences = {
+    frontline: "frontline staff: concrete situations from daily work and what to do, no management jargon",
+    managers: "team managers: what their team must do, what they are accountable for and how to enforce it",
+    executives: "executives: risk, liability and business impact, kept brief and high level",
+  };
+  const tones = {
+    formal: "formal and neutral",
+    friendly: "friendly and encouraging, addressing the viewer directly",
+    urgent: "urgent and direct, stressing consequences and deadlines",
+  };
+  const levels = {
+    plain: "plain language: short sentences, everyday words, explain every technical term",
+    standard: "standard business language",
+    specialist: "specialist language: precise terminology, no need to explain basics",
+  };
+  const rules = [
+    brief?.audience && `Audience: ${audiences[brief.audience]}.`,
+    brief?.tone && `Tone: ${tones[brief.tone]}.`,
+    brief?.readingLevel && `Reading level: ${levels[brief.readingLevel]}.`,
+  ].filter(Boolean);
+  return rules.length ? `\n${rules.join("\n")}` : "";
+}
+
+// Word budget that makes the narration fit the target length
+function describeLength(plan: LengthPlan) {
+  return `\nThe video should run about ${plan.targetSeconds} seconds including the quiz, which leaves about ${plan.narrationSeconds} seconds of narration. The narrated lines are the intro, each overview item, each module point and the summary: write each as one spoken sentence of about ${plan.wordsPerLine} words.`;
+}
+
+// Wording rules; the output is also checked and fixed afterwards (applyGlossary)
+function describeGlossary(glossary: Glossary | undefined) {
+  if (!glossary || isGlossaryEmpty(glossary)) return "";
+  const required = glossary.required.filter((t) => t.trim());
+  const forbidden = glossary.forbidden
+    .filter((f) => f.term.trim())
+    .map((f) => (f.replacement ? `"${f.term}" (write "${f.replacement}" instead)` : `"${f.term}"`));
+  const rules = [
+    required.length && `Always write these terms exactly as given: ${required.map((t) => `"${t}"`).join(", ")}.`,
+    forbidden.length && `Never use these terms: ${forbidden.join(", ")}.`,
+  ].filter(Boolean);
+  return `\n${rules.join("\n")}`;
+}
+
+function logGlossary(fixed: number, violations: GlossaryViolation[]) {
+  if (fixed) console.log(`[Glossary] Fixed ${fixed} term(s)`);
+  for (const v of violations) {
+    console.warn(`[Glossary] ${v.path}: "${v.found}" ${v.kind === "forbidden" ? "is not allowed" : `should be "${v.expected}"`}`);
+  }
+}
+
+// One regenerable part of a storyboard
+const storyboardSectionSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("intro") }),
+  z.object({ kind: z.literal("module"), index: z.number().int().min(0) }),
+  z.object({ kind: z.literal("summary") }),
+  z.object({ kind: z.literal("quiz"), index: z.number().int().min(0) }),
+]);
+
+export type StoryboardSection = z.infer<typeof storyboardSectionSchema>;
 
-function safeFingerprint(key: string) {
-  const k = key.trim();
-  const first = k.slice(0, 8);
-  const last = k.slice(-4);
-  return `${first}…${last}`;
+// Source paths owned by a section, e.g. every "modules[1].points[n]"
+function ownsPath(section: StoryboardSection, path: string) {
+  switch (section.kind) {
+    case "intro":
+      return false;
+    case "module":
+      return path.startsWith(`modules[${section.index}].`);
+    case "summary":
+      return path === "summary";
+    case "quiz":
+      return path === `quiz[${section.index}]`;
+  }
+}
+
+// Text paths (lib/glossary) that belong to a section, e.g. "quiz[1].options[0].text"
+function ownsTextPath(section: StoryboardSection, path: string) {
+  switch (section.kind) {
+    case "intro":
+    case "summary":
+      return path === section.kind;
+    case "module":
+      return path.startsWith(`modules[${section.index}].`);
+    case "quiz":
+      return path.startsWith(`quiz[${section.index}].`);
+  }
 }
 
-function getOpenAIClient() {
-  const rawKey = process.env.OPENAI_API_KEY;
-  if (!rawKey) {
-    console.warn("No OPENAI_API_KEY in env; using fallback.");
-    return null;
+function sectionValue(storyboard: StoryboardWithConcepts, section: StoryboardSection): unknown {
+  switch (section.kind) {
+    case "intro":
+    case "summary":
+      return storyboard[section.kind];
+    case "module":
+      return storyboard.modules[section.index];
+    case "quiz":
+      return storyboard.quiz[section.index];
   }
-  const trimmed = rawKey.trim();
-
-  // Basic sanity on length — project keys are typically ~150+ chars.
-  const len = trimmed.length;
-  console.log(
-    "[OpenAI] Using key fingerprint:",
-    safeFingerprint(trimmed),
-    "length:",
-    len
-  );
-
-  // If you (or a lib) set OPENAI_BASE_URL/OPENAI_API_BASE accidentally, this forces the official endpoint.
-  return new OpenAI({
-    apiKey: trimmed,
-    baseURL: "https://api.openai.com/v1",
-    // Do NOT set organization/project unless you must. Leaving them unset avoids scope mismatches.
-    // organization: undefined,
-    // project: undefined,
-  });
 }
 
+function replaceSection(
+  storyboard: StoryboardWithConcepts,
+  section: StoryboardSection,
+  value: unknown
+): StoryboardWithConcepts {
+  switch (section.kind) {
+    case "intro":
+    case "summary":
+      return { ...storyboard, [section.kind]: value as string };
+    case "module":
+      return {
+        ...storyboard,
+        modules: storyboard.modules.map((m, i) => (i === section.index ? (value as Storyboard["modules"][number]) : m)),
+      };
+    case "quiz":
+      return {
+        ...storyboard,
+        quiz: storyboard.quiz.map((q, i) => (i === section.index ? (value as Storyboard["quiz"][number]) : q)),
+      };
+  }
+}
+
+function describeSection(section: StoryboardSection) {
+  switch (section.kind) {
+    case "intro":
+    case "summary":
+      return section.kind;
+    case "module":
+      return `module ${section.index + 1}`;
+    case "quiz":
+      return `quiz question ${section.index + 1}`;
+  }
+}
+
+// OPTIONAL (if this file can ever run in Next.js Edge, force Node in the route file instead):
+// export const runtime = "nodejs";
+
 export const structureRouter = router({
   generate: publicProcedure
     .input(
       z.object({
         text: z.string().min(20),
         defaultStyle: z.enum(["office", "checklist", "security"]).optional(),
+        limits: storyboardLimitsSchema.default(DEFAULT_STORYBOARD_LIMITS),
+        provider: llmProviderNameSchema.optional(),
+        outline: z.array(documentHeadingSchema).max(300).optional(),
+        // Narration and on-screen language; omitted means "same as the source text"
+        language: z.enum(LANGUAGE_CODES).optional(),
+        quizTypes: z.array(z.enum(QUIZ_TYPES)).min(1).default([...QUIZ_TYPES]),
+        brief: generationBriefSchema.optional(),
+        glossary: glossaryInputSchema.optional(),
+        // Who will narrate, so a target length is planned at that voice's pace
+        voice: ttsProviderNameSchema.optional(),
+        voices: voiceLibrarySchema.optional(),
+        // Ask the model again instead of returning the cached reply for the same request
+        fresh: z.boolean().default(false),
+        // Client-chosen id for progress.watch
+        jobId: z.string().max(100).optional(),
       })
     )
     .mutation(async ({ input }) => {
-      const openai = getOpenAIClient();
-      if (!openai) {
+      const { jobId, brief } = input;
+      // Paced by the project's default voice; scenes with their own voice may differ a little
+      const speakerFor = (language: string) =>
+        getSpeaker(voiceForScene(input.voices, null, language), language, input.voice);
+      // A target length decides how many scenes and quiz questions there are
+      let plan: LengthPlan | null = null;
+      try {
+        plan = brief?.targetSeconds
+          ? planForDuration(
+              brief.targetSeconds,
+              input.language ?? "en",
+              input.limits.quiz,
+              speakerFor(input.language ?? "en")
+            )
+          : null;
+      } catch (error) {
+        finishProgress(jobId);
+        throw error;
+      }
+      const limits: StoryboardLimits = plan
+        ? {
+            ...input.limits,
+            overview: { min: plan.overview, max: plan.overview },
+            modules: { min: plan.modules, max: plan.modules },
+            points: { min: plan.points, max: plan.points },
+            quiz: { min: plan.quiz, max: plan.quiz },
+          }
+        : input.limits;
+      if (plan) {
+        console.log(
+          `[Length] Target ${plan.targetSeconds}s at ${plan.wordsPerSecond.toFixed(2)} words/s (${plan.measured ? "measured" : "default"}): ` +
+            `${plan.modules} modules × ${plan.points} points, ~${plan.wordsPerLine} words per line, ${plan.quiz} quiz questions`
+        );
+      }
+
+      const provider = getLLMProvider(input.provider, { fresh: input.fresh });
+      if (!provider) {
+        finishProgress(jobId);
         return getFallbackStoryboard();
       }
 
       try {
-        // 1) Same-process auth sanity check. If THIS throws 401,
-        // your runtime isn't actually reading the same key your curl used.
-        const models = await openai.models.list();
-        console.log("[OpenAI] models.list() ok, e.g.:", models.data[0]?.id);
+        await provider.verify?.();
+        console.log(`[LLM] Generating storyboard with ${provider.name}/${provider.model}`);
 
-        // 2) Now do the real call
-        const model = process.env.OPENAI_MODEL || "gpt-4o"; // keep your default
+        // Long documents are summarized section by section first (map), and
+        // the storyboard is generated from the combined notes (reduce)
+        const condensed = await condenseForStoryboard({ provider, text: input.text, jobId });
+        const sourceHint = condensed.chunks
+          ? `\nThe text below is a set of section notes condensed from a long document (${condensed.chunks} parts). Cover all sections in one coherent storyboard. ${CONDENSED_QUOTES_HINT}`
+          : "";
 
-        const response = await openai.chat.completions.create({
-          model,
+        reportProgress(jobId, { stage: "storyboard", current: 1, total: 2, message: "Generating storyboard" });
+
+        const outlineHint = input.outline?.length
+          ? `\nThe source document is organized under these headings; use them as a guide for module boundaries and titles:\n${describeOutline(input.outline)}`
+          : "";
+
+        const languageInstruction = input.language
+          ? `All output must be in ${LANGUAGES[input.language].name}, even if the policy text is written in another language. Set "language" to "${input.language}".`
+          : `Write all output in the language of the policy text and set "language" to its ISO 639-1 code.`;
+
+        const generated = await generateStructured({
+          provider,
+          name: "storyboard",
           messages: [
             {
               role: "system",
               content:
-                "You are an instructional designer. Structure the policy text into an engaging training storyboard. IMPORTANT: All output must be in English.",
+                `You are an instructional designer. Structure the policy text into an engaging training storyboard. IMPORTANT: ${languageInstruction}`,
             },
             {
               role: "user",
-              content: `Structure the following policy text into a training storyboard in English. Create clear, concise content optimized for video narration.\n\nText: ${input.text}`,
+              content: `Structure the following policy text into a training storyboard. Create clear, concise content optimized for video narration.
+Use ${describeRange(limits.overview, "overview items")}, ${describeRange(limits.modules, "modules")} with ${describeRange(limits.points, "points")} each, and ${describeRange(limits.quiz, "quiz questions")}. Scale the number of modules to the length of the text.${outlineHint}${sourceHint}
+${describeQuizRules(input.quizTypes, limits)}${describeBrief(brief)}${describeGlossary(input.glossary)}${plan ? describeLength(plan) : ""}
+For traceability, add one "sources" entry for every overview item, module point, the summary and every quiz question, with its path ("overview[0]", "modules[1].points[2]", "summary", "quiz[0]") and one or two short quotes copied verbatim from the text that support it, in the text's original language.\n\nText: ${condensed.text}`,
             },
           ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "storyboard",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  language: { type: "string" },
-                  intro: { type: "string" },
-                  overview: {
-                    type: "array",
-                    items: { type: "string" },
-                    minItems: 3,
-                    maxItems: 3,
-                  },
-                  modules: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        title: { type: "string" },
-                        points: {
-                          type: "array",
-                          items: { type: "string" },
-                          minItems: 3,
-                          maxItems: 3,
-                        },
-                      },
-                      required: ["title", "points"],
-                      additionalProperties: false,
-                    },
-                    minItems: 3,
-                    maxItems: 3,
-                  },
-                  summary: { type: "string" },
-                  quiz: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        q: { type: "string" },
-                        a: {
-                          type: "array",
-                          items: { type: "string" },
-                          minItems: 3,
-                          maxItems: 3,
-                        },
-                        correct: { type: "integer", minimum: 0, maximum: 2 },
-                      },
-                      required: ["q", "a", "correct"],
-                      additionalProperties: false,
-                    },
-                    minItems: 3,
-                    maxItems: 3,
-                  },
-                },
-                required: ["title", "language", "intro", "overview", "modules", "summary", "quiz"],
-                additionalProperties: false,
-              },
-            },
-          },
+          schema: buildStoryboardSchema(limits, input.quizTypes)
+            .extend({ sources: rawSourcesSchema })
+            .superRefine(refineQuizModules),
           temperature: 0.7,
         });
 
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          console.warn("No content in OpenAI response; using fallback.");
+        if (!generated) {
+          console.warn("No valid storyboard from provider; using fallback.");
           return getFallbackStoryboard();
         }
 
-        // Log content length for debugging
-        console.log(`[OpenAI] Response content length: ${content.length} chars`);
-        if (content.length > 10000) {
-          console.warn(`[OpenAI] Response suspiciously large (${content.length} chars), first 500 chars:`, content.substring(0, 500));
+        let storyboard: Storyboard = {
+          ...generated,
+          language: input.language ?? normalizeLanguage(generated.language),
+          sources: resolveSources(generated, generated.sources, input.text),
+        };
+        if (input.glossary) {
+          // Fixed before narration; what can't be fixed is flagged on the page
+          const checked = applyGlossary(storyboard, input.glossary);
+          storyboard = checked.storyboard;
+          logGlossary(checked.fixed, checked.violations);
         }
 
-        let jsonContent;
-        try {
-          jsonContent = JSON.parse(content);
-        } catch (parseError) {
-          console.error("[OpenAI] JSON parse error:", parseError);
-          console.error("[OpenAI] Content that failed to parse (first 1000 chars):", content.substring(0, 1000));
-          return getFallbackStoryboard();
+        for (const issue of findUnsupportedQuestions(storyboard)) {
+          console.warn(`[Quiz] Question ${issue.index + 1} ${issue.message}`);
         }
-
-        const parsed = storyboardSchema.safeParse(jsonContent);
-        if (!parsed.success) {
-          console.warn(
-            "Invalid schema from OpenAI; using fallback:",
-            parsed.error
-          );
-          return getFallbackStoryboard();
+        if (plan) {
+          console.log(`[Length] Estimated ${estimateDuration(storyboard, storyboard.language, speakerFor(storyboard.language))}s for a ${plan.targetSeconds}s target`);
         }
 
-        const storyboard = parsed.data;
+        const sceneIds = storyboardSceneIds(storyboard);
 
-        // Generate semantic concepts for B-roll using GPT
-        console.log("[OpenAI] Generating semantic concepts for B-roll...");
+        // One visual per scene: B-roll prompt, framing and card icons
+        reportProgress(jobId, {
+          stage: "storyboard",
+          current: 2,
+          total: 2,
+          message: "Planning visuals",
+          partial: { kind: "storyboard", storyboard },
+        });
+        console.log("[LLM] Planning visuals for", sceneIds.length, "scenes...");
         try {
-          const conceptResponse = await openai.chat.completions.create({
-            model,
+          const planData = await generateStructured({
+            provider,
+            name: "visual_plan",
             messages: [
               {
                 role: "system",
-                content: `Generate ultra-simple visual descriptions (<10 words) for AI video generation.
-Only describe concrete, tangible objects: desk, laptop, office, documents, screen, keyboard.
-AVOID: colors, lighting, mood, weather, abstract concepts, adjectives like "neutral", "minimal", "clean".
-Format: "[object] with [object]" - Example: "office desk with laptop and documents"
-Return a JSON array of 5 strings.`
+                content: `You plan the visuals of a corporate training video, one entry per scene.
+brollPrompt: an ultra-simple description (<10 words) of a background clip for AI video generation. Only concrete, tangible objects: desk, laptop, office, documents, screen, keyboard. AVOID colors, lighting, mood, weather, abstract concepts and adjectives like "neutral", "minimal", "clean". Format: "[object] with [object]", e.g. "office desk with laptop and documents". Always in English, whatever the language of the scenes.
+shotType and cameraMotion: framing and movement of the clip; vary them between neighbouring scenes.
+icons: up to 3 icons for the scene's card that match its content, from: ${SCENE_ICONS.join(", ")}.
+Return exactly one entry for each of these scene ids, in order: ${sceneIds.join(", ")}.`
               },
               {
                 role: "user",
-                content: `Intro: ${storyboard.intro}\n\nModules: ${JSON.stringify(storyboard.modules.map(m => ({ title: m.title, points: m.points })))}\n\nSummary: ${storyboard.summary}`
+                content: `Scenes: ${JSON.stringify({
+                  intro: { title: storyboard.title, text: storyboard.intro },
+                  overview: storyboard.overview,
+                  ...Object.fromEntries(storyboard.modules.map((m, i) => [moduleSceneId(i), { title: m.title, points: m.points }])),
+                  summary: storyboard.summary,
+                })}`
               }
             ],
-            response_format: {
-              type: "json_schema",
-              json_schema: {
-                name: "concepts",
-                strict: true,
-                schema: {
-                  type: "object",
-                  properties: {
-                    concepts: {
-                      type: "array",
-                      items: { type: "string" },
-                      minItems: 5,
-                      maxItems: 5
-                    }
-                  },
-                  required: ["concepts"],
-                  additionalProperties: false
-                }
-              }
-            },
+            schema: z.object({
+              scenes: z
+                .array(sceneVisualSchema.extend({ sceneId: z.enum(sceneIds as [string, ...string[]]) }))
+                .length(sceneIds.length),
+            }),
             temperature: 0.3
           });
 
-          const conceptContent = conceptResponse.choices[0]?.message?.content;
-          if (conceptContent) {
-            const conceptData = JSON.parse(conceptContent);
-            console.log("[OpenAI] Generated B-roll concepts:", conceptData.concepts);
-            return {
-              ...storyboard,
-              moduleConcepts: conceptData.concepts
-            } as StoryboardWithConcepts;
+          if (planData) {
+            const visualPlan = alignVisualPlan(
+              Object.fromEntries(planData.scenes.map(({ sceneId, ...visual }) => [sceneId, visual])),
+              storyboard
+            );
+            console.log("[LLM] Visual plan:", Object.entries(visualPlan).map(([id, v]) => `${id}: ${v.brollPrompt}`));
+            return { ...storyboard, visualPlan } as StoryboardWithConcepts;
           }
         } catch (error) {
-          console.warn("[OpenAI] Concept generation failed, using fallback concepts:", error);
+          console.warn("[LLM] Visual planning failed, using generic visuals:", error);
         }
 
-        // Fallback: use short generic concepts for reliable Runway generation
-        return {
-          ...storyboard,
-          moduleConcepts: [
-            "clean modern office with data screens",
-            "professional workspace with documents",
-            "simple digital interface with buttons",
-            "corporate meeting room with laptops",
-            "organized desk with business materials"
-          ]
-        } as StoryboardWithConcepts;
+        // Fallback: generic visuals that Runway renders reliably
+        return { ...storyboard, visualPlan: alignVisualPlan(null, storyboard) } as StoryboardWithConcepts;
       } catch (error) {
-        console.error("OpenAI API error, using fallback:", error);
+        // Input the model can't take (e.g. a document too long to condense) is for the caller to fix
+        if (error instanceof TRPCError) throw error;
+        console.error("LLM provider error, using fallback:", error);
         return getFallbackStoryboard();
+      } finally {
+        finishProgress(jobId);
+      }
+    }),
+
+  /**
+   * Rewrites one section (intro, a module, the summary or a quiz question)
+   * and leaves everything else untouched, including the visual plan, so the
+   * narration and B-roll of the other sections can be kept.
+   */
+  regenerateSection: publicProcedure
+    .input(
+      z.object({
+        text: z.string().min(20),
+        storyboard: storyboardWithConceptsSchema.superRefine(refineQuizModules),
+        section: storyboardSectionSchema,
+        // Reviewer direction, e.g. "make this more concrete"
+        guidance: z.string().max(1000).optional(),
+        // Length is fixed by the rest of the storyboard; only the voice applies
+        brief: generationBriefSchema.omit({ targetSeconds: true }).optional(),
+        glossary: glossaryInputSchema.optional(),
+        limits: storyboardLimitsSchema.default(DEFAULT_STORYBOARD_LIMITS),
+        quizTypes: z.array(z.enum(QUIZ_TYPES)).min(1).default([...QUIZ_TYPES]),
+        provider: llmProviderNameSchema.optional(),
+        // As in generate
+        fresh: z.boolean().default(false),
+        jobId: z.string().max(100).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { storyboard, section, limits, jobId } = input;
+      const provider = getLLMProvider(input.provider, { fresh: input.fresh });
+      if (!provider) {
+        throw new Error("No LLM provider configured for regeneration");
+      }
+      if (section.kind === "module" && section.index >= storyboard.modules.length) {
+        throw new Error(`Storyboard has no module ${section.index + 1}`);
+      }
+      if (section.kind === "quiz" && section.index >= storyboard.quiz.length) {
+        throw new Error(`Storyboard has no quiz question ${section.index + 1}`);
+      }
+
+      const label = describeSection(section);
+      const moduleCount = storyboard.modules.length;
+      // What the model sees of the rest: the content without citations or concepts
+      const { title, language, intro, overview, modules, summary, quiz } = storyboard;
+      const context = { title, language, intro, overview, modules, summary, quiz };
+
+      try {
+        await provider.verify?.();
+        console.log(`[LLM] Regenerating ${label} with ${provider.name}/${provider.model}`);
+        const condensed = await condenseForStoryboard({ provider, text: input.text, jobId });
+        reportProgress(jobId, { stage: "storyboard", current: 1, total: 1, message: `Regenerating ${label}` });
+
+        let task: string;
+        let schema: z.ZodType<{ value: unknown; sources?: z.infer<typeof rawSourcesSchema> }>;
+        switch (section.kind) {
+          case "intro":
+            task = `Rewrite the intro: one or two sentences on why the topic matters, about as long as the current one.`;
+            schema = z.object({ value: z.string().min(1) });
+            break;
+          case "summary":
+            task = `Rewrite the summary so it recaps the modules, about as long as the current one. Add "sources" for the path "summary".`;
+            schema = z.object({ value: z.string().min(1), sources: rawSourcesSchema });
+            break;
+          case "module": {
+            // Same number of points, so the video keeps its length and scene timing
+            const pointCount = storyboard.modules[section.index].points.length;
+            const pointRange = { min: pointCount, max: pointCount };
+            task = `Rewrite module ${section.index + 1} ("${storyboard.modules[section.index].title}") with ${describeRange(pointRange, "points")} of about the same length as now. It must keep covering the same part of the text and not repeat the other modules. Add "sources" for each of its points, with paths "modules[${section.index}].points[0]" and so on.`;
+            schema = z.object({ value: buildModuleSchema(pointRange), sources: rawSourcesSchema });
+            break;
+          }
+          case "quiz": {
+            const current = storyboard.quiz[section.index];
+            task = `Write a replacement for quiz question ${section.index + 1} ("${current.q}"). Keep it a ${current.type} question${current.moduleIndex === null ? "" : ` testing module ${current.moduleIndex + 1} (moduleIndex ${current.moduleIndex})`} unless the guidance asks otherwise, and don't duplicate the other questions.
+${describeQuizRules(input.quizTypes, limits)}
+Add "sources" for the path "quiz[${section.index}]".`;
+            schema = z.object({
+              value: buildQuizQuestionSchema({ optionRange: limits.options, quizTypes: input.quizTypes, moduleCount }),
+              sources: rawSourcesSchema,
+            });
+            break;
+          }
+        }
+
+        const guidance = input.guidance?.trim() ? `\nReviewer guidance for this rewrite: ${input.guidance.trim()}` : "";
+        const generated = await generateStructured({
+          provider,
+          name: "storyboard_section",
+          messages: [
+            {
+              role: "system",
+              content: `You are an instructional designer revising one section of an existing training storyboard. IMPORTANT: Write in ${LANGUAGES[normalizeLanguage(storyboard.language)].name}, the language of the storyboard. Quotes in "sources" are copied verbatim from the policy text, in its original language.`,
+            },
+            {
+              role: "user",
+              content: `Current storyboard:\n${JSON.stringify(context)}\n\n${task}${describeBrief(input.brief)}${describeGlossary(input.glossary)}${guidance}${condensed.chunks ? `\nThe text is a set of section notes condensed from a long document. ${CONDENSED_QUOTES_HINT}` : ""}\nReturn the new content as "value".\n\nText: ${condensed.text}`,
+            },
+          ],
+          schema,
+          temperature: 0.7,
+        });
+
+        if (!generated) {
+          throw new Error(`The model returned no valid ${label}`);
+        }
+
+        let next = replaceSection(storyboard, section, generated.value);
+        if (input.glossary) {
+          // Only the new section is held to the glossary; the rest stays as reviewed
+          const checked = applyGlossary(next, input.glossary);
+          next = replaceSection(next, section, sectionValue(checked.storyboard, section));
+          logGlossary(checked.fixed, checked.violations.filter((v) => ownsTextPath(section, v.path)));
+        }
+
+        // Citations of the rewritten section are replaced, all others kept
+        if (storyboard.sources) {
+          const raw = (generated.sources ?? []).filter((ref) => ownsPath(section, ref.path));
+          const fresh = resolveSources(next, raw, input.text);
+          next.sources = [...storyboard.sources.filter((ref) => !ownsPath(section, ref.path)), ...fresh];
+        }
+
+        if (section.kind === "quiz") {
+          for (const issue of findUnsupportedQuestions(next).filter((issue) => issue.index === section.index)) {
+            console.warn(`[Quiz] Question ${issue.index + 1} ${issue.message}`);
+          }
+        }
+
+        return next;
+      } finally {
+        finishProgress(jobId);
+      }
+    }),
+
+  // Readability, on-screen length and narration-fit warnings; a mutation
+  // because the storyboard is too large for a query string
+  lint: publicProcedure
+    .input(
+      z.object({
+        storyboard: storyboardSchema,
+        readingLevel: z.enum(READING_LEVELS).optional(),
+        segmented: z.boolean().default(false),
+        // Who narrates, so narration fit is checked at that voice's pace
+        voice: ttsProviderNameSchema.optional(),
+        voices: voiceLibrarySchema.optional(),
+      })
+    )
+    .mutation(({ input }) => {
+      const { storyboard, ...options } = input;
+      return lintStoryboard(storyboard, options);
+    }),
+
+  // Splits a long document into several videos, each with its own source text
+  outlineCourse: publicProcedure
+    .input(
+      z.object({
+        text: z.string().min(20),
+        maxVideos: z.number().int().min(1).max(20).default(6),
+        provider: llmProviderNameSchema.optional(),
+        jobId: z.string().max(100).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const provider = getLLMProvider(input.provider);
+      if (!provider) {
+        throw new Error("No LLM provider configured for course outlines");
+      }
+      try {
+        return await outlineCourse({ provider, text: input.text, maxVideos: input.maxVideos, jobId: input.jobId });
+      } finally {
+        finishProgress(input.jobId);
       }
     }),
 });
 
 function getFallbackStoryboard(): StoryboardWithConcepts {
-  return {
+  const storyboard: Storyboard = {
     title: "GDPR Essentials",
     language: "en",
     intro: "Why data protection matters – risks, trust, legal framework.",
@@ -318,35 +645,41 @@ function getFallbackStoryboard(): StoryboardWithConcepts {
       "Data protection is teamwork: collect correctly, process securely, report incidents.",
     quiz: [
       {
+        type: "multiple_choice",
         q: "What does data minimization mean?",
-        a: [
-          "Collect as much as possible",
-          "Collect only necessary data",
-          "Encrypt all data",
+        moduleIndex: 0,
+        options: [
+          { text: "Collect as much as possible", feedback: "More data means more risk and more obligations." },
+          { text: "Collect only necessary data", feedback: "Correct: only what the documented purpose requires." },
+          { text: "Encrypt all data", feedback: "Encryption protects data, but doesn't limit what is collected." },
         ],
-        correct: 1,
+        correct: [1],
+        explanation: "Data minimization limits collection to what the purpose needs.",
       },
       {
-        q: "Which condition applies to consent?",
-        a: [
-          "Always implied",
-          "Informed & demonstrable",
-          "Only verbal",
+        type: "multi_select",
+        q: "Which conditions apply to valid consent?",
+        moduleIndex: 1,
+        options: [
+          { text: "Informed", feedback: "Correct: people must know what they agree to." },
+          { text: "Implied by silence", feedback: "Silence is never consent." },
+          { text: "Demonstrable", feedback: "Correct: you must be able to prove it was given." },
         ],
-        correct: 1,
+        correct: [0, 2],
+        explanation: "Consent must be informed, voluntary and demonstrable.",
       },
       {
-        q: "Deadline for reporting an incident?",
-        a: ["72 hours", "14 days", "Immediate reporting not necessary"],
-        correct: 0,
+        type: "true_false",
+        q: "A data breach must be reported within 72 hours.",
+        moduleIndex: 2,
+        options: [
+          { text: "True", feedback: "Correct: the 72-hour notification window applies." },
+          { text: "False", feedback: "The 72-hour deadline is a legal obligation." },
+        ],
+        correct: [0],
+        explanation: "Incidents are detected, documented and notified within 72 hours.",
       },
     ],
-    moduleConcepts: [
-      "clean modern office with data screens",
-      "professional workspace with documents",
-      "simple digital interface with buttons",
-      "corporate meeting room with laptops",
-      "organized desk with business materials"
-    ]
   };
+  return { ...storyboard, visualPlan: alignVisualPlan(null, storyboard) };
 }
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { alignVisualPlan } from '../../../lib/visualPlan';
+
+// Projects and uploads go to data/ under the working directory
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'graphycs-versions-'));
+vi.spyOn(process, 'cwd').mockReturnValue(root);
+
+const { t } = await import('../trpc');
+const { versionRouter } = await import('./version');
+const { createProject, getProject, updateProject } = await import('../../db/projects');
+const { readUpload, saveUpload } = await import('../../db/uploads');
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+const caller = t.createCallerFactory(versionRouter)({});
+
+const fields = {
+  title: 'Password basics',
+  language: 'de',
+  intro: 'Passwörter schützen unsere Daten.',
+  overview: ['Warum Passwörter zählen'],
+  modules: [{ title: 'Starke Passwörter', points: ['Nutze lange Passphrasen.'] }],
+  summary: 'Lange Passwörter schützen Konten.',
+  quiz: [
+    {
+      type: 'true_false' as const,
+      q: 'Kurze Passwörter sind sicher.',
+      moduleIndex: 0,
+      options: [
+        { text: 'Richtig', feedback: '' },
+        { text: 'Falsch', feedback: '' },
+      ],
+      correct: [1],
+      explanation: '',
+    },
+  ],
+};
+const storyboard = { ...fields, visualPlan: alignVisualPlan(null, fields) };
+
+const narration = { audioUrl: '/narration-1.mp3', segments: null, totalDuration: 12, quiz: null };
+const broll = { clips: { intro: '/api/broll?key=abc' }, metadata: [] };
+
+function projectWithSettings() {
+  const project = createProject({
+    name: 'Passwords',
+    sourceText: 'Passwords must be long and unique.',
+    defaultStyle: 'security',
+    language: 'de',
+    llmProvider: 'mock',
+    ttsProvider: 'openai',
+    voices: {
+      voices: [{ id: 'anna', name: 'Anna', provider: 'openai', voiceId: 'nova', speed: 0.9 }],
+      defaultVoice: 'anna',
+      sceneVoices: {},
+    },
+    quizTypes: ['multiple_choice'],
+    brief: { audience: 'frontline', tone: 'friendly', readingLevel: 'plain' },
+    glossary: { required: ['Passphrase'], forbidden: [] },
+    doNotTranslate: ['Graphycs'],
+  });
+  const storedPath = saveUpload(project.id, 'policy.md', Buffer.from('# Passwords'));
+  updateProject(project.id, {
+    sourceDocument: {
+      fileName: 'policy.md',
+      mimeType: 'text/markdown',
+      size: 11,
+      format: 'markdown',
+      storedPath,
+      headings: [],
+      uploadedAt: new Date().toISOString(),
+    },
+  });
+  return project;
+}
+
+describe('version.branch', () => {
+  it('copies every setting and its own copy of the uploaded document', async () => {
+    const project = projectWithSettings();
+    const version = await caller.commit({ projectId: project.id, storyboard, source: 'generated' });
+    const original = getProject(project.id)!;
+
+    const branched = await caller.branch({ projectId: project.id, versionId: version.id });
+
+    expect(branched).toMatchObject({
+      name: 'Passwords (branch of v1)',
+      sourceText: original.sourceText,
+      defaultStyle: 'security',
+      language: 'de',
+      llmProvider: 'mock',
+      ttsProvider: 'openai',
+      voices: original.voices,
+      quizTypes: ['multiple_choice'],
+      brief: original.brief,
+      glossary: original.glossary,
+      doNotTranslate: ['Graphycs'],
+      storyboard,
+      narration: null,
+      broll: null,
+      renders: [],
+    });
+    expect(branched.id).not.toBe(project.id);
+    expect(branched.versions.map((v) => v.source)).toEqual(['branch']);
+
+    const { storedPath } = branched.sourceDocument!;
+    expect(storedPath).toMatch(new RegExp(`^uploads/${branched.id}/\\d+-policy\\.md$`));
+    expect(readUpload(storedPath)?.toString()).toBe('# Passwords');
+  });
+});
+
+describe('version.commit and version.revert', () => {
+  it('drop narration and B-roll made for the previous script', async () => {
+    const project = projectWithSettings();
+    const first = await caller.commit({ projectId: project.id, storyboard, source: 'generated' });
+
+    updateProject(project.id, { narration, broll });
+    await caller.commit({ projectId: project.id, storyboard: { ...storyboard, intro: 'Neu.' }, source: 'manual' });
+    expect(getProject(project.id)).toMatchObject({ narration: null, broll: null });
+
+    updateProject(project.id, { narration, broll });
+    await caller.revert({ projectId: project.id, versionId: first.id });
+    expect(getProject(project.id)).toMatchObject({ narration: null, broll: null, storyboard });
+  });
+
+  it('keep them for a section regeneration, which re-voices only that section', async () => {
+    const project = projectWithSettings();
+    updateProject(project.id, { narration, broll });
+    await caller.commit({ projectId: project.id, storyboard, source: 'regenerated' });
+    expect(getProject(project.id)).toMatchObject({ narration, broll });
+  });
+});
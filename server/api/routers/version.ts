@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure } from '../trpc';
+import { refineQuizModules, storyboardWithConceptsSchema } from '../../../lib/storyboard';
+import {
+  commitStoryboardVersion,
+  createProject,
+  getProject,
+  projectIdSchema,
+  projectSettings,
+  storyboardVersionSchema,
+  updateProject,
+  type Project,
+  type StoryboardVersion,
+} from '../../db/projects';
+import { copyUpload } from '../../db/uploads';
+import { diffStoryboards } from '../../lib/storyboardDiff';
+
+// A version as listed, without its storyboard
+const versionSummarySchema = storyboardVersionSchema.omit({ storyboard: true });
+
+const authorSchema = z.string().min(1).max(100).default('anonymous');
+
+function loadProject(id: string): Project {
+  const project = getProject(id);
+  if (!project) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${id} not found` });
+  }
+  return project;
+}
+
+// Narration and B-roll were made for the old script. A section regeneration
+// keeps them because the caller re-voices just the section that changed.
+function dropAssets(projectId: string, source: StoryboardVersion['source']) {
+  if (source !== 'regenerated') updateProject(projectId, { narration: null, broll: null });
+}
+
+function findVersion(project: Project, versionId: string) {
+  const version = project.versions.find((v) => v.id === versionId);
+  if (!version) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Version ${versionId} not found in project ${project.id}` });
+  }
+  return version;
+}
+
+export const versionRouter = router({
+  // Newest first, without the storyboard payloads
+  list: publicProcedure
+    .input(z.object({ projectId: projectIdSchema }))
+    .query(({ input }) => {
+      const project = loadProject(input.projectId);
+      return project.versions
+        .map((version) => ({
+          ...versionSummarySchema.parse(version),
+          isCurrent: version.id === project.currentVersionId,
+        }))
+        .reverse();
+    }),
+
+  get: publicProcedure
+    .input(z.object({ projectId: projectIdSchema, versionId: z.string() }))
+    .query(({ input }) => findVersion(loadProject(input.projectId), input.versionId)),
+
+  // Records an LLM result, a manual edit or an imported file as a new version
+  commit: publicProcedure
+    .input(z.object({
+      projectId: projectIdSchema,
+      storyboard: storyboardWithConceptsSchema.superRefine(refineQuizModules),
+      author: authorSchema,
+      source: z.enum(['generated', 'manual', 'regenerated', 'imported']),
+      note: z.string().max(500).optional(),
+    }))
+    .mutation(({ input }) => {
+      const { projectId, ...version } = input;
+      loadProject(projectId);
+      const committed = commitStoryboardVersion(projectId, version)!.version;
+      dropAssets(projectId, version.source);
+      return committed;
+    }),
+
+  diff: publicProcedure
+    .input(z.object({ projectId: projectIdSchema, fromVersionId: z.string(), toVersionId: z.string() }))
+    .query(({ input }) => {
+      const project = loadProject(input.projectId);
+      const from = findVersion(project, input.fromVersionId);
+      const to = findVersion(project, input.toVersionId);
+      return {
+        from: from.number,
+        to: to.number,
+        changes: diffStoryboards(from.storyboard, to.storyboard),
+      };
+    }),
+
+  // Reverting never rewrites history: the old storyboard becomes a new version
+  revert: publicProcedure
+    .input(z.object({ projectId: projectIdSchema, versionId: z.string(), author: authorSchema }))
+    .mutation(({ input }) => {
+      const project = loadProject(input.projectId);
+      const target = findVersion(project, input.versionId);
+      const committed = commitStoryboardVersion(project.id, {
+        storyboard: target.storyboard,
+        author: input.author,
+        source: 'revert',
+        note: `Reverted to v${target.number}`,
+      })!.version;
+      dropAssets(project.id, 'revert');
+      return committed;
+    }),
+
+  // Starts a new project whose history begins at the chosen version, with the
+  // same settings so it regenerates like the original
+  branch: publicProcedure
+    .input(z.object({
+      projectId: projectIdSchema,
+      versionId: z.string(),
+      author: authorSchema,
+      name: z.string().min(1).max(200).optional(),
+    }))
+    .mutation(({ input }) => {
+      const project = loadProject(input.projectId);
+      const target = findVersion(project, input.versionId);
+      const branched = createProject({
+        ...projectSettings(project),
+        name: input.name ?? `${project.name} (branch of v${target.number})`,
+      });
+      if (project.sourceDocument) {
+        // Its own copy of the upload, so deleting either project keeps the other's file
+        const storedPath = copyUpload(project.sourceDocument.storedPath, branched.id);
+        if (storedPath) updateProject(branched.id, { sourceDocument: { ...project.sourceDocument, storedPath } });
+      }
+      return commitStoryboardVersion(branched.id, {
+        storyboard: target.storyboard,
+        author: input.author,
+        source: 'branch',
+        note: `Branched from "${project.name}" v${target.number}`,
+        parentId: null,
+      })!.project;
+    }),
+});
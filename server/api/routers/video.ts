@@ -1,10 +1,17 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
+import { runwayBaseUrl, vendorApiKey } from '../../standins/config';
+import { finishProgress, reportProgress } from '../../lib/progress';
+import { cacheKey, lookupCache, writeCache } from '../../db/cache';
+import { storeClip } from '../../db/brollClips';
+import { sceneIdSchema, sceneVisualSchema, type CameraMotion, type ShotType } from '../../../lib/visualPlan';
+import { MAX_SCENES } from '../../../lib/storyboard';
+import type { BrollMetadata } from '../../../lib/broll';
 import fs from 'fs';
 import path from 'path';
 
 // Simple, clean prompts for reliable generation
-const BASE_STYLE = "Professional corporate training visual, clean modern design, smooth camera movement";
+const BASE_STYLE = "Professional corporate training visual, clean modern design";
 
 // Accent color type
 type AccentColor = "emerald" | "sky" | "amber";
@@ -16,263 +23,347 @@ const ACCENT_COLORS = {
   amber: "warm orange color scheme"
 };
 
+// One scene of the visual plan; icons are the composition's business
+const sceneRequestSchema = sceneVisualSchema.omit({ icons: true }).extend({ sceneId: sceneIdSchema });
+
+type SceneRequest = z.infer<typeof sceneRequestSchema>;
+
+// Framing and movement from the scene's visual plan, in Runway's wording
+const SHOT_PROMPTS: Record<ShotType, string> = {
+  wide: "wide shot",
+  medium: "medium shot",
+  close_up: "close-up shot",
+  overhead: "overhead shot",
+  detail: "macro detail shot",
+};
+
+const MOTION_PROMPTS: Record<CameraMotion, string> = {
+  static: "locked-off camera",
+  push_in: "slow push in",
+  pull_out: "slow pull out",
+  pan_left: "slow pan left",
+  pan_right: "slow pan right",
+  tilt_up: "slow tilt up",
+};
+
 // Build simple, reliable prompt
-function buildPrompt(concept: string, accent: AccentColor = "emerald"): string {
+function buildPrompt(concept: string, scene: SceneRequest, accent: AccentColor = "emerald"): string {
   const color = ACCENT_COLORS[accent];
-  // Keep prompts under 200 chars for reliability
+  // Keep prompts short for reliability
   const simpleConcept = concept.substring(0, 100);
-  return `${BASE_STYLE}, ${color}, ${simpleConcept}`;
+  return `${BASE_STYLE}, ${color}, ${SHOT_PROMPTS[scene.shotType]}, ${MOTION_PROMPTS[scene.cameraMotion]}, ${simpleConcept}`;
 }
 
-// Metadata type for reproducibility
-type BrollMetadata = {
-  prompt: string;
-  seed: number;
-  duration: number;
-  style_frame: string;
-  scene_index: number;
-  concept: string;
-};
+// Served from data/broll by app/api/broll
+const clipUrl = (key: string, baseUrl: string) => `${baseUrl}/api/broll?key=${key}`;
+
+// Runway's output URLs expire, so finished clips are downloaded into the cache
+// and kept in data/broll. If that fails the remote URL is still good for a while.
+async function keepClip(videoUrl: string, key: string, baseUrl: string) {
+  try {
+    const res = await fetch(videoUrl);
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+    const data = Buffer.from(await res.arrayBuffer());
+    writeCache('broll', key, '.mp4', data);
+    storeClip(key, data);
+    return clipUrl(key, baseUrl);
+  } catch (error) {
+    console.warn(`[Runway] Could not download ${videoUrl}, keeping the remote URL:`, error);
+    return videoUrl;
+  }
+}
 
-export const videoRouter = router({
-  runwayBatch: publicProcedure
-    .input(z.object({
-      prompts: z.array(z.string()).min(1).max(10),
-      seconds: z.union([z.literal(5), z.literal(10)]).default(5),
-      accent: z.enum(['emerald', 'sky', 'amber']).default('emerald'),
-    }))
-    .mutation(async ({ input }) => {
-      const apiKey = process.env.RUNWAY_API_KEY;
-      const baseSeed = parseInt(process.env.BASE_SEED || '424242', 10);
-      const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+// One Runway clip per planned scene, in order, reporting each to progress.watch
+async function generateBatch(input: {
+  scenes: SceneRequest[];
+  seconds: 5 | 10;
+  accent: AccentColor;
+  jobId?: string;
+}) {
+  const { jobId } = input;
+  const total = input.scenes.length;
+  const apiKey = vendorApiKey('RUNWAY_API_KEY');
+  const baseSeed = parseInt(process.env.BASE_SEED || '424242', 10);
+  const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+
+  if (!apiKey) {
+    console.error('[Runway] RUNWAY_API_KEY missing');
+    throw new Error('RUNWAY_API_KEY is required. Set it in .env.local');
+  }
+
+  // Style reference image - use data URI (Runway supports https://, runway://, or data:image/)
+  const stylePath = path.join(process.cwd(), 'public', 'style-frame.png');
+
+  let promptImage: string;
+
+  if (fs.existsSync(stylePath)) {
+    // Read existing style frame and convert to data URI
+    const imageBuffer = fs.readFileSync(stylePath);
+    promptImage = `data:image/png;base64,${imageBuffer.toString('base64')}`;
+    console.log('[Runway] Using style-frame.png as data URI');
+  } else {
+    // Create minimal 1x1 neutral gray PNG as data URI
+    // This is a valid PNG with neutral gray color that won't interfere with prompt
+    const minimalPngBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+    promptImage = `data:image/png;base64,${minimalPngBase64}`;
+    console.log('[Runway] Using minimal placeholder data URI');
+  }
+
+  console.log('[Runway] ===== BATCH GENERATION START =====');
+  console.log('[Runway] Scenes:', input.scenes.map((scene) => scene.sceneId).join(', '));
+  console.log('[Runway] Duration:', input.seconds, 'seconds');
+  console.log('[Runway] Accent:', input.accent);
+  console.log('[Runway] Base seed:', baseSeed);
+
+  const clips: Record<string, string> = {};
+  const metadata: BrollMetadata[] = [];
+
+  // Create metadata directory
+  const metadataDir = path.join(process.cwd(), 'out');
+  if (!fs.existsSync(metadataDir)) {
+    fs.mkdirSync(metadataDir, { recursive: true });
+  }
+
+  // Generate one clip per scene
+  for (let i = 0; i < input.scenes.length; i++) {
+    const scene = input.scenes[i];
+    const concept = scene.brollPrompt;
+    const seed = baseSeed + i;
+    let done = false;
+
+    const completeScene = (url: string, prompt: string) => {
+      clips[scene.sceneId] = url;
+      done = true;
+      reportProgress(jobId, {
+        stage: 'broll',
+        current: i + 1,
+        total,
+        message: `Scene ${i + 1} of ${total} (${scene.sceneId}): done`,
+        partial: { kind: 'clip', index: i, sceneId: scene.sceneId, url },
+      });
+
+      const meta: BrollMetadata = {
+        prompt,
+        seed,
+        duration: input.seconds,
+        style_frame: '/style-frame.png',
+        scene_index: i,
+        scene_id: scene.sceneId,
+        shot_type: scene.shotType,
+        camera_motion: scene.cameraMotion,
+        concept
+      };
 
-      if (!apiKey) {
-        console.error('[Runway] RUNWAY_API_KEY missing');
-        throw new Error('RUNWAY_API_KEY is required. Set it in .env.local');
+      metadata.push(meta);
+
+      // Save metadata to file
+      const metaPath = path.join(metadataDir, `metadata_scene_${i}.json`);
+      fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+      console.log(`[Runway] Metadata saved: ${metaPath}`);
+    };
+
+    // Try with original prompt first, then fallback to ultra-simple generic prompt on failure
+    let prompt = buildPrompt(concept, scene, input.accent);
+    let retryAttempt = 0;
+    const maxRetries = 1; // Try original + 1 fallback
+
+    while (retryAttempt <= maxRetries) {
+      if (retryAttempt > 0) {
+        // Fallback to ultra-generic prompt
+        const genericPrompts = [
+          "office desk with laptop",
+          "modern workspace with computer",
+          "corporate office interior",
+          "business meeting room",
+          "professional office space"
+        ];
+        const fallbackConcept = genericPrompts[i % genericPrompts.length];
+        prompt = buildPrompt(fallbackConcept, scene, input.accent);
+        console.log(`[Runway] Scene ${i + 1} RETRY ${retryAttempt} with fallback: "${prompt}"`);
       }
 
-      // Style reference image - use data URI (Runway supports https://, runway://, or data:image/)
-      const stylePath = path.join(process.cwd(), 'public', 'style-frame.png');
-
-      let promptImage: string;
-
-      if (fs.existsSync(stylePath)) {
-        // Read existing style frame and convert to data URI
-        const imageBuffer = fs.readFileSync(stylePath);
-        promptImage = `data:image/png;base64,${imageBuffer.toString('base64')}`;
-        console.log('[Runway] Using style-frame.png as data URI');
-      } else {
-        // Create minimal 1x1 neutral gray PNG as data URI
-        // This is a valid PNG with neutral gray color that won't interfere with prompt
-        const minimalPngBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
-        promptImage = `data:image/png;base64,${minimalPngBase64}`;
-        console.log('[Runway] Using minimal placeholder data URI');
+      console.log(`\n[Runway] ===== Scene ${i + 1}/${total} (${scene.sceneId}) ${retryAttempt > 0 ? `(Retry ${retryAttempt})` : ''} =====`);
+      console.log(`[Runway]   Concept: "${concept}"`);
+      console.log(`[Runway]   Concept length: ${concept.length} chars`);
+      console.log(`[Runway]   Seed: ${seed}`);
+      console.log(`[Runway]   Generated prompt: "${prompt}"`);
+      console.log(`[Runway]   Prompt length: ${prompt.length} chars`);
+
+    try {
+      // Prepare request body - promptImage is always required by Runway API (data URI format)
+      const requestBody = {
+        model: 'gen4_turbo',
+        promptImage: promptImage,
+        promptText: prompt,
+        duration: input.seconds,
+        ratio: '1280:720',
+        seed
+      };
+
+      // Same endpoint, prompt, style frame and seed: the clip we already have
+      const key = cacheKey({ endpoint: runwayBaseUrl(), ...requestBody, promptImage: cacheKey({ promptImage }) });
+      if (lookupCache('broll', key, '.mp4') && storeClip(key, null)) {
+        console.log(`[Runway] Scene ${i + 1} served from cache`);
+        completeScene(clipUrl(key, baseUrl), prompt);
+        break;
       }
 
-      console.log('[Runway] ===== BATCH GENERATION START =====');
-      console.log('[Runway] Prompts:', input.prompts.length);
-      console.log('[Runway] Duration:', input.seconds, 'seconds');
-      console.log('[Runway] Accent:', input.accent);
-      console.log('[Runway] Base seed:', baseSeed);
+      console.log(`[Runway]   Request body:`);
+      console.log(`[Runway]     - model: ${requestBody.model}`);
+      console.log(`[Runway]     - promptImage: ${requestBody.promptImage.substring(0, 50)}... (${requestBody.promptImage.length} chars)`);
+      console.log(`[Runway]     - promptText: "${requestBody.promptText}"`);
+      console.log(`[Runway]     - duration: ${requestBody.duration}`);
+      console.log(`[Runway]     - ratio: ${requestBody.ratio}`);
+      console.log(`[Runway]     - seed: ${requestBody.seed}`);
+
+      // Start video generation task
+      const createRes = await fetch(`${runwayBaseUrl()}/v1/image_to_video`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'X-Runway-Version': '2024-11-06'
+        },
+        body: JSON.stringify(requestBody)
+      });
+
+      if (!createRes.ok) {
+        const errorText = await createRes.text();
+        console.error(`[Runway] Scene ${i + 1} CREATE API error:`, createRes.status, errorText);
+        throw new Error(`Runway generation failed for scene ${i + 1}: ${createRes.status} - ${errorText}`);
+      }
 
-      const urls: string[] = [];
-      const metadata: BrollMetadata[] = [];
+      const createData = await createRes.json();
+      console.log(`[Runway] Scene ${i + 1} create response:`, JSON.stringify(createData, null, 2));
 
-      // Create metadata directory
-      const metadataDir = path.join(process.cwd(), 'out');
-      if (!fs.existsSync(metadataDir)) {
-        fs.mkdirSync(metadataDir, { recursive: true });
+      const taskId = createData.id;
+      if (!taskId) {
+        console.error(`[Runway] Scene ${i + 1} no task ID in response:`, createData);
+        throw new Error(`Runway generation failed for scene ${i + 1}: No task ID returned`);
       }
 
-      // Generate one clip per prompt
-      for (let i = 0; i < input.prompts.length; i++) {
-        const concept = input.prompts[i];
-        const seed = baseSeed + i;
-
-        // Try with original prompt first, then fallback to ultra-simple generic prompt on failure
-        let prompt = buildPrompt(concept, input.accent);
-        let retryAttempt = 0;
-        const maxRetries = 1; // Try original + 1 fallback
-
-        while (retryAttempt <= maxRetries) {
-          if (retryAttempt > 0) {
-            // Fallback to ultra-generic prompt
-            const genericPrompts = [
-              "office desk with laptop",
-              "modern workspace with computer",
-              "corporate office interior",
-              "business meeting room",
-              "professional office space"
-            ];
-            const fallbackConcept = genericPrompts[i % genericPrompts.length];
-            prompt = buildPrompt(fallbackConcept, input.accent);
-            console.log(`[Runway] Scene ${i + 1} RETRY ${retryAttempt} with fallback: "${prompt}"`);
-          }
-
-          console.log(`\n[Runway] ===== Scene ${i + 1}/${input.prompts.length} ${retryAttempt > 0 ? `(Retry ${retryAttempt})` : ''} =====`);
-          console.log(`[Runway]   Concept: "${concept}"`);
-          console.log(`[Runway]   Concept length: ${concept.length} chars`);
-          console.log(`[Runway]   Seed: ${seed}`);
-          console.log(`[Runway]   Generated prompt: "${prompt}"`);
-          console.log(`[Runway]   Prompt length: ${prompt.length} chars`);
-
-        try {
-          // Prepare request body - promptImage is always required by Runway API (data URI format)
-          const requestBody = {
-            model: 'gen4_turbo',
-            promptImage: promptImage,
-            promptText: prompt,
-            duration: input.seconds,
-            ratio: '1280:720',
-            seed
-          };
-
-          console.log(`[Runway]   Request body:`);
-          console.log(`[Runway]     - model: ${requestBody.model}`);
-          console.log(`[Runway]     - promptImage: ${requestBody.promptImage.substring(0, 50)}... (${requestBody.promptImage.length} chars)`);
-          console.log(`[Runway]     - promptText: "${requestBody.promptText}"`);
-          console.log(`[Runway]     - duration: ${requestBody.duration}`);
-          console.log(`[Runway]     - ratio: ${requestBody.ratio}`);
-          console.log(`[Runway]     - seed: ${requestBody.seed}`);
-
-          // Start video generation task
-          const createRes = await fetch('https://api.dev.runwayml.com/v1/image_to_video', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-              'X-Runway-Version': '2024-11-06'
-            },
-            body: JSON.stringify(requestBody)
-          });
+      console.log(`[Runway] Scene ${i + 1} task created: ${taskId}`);
+      reportProgress(jobId, { stage: 'broll', current: i + 1, total, message: `Scene ${i + 1} of ${total}: queued` });
 
-          if (!createRes.ok) {
-            const errorText = await createRes.text();
-            console.error(`[Runway] Scene ${i + 1} CREATE API error:`, createRes.status, errorText);
-            throw new Error(`Runway generation failed for scene ${i + 1}: ${createRes.status} - ${errorText}`);
-          }
+      // Poll for completion
+      let attempts = 0;
+      const maxAttempts = 60; // 5 minutes max
 
-          const createData = await createRes.json();
-          console.log(`[Runway] Scene ${i + 1} create response:`, JSON.stringify(createData, null, 2));
+      while (attempts < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
 
-          const taskId = createData.id;
-          if (!taskId) {
-            console.error(`[Runway] Scene ${i + 1} no task ID in response:`, createData);
-            throw new Error(`Runway generation failed for scene ${i + 1}: No task ID returned`);
+        const statusRes = await fetch(`${runwayBaseUrl()}/v1/tasks/${taskId}`, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'X-Runway-Version': '2024-11-06'
           }
+        });
 
-          console.log(`[Runway] Scene ${i + 1} task created: ${taskId}`);
-
-          // Poll for completion
-          let attempts = 0;
-          const maxAttempts = 60; // 5 minutes max
-
-          while (attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-
-            const statusRes = await fetch(`https://api.dev.runwayml.com/v1/tasks/${taskId}`, {
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'X-Runway-Version': '2024-11-06'
-              }
-            });
-
-            if (!statusRes.ok) {
-              console.error(`[Runway] Scene ${i + 1} status check failed:`, statusRes.status);
-              throw new Error(`Failed to check status for scene ${i + 1}`);
-            }
-
-            const statusData = await statusRes.json();
-            console.log(`[Runway] Scene ${i + 1} status [${attempts + 1}/${maxAttempts}]:`, statusData.status);
-
-            if (statusData.status === 'SUCCEEDED') {
-              const videoUrl = statusData.output?.[0];
-
-              if (!videoUrl) {
-                console.error(`[Runway] Scene ${i + 1} no video URL in response:`, JSON.stringify(statusData, null, 2));
-                throw new Error(`No video URL in response for scene ${i + 1}`);
-              }
-
-              console.log(`[Runway] Scene ${i + 1} COMPLETE:`, videoUrl);
-
-              urls.push(videoUrl);
-
-              const meta: BrollMetadata = {
-                prompt,
-                seed,
-                duration: input.seconds,
-                style_frame: '/style-frame.png',
-                scene_index: i,
-                concept
-              };
-
-              metadata.push(meta);
+        if (!statusRes.ok) {
+          console.error(`[Runway] Scene ${i + 1} status check failed:`, statusRes.status);
+          throw new Error(`Failed to check status for scene ${i + 1}`);
+        }
 
-              // Save metadata to file
-              const metaPath = path.join(metadataDir, `metadata_scene_${i}.json`);
-              fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
-              console.log(`[Runway] Metadata saved: ${metaPath}`);
+        const statusData = await statusRes.json();
+        console.log(`[Runway] Scene ${i + 1} status [${attempts + 1}/${maxAttempts}]:`, statusData.status);
+        if (statusData.status !== 'SUCCEEDED') {
+          reportProgress(jobId, {
+            stage: 'broll',
+            current: i + 1,
+            total,
+            message: `Scene ${i + 1} of ${total}: ${String(statusData.status).toLowerCase()}`,
+          });
+        }
 
-              break; // Success! Exit retry loop and polling loop
-            } else if (statusData.status === 'FAILED') {
-              console.error(`[Runway] Scene ${i + 1} FAILED - Full response:`, JSON.stringify(statusData, null, 2));
-              const failureReason = statusData.failure || statusData.failure_reason || statusData.failureReason || statusData.error || 'Unknown error';
-              const failureCode = statusData.failureCode || '';
+        if (statusData.status === 'SUCCEEDED') {
+          const videoUrl = statusData.output?.[0];
 
-              // Check if this is a BAD_OUTPUT error and we have retries left
-              if (failureCode === 'INTERNAL.BAD_OUTPUT.CODE01' && retryAttempt < maxRetries) {
-                console.warn(`[Runway] Scene ${i + 1} BAD_OUTPUT error, will retry with simpler prompt`);
-                break; // Exit polling loop to retry with fallback prompt
-              }
+          if (!videoUrl) {
+            console.error(`[Runway] Scene ${i + 1} no video URL in response:`, JSON.stringify(statusData, null, 2));
+            throw new Error(`No video URL in response for scene ${i + 1}`);
+          }
 
-              throw new Error(`Runway generation failed for scene ${i + 1}: ${failureReason} (${failureCode})`);
-            }
+          console.log(`[Runway] Scene ${i + 1} COMPLETE:`, videoUrl);
+          completeScene(await keepClip(videoUrl, key, baseUrl), prompt);
 
-            attempts++;
-          }
+          break; // Success! Exit retry loop and polling loop
+        } else if (statusData.status === 'FAILED') {
+          console.error(`[Runway] Scene ${i + 1} FAILED - Full response:`, JSON.stringify(statusData, null, 2));
+          const failureReason = statusData.failure || statusData.failure_reason || statusData.failureReason || statusData.error || 'Unknown error';
+          const failureCode = statusData.failureCode || '';
 
-          if (attempts >= maxAttempts) {
-            throw new Error(`Runway generation timed out for scene ${i + 1} after 5 minutes`);
+          // Check if this is a BAD_OUTPUT error and we have retries left
+          if (failureCode === 'INTERNAL.BAD_OUTPUT.CODE01' && retryAttempt < maxRetries) {
+            console.warn(`[Runway] Scene ${i + 1} BAD_OUTPUT error, will retry with simpler prompt`);
+            break; // Exit polling loop to retry with fallback prompt
           }
 
-          // If we successfully completed the video, break out of retry loop
-          if (urls.length === i + 1) {
-            break; // Success! Exit retry loop
-          }
-        } catch (error) {
-          console.error(`[Runway] Error generating scene ${i + 1}:`, error);
-          // If we have retries left and it's a retriable error, continue to next retry
-          if (retryAttempt < maxRetries) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            if (errorMsg.includes('INTERNAL.BAD_OUTPUT.CODE01')) {
-              retryAttempt++;
-              continue; // Retry with fallback prompt
-            }
-          }
-          throw error; // Non-retriable error or out of retries
+          throw new Error(`Runway generation failed for scene ${i + 1}: ${failureReason} (${failureCode})`);
         }
 
-          retryAttempt++; // Increment for next iteration if needed
-        } // End retry while loop
+        attempts++;
       }
 
-      console.log('[Runway] ===== BATCH GENERATION COMPLETE =====');
-      console.log(`[Runway] Generated ${urls.length} clips`);
+      if (attempts >= maxAttempts) {
+        throw new Error(`Runway generation timed out for scene ${i + 1} after 5 minutes`);
+      }
 
-      // Save manifest
-      const manifest = {
-        scenes: metadata,
-        style_frame: '/style-frame.png',
-        generated_at: new Date().toISOString()
-      };
-      const manifestPath = path.join(metadataDir, 'manifest.json');
-      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
-      console.log('[Runway] Manifest saved:', manifestPath);
+      // If we successfully completed the video, break out of retry loop
+      if (done) {
+        break; // Success! Exit retry loop
+      }
+    } catch (error) {
+      console.error(`[Runway] Error generating scene ${i + 1}:`, error);
+      // If we have retries left and it's a retriable error, continue to next retry
+      if (retryAttempt < maxRetries) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        if (errorMsg.includes('INTERNAL.BAD_OUTPUT.CODE01')) {
+          retryAttempt++;
+          continue; // Retry with fallback prompt
+        }
+      }
+      throw error; // Non-retriable error or out of retries
+    }
+
+      retryAttempt++; // Increment for next iteration if needed
+    } // End retry while loop
+  }
+
+  console.log('[Runway] ===== BATCH GENERATION COMPLETE =====');
+  console.log(`[Runway] Generated ${Object.keys(clips).length} clips`);
+
+  // Save manifest
+  const manifest = {
+    scenes: metadata,
+    style_frame: '/style-frame.png',
+    generated_at: new Date().toISOString()
+  };
+  const manifestPath = path.join(metadataDir, 'manifest.json');
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  console.log('[Runway] Manifest saved:', manifestPath);
+
+  return {
+    clips,
+    metadata
+  };
+}
 
-      return {
-        urls,
-        metadata
-      };
+export const videoRouter = router({
+  runwayBatch: publicProcedure
+    .input(z.object({
+      // Scenes of the storyboard's visual plan; clips come back keyed by scene id
+      scenes: z.array(sceneRequestSchema).min(1).max(MAX_SCENES),
+      seconds: z.union([z.literal(5), z.literal(10)]).default(5),
+      accent: z.enum(['emerald', 'sky', 'amber']).default('emerald'),
+      // Client-chosen id for progress.watch
+      jobId: z.string().max(100).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await generateBatch(input);
+      } finally {
+        finishProgress(input.jobId);
+      }
     })
 });
@@ -6,4 +6,4 @@ export const t = initTRPC.create({ transformer: superjson });
 export const router = t.router;
 export const publicProcedure = t.procedure;
 
-export type Context = {};
+export type Context = Record<string, never>;
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { cacheFile } from './cache';
+
+// B-roll clips that storyboards point at live in data/broll/<key>.mp4, named
+// by their cache key. Unlike the cache they are never evicted or cleared, so
+// saved projects and exported videos keep their footage.
+const CLIP_DIR = path.join(process.cwd(), 'data', 'broll');
+
+function clipFile(key: string): string | null {
+  return /^[a-f0-9]{64}$/.test(key) ? path.join(CLIP_DIR, `${key}.mp4`) : null;
+}
+
+/**
+ * Keeps a clip for good: linked to its cache entry when there is one, so it
+ * is on disk once, otherwise written from data. False when neither exists.
+ */
+export function storeClip(key: string, data: Buffer | null): boolean {
+  const file = clipFile(key);
+  if (!file) throw new Error(`Invalid clip key: ${key}`);
+  if (fs.existsSync(file)) return true;
+
+  const cached = cacheFile('broll', key, '.mp4');
+  const source = cached && fs.existsSync(cached) ? cached : null;
+  if (!source && !data) return false;
+
+  fs.mkdirSync(CLIP_DIR, { recursive: true });
+  if (source) {
+    try {
+      fs.linkSync(source, file);
+    } catch {
+      // data/ and the cache on different file systems
+      fs.copyFileSync(source, file);
+    }
+  } else {
+    fs.writeFileSync(file, data!);
+  }
+  return true;
+}
+
+/** A stored clip, or one that only made it into the cache (clips from before data/broll). */
+export function findClip(key: string): string | null {
+  const file = clipFile(key);
+  if (file && fs.existsSync(file)) return file;
+  const cached = cacheFile('broll', key, '.mp4');
+  return cached && fs.existsSync(cached) ? cached : null;
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Results of paid vendor calls (LLM replies, TTS audio, B-roll clips), stored
+// under data/cache/<namespace>/ by a hash of everything that determines them,
+// so an identical request is only paid for once. CACHE_DISABLED=1 turns it off.
+const CACHE_DIR = path.join(process.cwd(), 'data', 'cache');
+
+export const CACHE_NAMESPACES = ['llm', 'tts', 'broll'] as const;
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+// Least recently used entries go first once the cache outgrows CACHE_MAX_MB;
+// anything unused for CACHE_MAX_AGE_DAYS goes regardless
+const MAX_BYTES = Number(process.env.CACHE_MAX_MB || 2048) * 1024 * 1024;
+const MAX_AGE_MS = Number(process.env.CACHE_MAX_AGE_DAYS || 30) * 24 * 60 * 60 * 1000;
+// Eviction walks the whole cache, so it runs at most this often
+const EVICTION_INTERVAL_MS = 60 * 1000;
+
+type Counters = Record<CacheNamespace, { hits: number; misses: number }>;
+
+// Hit counters since the server started; kept on globalThis like progress jobs
+const globalCache = globalThis as unknown as {
+  __graphycsCache?: { counters: Counters; lastEviction: number };
+};
+const state = (globalCache.__graphycsCache ??= {
+  counters: { llm: { hits: 0, misses: 0 }, tts: { hits: 0, misses: 0 }, broll: { hits: 0, misses: 0 } },
+  lastEviction: 0,
+});
+
+const cacheEnabled = () => process.env.CACHE_DISABLED !== '1' && process.env.CACHE_DISABLED !== 'true';
+
+// JSON with sorted object keys, so the same request always hashes the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** SHA-256 of the request: provider, model, prompt or text, voice settings, seed, … */
+export function cacheKey(parts: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(stableStringify(parts)).digest('hex');
+}
+
+/** Where an entry lives; null for anything that isn't a cache key. */
+export function cacheFile(namespace: CacheNamespace, key: string, ext: string): string | null {
+  if (!/^[a-f0-9]{64}$/.test(key) || !/^\.\w+$/.test(ext)) return null;
+  return path.join(CACHE_DIR, namespace, key.slice(0, 2), `${key}${ext}`);
+}
+
+/** Path of a cached entry, counted as a hit, or null (a miss). */
+export function lookupCache(namespace: CacheNamespace, key: string, ext: string): string | null {
+  if (!cacheEnabled()) return null;
+  const file = cacheFile(namespace, key, ext);
+  if (!file || !fs.existsSync(file)) {
+    state.counters[namespace].misses++;
+    return null;
+  }
+  // The modification time doubles as "last used" for eviction
+  const now = new Date();
+  fs.utimesSync(file, now, now);
+  state.counters[namespace].hits++;
+  console.log(`[Cache] ${namespace} hit ${key.slice(0, 12)}`);
+  return file;
+}
+
+export function readCache(namespace: CacheNamespace, key: string, ext: string): Buffer | null {
+  const file = lookupCache(namespace, key, ext);
+  return file ? fs.readFileSync(file) : null;
+}
+
+/** Stores an entry; false when caching is turned off. */
+export function writeCache(namespace: CacheNamespace, key: string, ext: string, data: Buffer | string): boolean {
+  if (!cacheEnabled()) return false;
+  const file = cacheFile(namespace, key, ext);
+  if (!file) throw new Error(`Invalid cache key: ${key}`);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+  console.log(`[Cache] ${namespace} stored ${key.slice(0, 12)} (${Buffer.byteLength(data)} bytes)`);
+
+  if (Date.now() - state.lastEviction > EVICTION_INTERVAL_MS) {
+    state.lastEviction = Date.now();
+    evictCache();
+  }
+  return true;
+}
+
+type Entry = { file: string; namespace: CacheNamespace; size: number; usedAt: number };
+
+function listEntries(): Entry[] {
+  return CACHE_NAMESPACES.flatMap((namespace) => {
+    const root = path.join(CACHE_DIR, namespace);
+    if (!fs.existsSync(root)) return [];
+    return fs.readdirSync(root).flatMap((shard) =>
+      fs
+        .readdirSync(path.join(root, shard))
+        .filter((name) => !name.endsWith('.tmp'))
+        .map((name) => {
+          const file = path.join(root, shard, name);
+          const stat = fs.statSync(file);
+          return { file, namespace, size: stat.size, usedAt: stat.mtimeMs };
+        })
+    );
+  });
+}
+
+/** Drops expired entries, then the least recently used until the cache fits. */
+export function evictCache() {
+  const cutoff = Date.now() - MAX_AGE_MS;
+  const entries = listEntries().sort((a, b) => a.usedAt - b.usedAt);
+  let total = entries.reduce((acc, entry) => acc + entry.size, 0);
+  let removed = 0;
+  for (const entry of entries) {
+    if (entry.usedAt >= cutoff && total <= MAX_BYTES) break;
+    fs.rmSync(entry.file, { force: true });
+    total -= entry.size;
+    removed++;
+  }
+  if (removed) console.log(`[Cache] Evicted ${removed} entries, ${(total / 1024 / 1024).toFixed(1)} MB left`);
+}
+
+export function clearCache() {
+  fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+  for (const namespace of CACHE_NAMESPACES) state.counters[namespace] = { hits: 0, misses: 0 };
+}
+
+/** Hits and misses since the server started, and what is on disk now. */
+export function getCacheStats() {
+  const entries = listEntries();
+  return {
+    enabled: cacheEnabled(),
+    maxBytes: MAX_BYTES,
+    namespaces: CACHE_NAMESPACES.map((namespace) => {
+      const own = entries.filter((e) => e.namespace === namespace);
+      return {
+        namespace,
+        ...state.counters[namespace],
+        entries: own.length,
+        bytes: own.reduce((acc, e) => acc + e.size, 0),
+      };
+    }),
+  };
+}
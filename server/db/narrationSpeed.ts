@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { LANGUAGES, normalizeLanguage } from '../../lib/languages';
+
+// How fast each voice actually speaks, measured from synthesized clips and
+// kept in data/narration-speed.json. Generation uses it to size storyboards
+// for a target video length.
+const SPEED_FILE = path.join(process.cwd(), 'data', 'narration-speed.json');
+
+// Once a voice has this much audio on record, older samples are halved so the
+// average follows changes in voice or model settings
+const MAX_SECONDS = 30 * 60;
+
+const speedSchema = z.record(
+  z.string(),
+  z.object({
+    words: z.number(),
+    seconds: z.number(),
+    updatedAt: z.string(),
+  })
+);
+
+type SpeedTable = z.infer<typeof speedSchema>;
+
+const speedKey = (language: string, voiceId: string) => `${normalizeLanguage(language)}:${voiceId}`;
+
+function readSpeeds(): SpeedTable {
+  if (!fs.existsSync(SPEED_FILE)) return {};
+  const parsed = speedSchema.safeParse(JSON.parse(fs.readFileSync(SPEED_FILE, 'utf8')));
+  if (!parsed.success) {
+    console.error('[NarrationSpeed] Corrupt speed file, starting over:', parsed.error);
+    return {};
+  }
+  return parsed.data;
+}
+
+export function recordNarrationSpeed(language: string, voiceId: string, words: number, seconds: number) {
+  if (words <= 0 || seconds <= 0) return;
+
+  const speeds = readSpeeds();
+  const key = speedKey(language, voiceId);
+  const previous = speeds[key] ?? { words: 0, seconds: 0 };
+  const decay = previous.seconds > MAX_SECONDS ? 0.5 : 1;
+  speeds[key] = {
+    words: previous.words * decay + words,
+    seconds: previous.seconds * decay + seconds,
+    updatedAt: new Date().toISOString(),
+  };
+
+  fs.mkdirSync(path.dirname(SPEED_FILE), { recursive: true });
+  const tmp = `${SPEED_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(speeds, null, 2));
+  fs.renameSync(tmp, SPEED_FILE);
+  console.log(`[NarrationSpeed] ${key}: ${(speeds[key].words / speeds[key].seconds).toFixed(2)} words/s`);
+}
+
+/** Measured words per second for a voice, or the language's typical pace. */
+export function getNarrationSpeed(language: string, voiceId: string): { wordsPerSecond: number; measured: boolean } {
+  const measured = readSpeeds()[speedKey(language, voiceId)];
+  // A few sentences are too little to trust over the default
+  if (measured && measured.seconds >= 20) {
+    return { wordsPerSecond: measured.words / measured.seconds, measured: true };
+  }
+  return { wordsPerSecond: LANGUAGES[normalizeLanguage(language)].wordsPerSecond, measured: false };
+}
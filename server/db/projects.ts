@@ -0,0 +1,297 @@
+import { z } from 'zod';
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { storyboardLimitsSchema, storyboardWithConceptsSchema } from '../../lib/storyboard';
+import { quizAudioSchema, segmentSchema } from '../../lib/renderInput';
+import { moduleSceneId, sceneIdSchema } from '../../lib/visualPlan';
+import { llmProviderNameSchema } from '../llm';
+import { ttsProviderNameSchema } from '../tts';
+import { voiceLibrarySchema } from '../../lib/voices';
+import { documentFormatSchema, documentHeadingSchema } from '../ingest/types';
+import { LANGUAGE_CODES } from '../../lib/languages';
+import { QUIZ_TYPES } from '../../lib/quiz';
+import { generationBriefSchema } from '../../lib/brief';
+import { glossaryInputSchema, glossarySchema } from '../../lib/glossary';
+import { brollMetadataSchema } from '../../lib/broll';
+import { deleteUploads } from './uploads';
+
+// Projects are stored as one JSON file each under data/projects. Writes go
+// through a temp file + rename so a crash never leaves a half-written project.
+const PROJECTS_DIR = path.join(process.cwd(), 'data', 'projects');
+
+// Ids are generated by us (UUIDs); anything else could escape the directory.
+// Inputs are checked with this, so a bad id is a 400 rather than a crash.
+export const projectIdSchema = z.string().regex(/^[\w-]{1,100}$/, 'Invalid project id');
+
+export const narrationSchema = z.object({
+  audioUrl: z.string().nullable(),
+  segments: z.array(segmentSchema).nullable(),
+  totalDuration: z.number().nullable(),
+  // Question/answer clips per quiz scene
+  quiz: z.array(quizAudioSchema).nullable().optional(),
+});
+
+// Projects from before the visual plan stored clips positionally: intro,
+// one per module, summary; the overview showed the first module's clip
+function migrateBrollUrls(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || 'clips' in value || !('urls' in value)) return value;
+  const { urls, ...rest } = value as { urls: unknown };
+  if (!Array.isArray(urls) || !urls.length) return { ...rest, clips: {} };
+  const clips: Record<string, string> = { intro: urls[0], overview: urls[1] ?? urls[0], summary: urls[urls.length - 1] };
+  urls.slice(1, -1).forEach((url, i) => (clips[moduleSceneId(i)] = url));
+  return { ...rest, clips };
+}
+
+export const brollSchema = z.preprocess(
+  migrateBrollUrls,
+  z.object({
+    clips: z.record(sceneIdSchema, z.string()),
+    metadata: z.array(brollMetadataSchema),
+  })
+);
+
+// The uploaded policy file the source text was extracted from
+export const sourceDocumentSchema = z.object({
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  format: documentFormatSchema,
+  storedPath: z.string(), // relative to data/
+  headings: z.array(documentHeadingSchema),
+  uploadedAt: z.string(),
+});
+
+export const renderOutputSchema = z.object({
+  videoUrl: z.string(),
+  duration: z.number(),
+  // The storyboard version on screen; missing on renders from before versions were recorded
+  versionId: z.string().nullable().optional(),
+  createdAt: z.string(),
+});
+
+// Storyboard revisions are append-only: edits, regenerations and reverts all
+// add a new version, and project.storyboard always mirrors the current one.
+export const storyboardVersionSchema = z.object({
+  id: z.string(),
+  number: z.number().int().min(1),
+  parentId: z.string().nullable(),
+  author: z.string(),
+  source: z.enum(['generated', 'manual', 'revert', 'branch', 'localized', 'regenerated', 'imported']),
+  note: z.string().optional(),
+  createdAt: z.string(),
+  storyboard: storyboardWithConceptsSchema,
+});
+
+export type StoryboardVersion = z.infer<typeof storyboardVersionSchema>;
+
+export const projectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  sourceText: z.string(),
+  sourceDocument: sourceDocumentSchema.nullable().optional(),
+  defaultStyle: z.enum(['office', 'checklist', 'security']).optional(),
+  limits: storyboardLimitsSchema.optional(),
+  llmProvider: llmProviderNameSchema.optional(),
+  ttsProvider: ttsProviderNameSchema.optional(), // speech engine for narration
+  voices: voiceLibrarySchema.optional(), // voice cast and per-scene assignments
+  language: z.enum(LANGUAGE_CODES).optional(), // target language for generation
+  quizTypes: z.array(z.enum(QUIZ_TYPES)).optional(),
+  brief: generationBriefSchema.optional(), // audience, tone, reading level, target length
+  glossary: glossarySchema.optional(), // required and forbidden terms
+  // Localized variants point at the master project they were translated from
+  masterProjectId: z.string().nullable().optional(),
+  doNotTranslate: z.array(z.string()).optional(),
+  storyboard: storyboardWithConceptsSchema.nullable(),
+  narration: narrationSchema.nullable(),
+  broll: brollSchema.nullable(),
+  renders: z.array(renderOutputSchema),
+  versions: z.array(storyboardVersionSchema).default([]),
+  currentVersionId: z.string().nullable().default(null),
+});
+
+export type Project = z.infer<typeof projectSchema>;
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'language' | 'masterProjectId'> & {
+  hasStoryboard: boolean;
+  renderCount: number;
+};
+
+// Everything except the bookkeeping fields can be patched. The storyboard
+// itself only changes through commitStoryboardVersion.
+export const projectPatchSchema = projectSchema
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+    storyboard: true,
+    versions: true,
+    currentVersionId: true,
+  })
+  .partial()
+  // Checked when saved, not when loaded
+  .extend({ glossary: glossaryInputSchema.optional() });
+
+export type ProjectPatch = z.infer<typeof projectPatchSchema>;
+
+/** What a project generates and narrates with; branches and localized variants start from these. */
+export function projectSettings(project: Project): ProjectPatch {
+  return {
+    sourceText: project.sourceText,
+    defaultStyle: project.defaultStyle,
+    limits: project.limits,
+    llmProvider: project.llmProvider,
+    ttsProvider: project.ttsProvider,
+    voices: project.voices,
+    language: project.language,
+    quizTypes: project.quizTypes,
+    brief: project.brief,
+    glossary: project.glossary,
+    doNotTranslate: project.doNotTranslate,
+  };
+}
+
+function projectPath(id: string) {
+  if (!projectIdSchema.safeParse(id).success) {
+    throw new Error(`Invalid project id: ${id}`);
+  }
+  return path.join(PROJECTS_DIR, `${id}.json`);
+}
+
+function writeProject(project: Project) {
+  if (!fs.existsSync(PROJECTS_DIR)) {
+    fs.mkdirSync(PROJECTS_DIR, { recursive: true });
+  }
+  const target = projectPath(project.id);
+  const tmp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(project, null, 2));
+  fs.renameSync(tmp, target);
+}
+
+export function getProject(id: string): Project | null {
+  const file = projectPath(id);
+  if (!fs.existsSync(file)) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    // Unreadable like an invalid one: skipped, so the other projects still list
+    console.error('[Projects] Corrupt project file:', file, error);
+    return null;
+  }
+
+  const parsed = projectSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error('[Projects] Corrupt project file:', file, parsed.error);
+    return null;
+  }
+  return parsed.data;
+}
+
+export function listProjects(): ProjectSummary[] {
+  if (!fs.existsSync(PROJECTS_DIR)) return [];
+
+  return fs
+    .readdirSync(PROJECTS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => getProject(file.slice(0, -'.json'.length)))
+    .filter((project): project is Project => project !== null)
+    .map((project) => ({
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      language: project.language,
+      masterProjectId: project.masterProjectId,
+      hasStoryboard: project.storyboard !== null,
+      renderCount: project.renders.length,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function createProject(input: { name: string } & ProjectPatch): Project {
+  const now = new Date().toISOString();
+  const project: Project = {
+    sourceText: '',
+    storyboard: null,
+    narration: null,
+    broll: null,
+    renders: [],
+    versions: [],
+    currentVersionId: null,
+    ...input,
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeProject(project);
+  console.log('[Projects] Created project', project.id, `"${project.name}"`);
+  return project;
+}
+
+export function updateProject(id: string, patch: ProjectPatch): Project | null {
+  const existing = getProject(id);
+  if (!existing) return null;
+
+  const project: Project = {
+    ...existing,
+    ...patch,
+    updatedAt: new Date().toISOString(),
+  };
+  writeProject(project);
+  return project;
+}
+
+export function addProjectRender(id: string, render: Omit<z.infer<typeof renderOutputSchema>, 'createdAt'>) {
+  const existing = getProject(id);
+  if (!existing) return null;
+
+  return updateProject(id, {
+    renders: [...existing.renders, { ...render, createdAt: new Date().toISOString() }],
+  });
+}
+
+export function commitStoryboardVersion(
+  id: string,
+  input: Pick<StoryboardVersion, 'storyboard' | 'author' | 'source' | 'note'> & { parentId?: string | null }
+): { project: Project; version: StoryboardVersion } | null {
+  const existing = getProject(id);
+  if (!existing) return null;
+
+  const version: StoryboardVersion = {
+    id: randomUUID(),
+    number: existing.versions.length + 1,
+    parentId: input.parentId === undefined ? existing.currentVersionId : input.parentId,
+    author: input.author,
+    source: input.source,
+    note: input.note,
+    createdAt: new Date().toISOString(),
+    storyboard: input.storyboard,
+  };
+
+  const project: Project = {
+    ...existing,
+    storyboard: version.storyboard,
+    versions: [...existing.versions, version],
+    currentVersionId: version.id,
+    updatedAt: version.createdAt,
+  };
+  writeProject(project);
+  console.log(`[Projects] Committed v${version.number} (${version.source}) on`, id);
+  return { project, version };
+}
+
+export function listLocalizations(masterProjectId: string): ProjectSummary[] {
+  return listProjects().filter((project) => project.masterProjectId === masterProjectId);
+}
+
+export function deleteProject(id: string): boolean {
+  const file = projectPath(id);
+  if (!fs.existsSync(file)) return false;
+  fs.unlinkSync(file);
+  deleteUploads(id);
+  console.log('[Projects] Deleted project', id);
+  return true;
+}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+
+// Original uploaded files live next to the project JSON, under data/uploads/<projectId>
+const DATA_DIR = path.join(process.cwd(), 'data');
+
+function safeFileName(fileName: string) {
+  return path.basename(fileName).replace(/[^\w.-]+/g, '_').slice(-120) || 'upload';
+}
+
+/** Stores the file and returns its path relative to data/. */
+export function saveUpload(projectId: string, fileName: string, buffer: Buffer): string {
+  if (!/^[\w-]+$/.test(projectId)) {
+    throw new Error(`Invalid project id: ${projectId}`);
+  }
+  const relative = path.join('uploads', projectId, `${Date.now()}-${safeFileName(fileName)}`);
+  const absolute = path.join(DATA_DIR, relative);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, buffer);
+  console.log('[Uploads] Saved', absolute, `(${buffer.length} bytes)`);
+  return relative;
+}
+
+/** Removes every file uploaded to the project. */
+export function deleteUploads(projectId: string) {
+  if (!/^[\w-]+$/.test(projectId)) return;
+  fs.rmSync(path.join(DATA_DIR, 'uploads', projectId), { recursive: true, force: true });
+}
+
+export function readUpload(storedPath: string): Buffer | null {
+  const absolute = path.resolve(DATA_DIR, storedPath);
+  // storedPath comes from a project file; never read outside data/uploads
+  if (!absolute.startsWith(path.join(DATA_DIR, 'uploads') + path.sep) || !fs.existsSync(absolute)) {
+    return null;
+  }
+  return fs.readFileSync(absolute);
+}
+
+/** Copies a stored upload into another project's folder; null when the original is gone. */
+export function copyUpload(storedPath: string, projectId: string): string | null {
+  const buffer = readUpload(storedPath);
+  return buffer ? saveUpload(projectId, path.basename(storedPath).replace(/^\d+-/, ''), buffer) : null;
+}
@@ -0,0 +1,12 @@
+import mammoth from 'mammoth';
+import { extractHtml } from './html';
+import type { ExtractedDocument } from './types';
+
+// mammoth maps Word's "Heading N" styles to <hN>, so the HTML path keeps them
+export async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const result = await mammoth.convertToHtml({ buffer });
+  if (result.messages.length > 0) {
+    console.log('[Ingest] mammoth messages:', result.messages.map((m) => m.message));
+  }
+  return extractHtml(result.value, 'docx');
+}
@@ -0,0 +1,48 @@
+import { parse, HTMLElement, NodeType, type Node } from 'node-html-parser';
+import { blocksToDocument, type DocumentFormat, type ExtractedDocument, type TextBlock } from './types';
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'nav', 'svg']);
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'blockquote', 'td', 'th', 'dd', 'dt', 'pre', 'figcaption']);
+
+function collectBlocks(node: Node, blocks: TextBlock[]) {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    // Loose text between block elements becomes its own paragraph
+    const text = node.text.trim();
+    if (text) blocks.push({ kind: 'paragraph', text: node.text });
+    return;
+  }
+  if (!(node instanceof HTMLElement)) return;
+
+  const tag = node.tagName?.toLowerCase() ?? '';
+  if (SKIPPED_TAGS.has(tag)) return;
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    blocks.push({ kind: 'heading', level: Number(heading[1]), text: node.text });
+    return;
+  }
+
+  if (tag === 'li') {
+    blocks.push({ kind: 'listItem', text: node.text });
+    return;
+  }
+
+  // Leaf blocks are taken whole; containers are walked so nested headings survive
+  const hasBlockChildren = node.childNodes.some(
+    (child) => child instanceof HTMLElement && (BLOCK_TAGS.has(child.tagName?.toLowerCase()) || /^(h[1-6]|ul|ol|li|table)$/i.test(child.tagName ?? ''))
+  );
+  if (BLOCK_TAGS.has(tag) && !hasBlockChildren) {
+    blocks.push({ kind: 'paragraph', text: node.text });
+    return;
+  }
+
+  node.childNodes.forEach((child) => collectBlocks(child, blocks));
+}
+
+export function extractHtml(html: string, format: DocumentFormat = 'html'): ExtractedDocument {
+  const root = parse(html, { comment: false });
+  const body = root.querySelector('body') ?? root;
+  const blocks: TextBlock[] = [];
+  collectBlocks(body, blocks);
+  return blocksToDocument(format, blocks);
+}
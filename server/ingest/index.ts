@@ -0,0 +1,52 @@
+import { extractPdf } from './pdf';
+import { extractDocx } from './docx';
+import { extractHtml } from './html';
+import { extractMarkdown } from './markdown';
+import type { DocumentFormat, ExtractedDocument } from './types';
+
+export * from './types';
+
+// What the original file is served as, whatever type the browser sent
+export const FORMAT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+// The extension decides; the browser-reported type only helps files without a known one
+export function detectFormat(fileName: string, mimeType: string): DocumentFormat | null {
+  const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0];
+  if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+  const type = mimeType.split(';')[0].trim();
+  const match = Object.entries(FORMAT_MIME_TYPES).find(([, mime]) => mime.split(';')[0] === type);
+  return match ? (match[0] as DocumentFormat) : null;
+}
+
+export async function extractDocument(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx':
+      return extractDocx(buffer);
+    case 'html':
+      return extractHtml(buffer.toString('utf8'));
+    case 'markdown':
+      return extractMarkdown(buffer.toString('utf8'));
+    case 'text':
+      return { format, text: buffer.toString('utf8').trim(), headings: [] };
+  }
+}
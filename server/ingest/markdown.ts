@@ -0,0 +1,50 @@
+import { blocksToDocument, type ExtractedDocument, type TextBlock } from './types';
+
+// Drops inline Markdown syntax but keeps the words
+function stripInline(text: string) {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~|`)/g, '');
+}
+
+export function extractMarkdown(markdown: string): ExtractedDocument {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', text: stripInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const listItem = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+
+    if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', level: heading[1].length, text: stripInline(heading[2]) });
+    } else if (listItem) {
+      flush();
+      blocks.push({ kind: 'listItem', text: stripInline(listItem[1]) });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line.replace(/^\s*>\s?/, ''));
+    }
+  }
+  flush();
+
+  return blocksToDocument('markdown', blocks);
+}
@@ -0,0 +1,73 @@
+import { extractTextItems, getDocumentProxy } from 'unpdf';
+import { blocksToDocument, type ExtractedDocument, type TextBlock } from './types';
+
+type Line = { text: string; fontSize: number };
+
+// Anything this much larger than body text is treated as a heading
+const HEADING_RATIO = 1.15;
+
+function toLines(items: { str: string; fontSize: number; hasEOL: boolean }[]): Line[] {
+  const lines: Line[] = [];
+  let current: Line = { text: '', fontSize: 0 };
+
+  for (const item of items) {
+    current.text += item.str;
+    if (item.str.trim()) current.fontSize = Math.max(current.fontSize, item.fontSize);
+    if (item.hasEOL) {
+      lines.push(current);
+      current = { text: '', fontSize: 0 };
+    }
+  }
+  lines.push(current);
+  return lines.filter((line) => line.text.trim());
+}
+
+/**
+ * PDFs carry no heading markup, so headings are inferred from font size:
+ * the size covering most characters is body text, and each larger size
+ * becomes a heading level (largest = 1).
+ */
+export async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { totalPages, items } = await extractTextItems(pdf);
+  const lines = items.flatMap(toLines);
+
+  const charsBySize = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize);
+    charsBySize.set(size, (charsBySize.get(size) ?? 0) + line.text.length);
+  }
+  const bodySize = [...charsBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+  const headingSizes = [...charsBySize.keys()]
+    .filter((size) => size >= bodySize * HEADING_RATIO)
+    .sort((a, b) => b - a)
+    .slice(0, 6);
+
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', text: paragraph.join(' ') });
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    const level = headingSizes.indexOf(Math.round(line.fontSize)) + 1;
+    const bullet = line.text.match(/^\s*[•●▪‣◦-]\s+(.*)$/);
+
+    if (level > 0 && line.text.length < 200) {
+      flush();
+      blocks.push({ kind: 'heading', level, text: line.text });
+    } else if (bullet) {
+      flush();
+      blocks.push({ kind: 'listItem', text: bullet[1] });
+    } else {
+      paragraph.push(line.text);
+      // A line ending a sentence usually ends the paragraph in policy PDFs
+      if (/[.!?:]\s*$/.test(line.text)) flush();
+    }
+  }
+  flush();
+
+  console.log(`[Ingest] PDF: ${totalPages} pages, body ${bodySize}pt, ${headingSizes.length} heading sizes`);
+  return blocksToDocument('pdf', blocks);
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+export const documentHeadingSchema = z.object({
+  level: z.number().int().min(1).max(6),
+  text: z.string(),
+});
+
+export type DocumentHeading = z.infer<typeof documentHeadingSchema>;
+
+export const documentFormatSchema = z.enum(['pdf', 'docx', 'markdown', 'html', 'text']);
+
+export type DocumentFormat = z.infer<typeof documentFormatSchema>;
+
+/**
+ * Plain text of an uploaded document. Headings stay in `text` as Markdown
+ * "#" lines so the model sees the structure, and are also listed separately
+ * so they can be passed to generation as an outline.
+ */
+export type ExtractedDocument = {
+  format: DocumentFormat;
+  text: string;
+  headings: DocumentHeading[];
+};
+
+// Shared by all extractors: blocks in reading order
+export type TextBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'listItem'; text: string };
+
+export function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function blocksToDocument(format: DocumentFormat, blocks: TextBlock[]): ExtractedDocument {
+  const lines: string[] = [];
+  const headings: DocumentHeading[] = [];
+
+  for (const block of blocks) {
+    const text = normalizeWhitespace(block.text);
+    if (!text) continue;
+
+    if (block.kind === 'heading') {
+      const level = Math.min(Math.max(block.level, 1), 6);
+      headings.push({ level, text });
+      lines.push('', `${'#'.repeat(level)} ${text}`, '');
+    } else if (block.kind === 'listItem') {
+      lines.push(`- ${text}`);
+    } else {
+      lines.push('', text, '');
+    }
+  }
+
+  return {
+    format,
+    text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    headings,
+  };
+}
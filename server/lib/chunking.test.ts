@@ -0,0 +1,85 @@
+import { TRPCError } from '@trpc/server';
+import { describe, expect, it } from 'vitest';
+import { chunkBySection, estimateTokens } from './chunking';
+import { condenseForStoryboard } from '../llm/mapReduce';
+import type { LLMProvider } from '../llm/types';
+
+const section = (heading: string, sentences: number) =>
+  `# ${heading}\n${Array.from({ length: sentences }, (_, i) => `${heading} rule ${i + 1} applies to everyone.`).join(' ')}\n`;
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('chunkBySection', () => {
+  it('packs small sections into one chunk under the first heading', () => {
+    const chunks = chunkBySection(`${section('Passwords', 2)}\n${section('Email', 2)}`, 1000);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, heading: 'Passwords' });
+    expect(chunks[0].text).toContain('# Email');
+  });
+
+  it('starts a new chunk at a section that no longer fits', () => {
+    const text = [section('Passwords', 8), section('Email', 8), section('Devices', 8)].join('\n');
+    const chunks = chunkBySection(text, 100);
+
+    expect(chunks.map((c) => c.heading)).toEqual(['Passwords', 'Email', 'Devices']);
+    expect(chunks.map((c) => c.index)).toEqual([0, 1, 2]);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(100);
+      expect(chunk.tokens).toBe(estimateTokens(chunk.text));
+    }
+  });
+
+  it('splits an oversized section on sentences and keeps every sentence', () => {
+    const text = section('Passwords', 40);
+    const chunks = chunkBySection(text, 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.heading === 'Passwords' && c.tokens <= 60)).toBe(true);
+    const rejoined = chunks.map((c) => c.text).join(' ');
+    for (let i = 1; i <= 40; i++) expect(rejoined).toContain(`Passwords rule ${i} applies`);
+  });
+
+  it('cuts text without any breaks at the hard length limit', () => {
+    const chunks = chunkBySection('x'.repeat(1000), 100);
+    expect(chunks.map((c) => c.text.length)).toEqual([400, 400, 200]);
+    expect(chunks[0].heading).toBeNull();
+  });
+});
+
+describe('condenseForStoryboard', () => {
+  // A 1000-token budget; every chunk comes back as notes of about `noteTokens` tokens
+  const provider = (noteTokens: number): LLMProvider => ({
+    name: 'mock',
+    model: 'notes',
+    supportsStrictSchema: true,
+    contextTokens: 1000,
+    completeJson: async () =>
+      JSON.stringify({ title: 'Notes', keyPoints: ['n'.repeat(noteTokens * 4)], facts: [], quotes: [] }),
+  });
+  const text = [section('Passwords', 60), section('Email', 60), section('Devices', 60)].join('\n');
+
+  it('passes text within the budget through untouched', async () => {
+    expect(await condenseForStoryboard({ provider: provider(10), text: section('Passwords', 2) })).toEqual({
+      text: section('Passwords', 2),
+      chunks: 0,
+    });
+  });
+
+  it('summarizes long text into notes that fit', async () => {
+    const condensed = await condenseForStoryboard({ provider: provider(50), text });
+    expect(condensed.chunks).toBeGreaterThan(1);
+    expect(estimateTokens(condensed.text)).toBeLessThanOrEqual(1000);
+  });
+
+  it('refuses notes still over budget after the last round', async () => {
+    const condense = condenseForStoryboard({ provider: provider(2000), text });
+    await expect(condense).rejects.toThrow(TRPCError);
+    await expect(condense).rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE', message: /after condensing it 3 times/ });
+  });
+});
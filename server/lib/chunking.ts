@@ -0,0 +1,97 @@
+// Rough but provider-neutral: ~4 characters per token for English/German prose
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export type TextChunk = {
+  index: number;
+  heading: string | null; // first section heading inside the chunk
+  text: string;
+  tokens: number;
+};
+
+type Section = { heading: string | null; text: string };
+
+// Splits on the "# Heading" lines that document ingestion leaves in the text
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { heading: null, text: '' };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading && current.text.trim()) {
+      sections.push(current);
+      current = { heading: heading[1].trim(), text: '' };
+    } else if (heading) {
+      current.heading = heading[1].trim();
+    }
+    current.text += `${line}\n`;
+  }
+  if (current.text.trim()) sections.push(current);
+  return sections;
+}
+
+// Breaks an oversized section on paragraphs, then sentences, then hard length
+function splitOversized(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return [text];
+
+  const separators = [/\n\s*\n/, /(?<=[.!?])\s+/];
+  for (const separator of separators) {
+    const parts = text.split(separator).filter((p) => p.trim());
+    if (parts.length > 1) {
+      return pack(parts, maxChars, separator.source.includes('\\n') ? '\n\n' : ' ').flatMap((p) =>
+        splitOversized(p, maxTokens)
+      );
+    }
+  }
+
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) pieces.push(text.slice(i, i + maxChars));
+  return pieces;
+}
+
+function pack(parts: string[], maxChars: number, joiner: string): string[] {
+  const packed: string[] = [];
+  let current = '';
+  for (const part of parts) {
+    if (current && current.length + joiner.length + part.length > maxChars) {
+      packed.push(current);
+      current = part;
+    } else {
+      current = current ? `${current}${joiner}${part}` : part;
+    }
+  }
+  if (current) packed.push(current);
+  return packed;
+}
+
+/**
+ * Cuts a document into chunks of at most `maxTokens`, keeping whole sections
+ * together where possible and packing small neighbouring sections into one
+ * chunk so the number of LLM calls stays low.
+ */
+export function chunkBySection(text: string, maxTokens: number): TextChunk[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const chunks: Omit<TextChunk, 'index'>[] = [];
+  let current: Omit<TextChunk, 'index'> | null = null;
+
+  for (const section of splitSections(text)) {
+    for (const piece of splitOversized(section.text, maxTokens)) {
+      if (current && current.text.length + piece.length <= maxChars) {
+        current.text += piece;
+      } else {
+        if (current) chunks.push(current);
+        current = { heading: section.heading, text: piece, tokens: 0 };
+      }
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks.map((chunk, index) => {
+    const text = chunk.text.trim();
+    return { ...chunk, index, text, tokens: estimateTokens(text) };
+  });
+}
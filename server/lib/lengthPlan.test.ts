@@ -0,0 +1,50 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TRPCError } from '@trpc/server';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { Speaker, TtsProvider } from '../tts/types';
+
+// No measured narration speeds: every voice reads at its language's typical pace
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'graphycs-length-'));
+vi.spyOn(process, 'cwd').mockReturnValue(root);
+
+const { planForDuration } = await import('./lengthPlan');
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+const speaker = (speed?: number): Speaker => ({
+  provider: {} as TtsProvider,
+  voice: { voiceId: 'narrator', modelId: 'test', settings: { speed } },
+});
+
+describe('planForDuration', () => {
+  it('fits as many quiz questions as the range allows and narrates the rest', () => {
+    const plan = planForDuration(300, 'en', { min: 1, max: 3 }, speaker());
+    expect(plan).toMatchObject({ quiz: 3, narrationSeconds: 246, wordsPerSecond: 2.6, measured: false });
+  });
+
+  it('drops quiz questions a short target has no room for', () => {
+    const plan = planForDuration(30, 'en', { min: 1, max: 3 }, speaker());
+    expect(plan.quiz).toBe(1);
+    expect(plan.narrationSeconds).toBe(12);
+  });
+
+  it('keeps lines short for long targets by adding scenes', () => {
+    const plan = planForDuration(800, 'en', { min: 3, max: 10 }, speaker());
+    expect(plan.wordsPerLine).toBeLessThanOrEqual(25);
+    expect(plan).toMatchObject({ modules: 10, overview: 5, points: 6 });
+  });
+
+  it('paces an unmeasured voice by its speed setting', () => {
+    expect(planForDuration(300, 'en', { min: 3, max: 3 }, speaker(1.2)).wordsPerSecond).toBeCloseTo(3.12, 6);
+  });
+
+  it('rejects targets no storyboard within the limits can reach', () => {
+    for (const target of [30, 1800]) {
+      const plan = () => planForDuration(target, 'en', { min: 3, max: 3 }, speaker());
+      expect(plan).toThrow(TRPCError);
+      expect(plan).toThrow(/exactly 3 quiz questions.*between 66 and 718 s/);
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { TRPCError } from '@trpc/server';
+import { countWords } from '../../lib/languages';
+import { narrationLines } from '../../lib/narration';
+import { describeRange } from '../../lib/storyboard';
+import { getNarrationSpeed } from '../db/narrationSpeed';
+import type { Speaker } from '../tts';
+
+// Rough length of one quiz scene: reading the question, the countdown and
+// the narrated answer (see remotion/QuizScene.tsx)
+const QUIZ_SCENE_SECONDS = 18;
+// One narrated line reads best at around this length, and at most this many
+// words; longer targets get more lines rather than longer ones
+const SECONDS_PER_LINE = 8;
+const MIN_WORDS_PER_LINE = 5;
+const MAX_WORDS_PER_LINE = 25;
+// intro + overview items + module points + summary, within the clamps below
+const MIN_LINES = 2 + 1 + 1 * 2;
+const MAX_LINES = 2 + 5 + 10 * 6;
+// Pause between narration segments (server/lib/narration.ts)
+const SEGMENT_PADDING = 0.3;
+
+export type LengthPlan = {
+  targetSeconds: number;
+  narrationSeconds: number;
+  wordsPerSecond: number;
+  measured: boolean; // false: the language's typical pace at the voice's speed, no voice data yet
+  quiz: number;
+  overview: number;
+  modules: number;
+  points: number;
+  wordsPerLine: number;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Measured clips already reflect the voice's speed setting; the language's
+// typical pace doesn't
+function voicePace(language: string, { voice }: Speaker) {
+  const pace = getNarrationSpeed(language, voice.voiceId);
+  return pace.measured ? pace : { ...pace, wordsPerSecond: pace.wordsPerSecond * (voice.settings?.speed ?? 1) };
+}
+
+// Seconds it takes to narrate this many lines of this many words
+const narrationTime = (lines: number, wordsPerLine: number, wordsPerSecond: number) =>
+  lines * (wordsPerLine / wordsPerSecond + SEGMENT_PADDING);
+
+/**
+ * Sizes a storyboard for a target video length: as many quiz questions as the
+ * range allows and fit, and the rest is narration, which at the speaker's
+ * pace gives a word budget spread over lines of about SECONDS_PER_LINE each.
+ * Throws BAD_REQUEST for targets no storyboard within the clamps can reach.
+ */
+export function planForDuration(
+  targetSeconds: number,
+  language: string,
+  quizRange: { min: number; max: number },
+  speaker: Speaker
+): LengthPlan {
+  const { wordsPerSecond, measured } = voicePace(language, speaker);
+
+  const shortestNarration = narrationTime(MIN_LINES, MIN_WORDS_PER_LINE, wordsPerSecond);
+  const shortest = Math.ceil(shortestNarration + quizRange.min * QUIZ_SCENE_SECONDS);
+  const longest = Math.floor(
+    narrationTime(MAX_LINES, MAX_WORDS_PER_LINE, wordsPerSecond) + quizRange.max * QUIZ_SCENE_SECONDS
+  );
+  if (targetSeconds < shortest || targetSeconds > longest) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `A ${targetSeconds} s video with ${describeRange(quizRange, 'quiz questions')} doesn't fit at this voice's pace; choose a target between ${shortest} and ${longest} s.`,
+    });
+  }
+
+  const quiz = clamp(Math.floor((targetSeconds - shortestNarration) / QUIZ_SCENE_SECONDS), quizRange.min, quizRange.max);
+  const narrationSeconds = targetSeconds - quiz * QUIZ_SCENE_SECONDS;
+  const lines = clamp(Math.round(narrationSeconds / SECONDS_PER_LINE), MIN_LINES, MAX_LINES);
+  const modules = clamp(Math.round((lines - 2) / 4), 1, 10);
+  const overview = clamp(modules, 1, 5);
+  const points = clamp(Math.round((lines - 2 - overview) / modules), 2, 6);
+  const lineCount = 2 + overview + modules * points;
+  // Segments are padded, so the spoken time is a little less than the narration
+  const spokenSeconds = narrationSeconds - lineCount * SEGMENT_PADDING;
+
+  return {
+    targetSeconds,
+    narrationSeconds,
+    wordsPerSecond,
+    measured,
+    quiz,
+    overview,
+    modules,
+    points,
+    wordsPerLine: clamp(Math.round((spokenSeconds * wordsPerSecond) / lineCount), MIN_WORDS_PER_LINE, MAX_WORDS_PER_LINE),
+  };
+}
+
+/** Seconds the speaker takes to read these lines as narration segments. */
+export function estimateSpeechSeconds(lines: string[], language: string, speaker: Speaker) {
+  const { wordsPerSecond } = voicePace(language, speaker);
+  const words = lines.reduce((acc, line) => acc + countWords(line, language), 0);
+  return words / wordsPerSecond + lines.length * SEGMENT_PADDING;
+}
+
+/** Expected video length of a generated storyboard at the speaker's pace. */
+export function estimateDuration(
+  storyboard: Parameters<typeof narrationLines>[0] & { quiz: unknown[] },
+  language: string,
+  speaker: Speaker
+) {
+  return Math.round(
+    estimateSpeechSeconds(narrationLines(storyboard), language, speaker) + storyboard.quiz.length * QUIZ_SCENE_SECONDS
+  );
+}
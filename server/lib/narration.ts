@@ -0,0 +1,141 @@
+import { parseBuffer } from 'music-metadata';
+import { getSpeaker, speakerKey, type CharacterAlignment, type Speaker, type TtsProviderName } from '../tts';
+import { countWords, splitSentences } from '../../lib/languages';
+import { voiceForScene, type VoiceLibrary } from '../../lib/voices';
+import type { NarrationLine } from '../../lib/narration';
+import { estimateWordTimings, wordTimingsFromCharacters } from '../../lib/wordTimings';
+import { recordNarrationSpeed } from '../db/narrationSpeed';
+import { quizNarration, type QuizQuestion } from '../../lib/quiz';
+import type { QuizAudio, Segment } from '../../remotion/Composition';
+
+const SEGMENT_PADDING = 0.3; // 300ms pause between segments
+
+/** Audio for a text in the speaker's voice. */
+export async function synthesizeSpeech(text: string, { provider, voice }: Speaker): Promise<Buffer> {
+  return (await provider.synthesize(text, voice)).audio;
+}
+
+/** One clip as a data URL, with its measured duration and the engine's alignment if it has one. */
+export async function synthesizeClip(
+  text: string,
+  { provider, voice }: Speaker
+): Promise<{ url: string; duration: number; alignment: CharacterAlignment | null }> {
+  const { audio: buffer, alignment } = await provider.synthesize(text, voice);
+  const { mimeType } = provider;
+
+  // Detect audio duration using music-metadata
+  const metadata = await parseBuffer(buffer, { mimeType });
+
+  // Convert to data URL for inline embedding
+  return {
+    url: `data:${mimeType};base64,${buffer.toString('base64')}`,
+    duration: metadata.format.duration || 0,
+    alignment,
+  };
+}
+
+type SegmentOptions = {
+  // Project voices per scene; scenes without one get the engine's voice
+  voices?: VoiceLibrary | null;
+  engine?: TtsProviderName;
+  reuse?: Segment[];
+  onSegment?: (index: number, total: number, segment: Segment, reused: boolean) => void;
+};
+
+/**
+ * One clip per sentence, embedded as data URLs, with start times
+ * laid out back to back. Used by the Voice step and by batch localization.
+ * Each sentence is spoken by its scene's voice from `voices` and carries
+ * its word timings: the engine's alignment, or an estimate from the
+ * clip's length for engines without one.
+ * Sentences that match one of `reuse` in the same voice keep that clip
+ * instead of being synthesized again, so editing one section only re-voices
+ * what changed. `onSegment` hears about each segment as soon as its clip is ready.
+ */
+export async function synthesizeSegments(
+  lines: NarrationLine[],
+  language: string,
+  { voices, engine, reuse = [], onSegment }: SegmentOptions = {}
+): Promise<{ segments: Segment[]; totalDuration: number }> {
+  console.log('[AudioSegments] Starting segmented TTS generation for', lines.length, 'lines');
+
+  // Split lines into sentences using the narration language's rules
+  const sentences = lines.flatMap(({ sceneId, text }) => {
+    const speaker = getSpeaker(voiceForScene(voices, sceneId, language), language, engine);
+    return splitSentences(text, language).map((sentence) => ({ sceneId, text: sentence, speaker, voice: speakerKey(speaker) }));
+  });
+
+  const speakers = new Set(sentences.map(({ speaker }) => `${speaker.provider.name} voice: ${speaker.voice.voiceId}, model: ${speaker.voice.modelId}`));
+  console.log('[AudioSegments] Split into', sentences.length, 'sentences', `(${language}, ${[...speakers].join('; ')})`);
+
+  const segments: Segment[] = [];
+  const existing = new Map(reuse.map((seg) => [`${seg.voice}:${seg.text}`, seg]));
+  let reused = 0;
+  let cumulativeTime = 0;
+  // Freshly synthesized speech per voice, for the voices' measured pace
+  const spoken = new Map<string, { words: number; seconds: number }>();
+
+  for (let i = 0; i < sentences.length; i++) {
+    const { sceneId, text: sentence, speaker, voice } = sentences[i];
+    const previous = existing.get(`${voice}:${sentence}`);
+    if (previous) reused++;
+    else console.log(`[AudioSegments] Processing segment ${i + 1}/${sentences.length}: "${sentence.substring(0, 50)}..."`);
+
+    const clip = previous ?? await synthesizeClip(sentence, speaker).catch((error) => {
+      throw new Error(`TTS failed for segment ${i}: ${error instanceof Error ? error.message : error}`);
+    });
+    // The engine's alignment; kept clips from before word timings get an estimate too
+    const alignment = 'alignment' in clip ? clip.alignment : null;
+    const words =
+      previous?.words ??
+      (alignment && wordTimingsFromCharacters(sentence, language, alignment.starts, alignment.ends)) ??
+      estimateWordTimings(sentence, language, clip.duration);
+    if (!previous) {
+      console.log(`[AudioSegments] Segment ${i + 1} duration:`, clip.duration.toFixed(2), 'seconds');
+      const pace = spoken.get(speaker.voice.voiceId) ?? { words: 0, seconds: 0 };
+      pace.words += countWords(sentence, language);
+      pace.seconds += clip.duration;
+      spoken.set(speaker.voice.voiceId, pace);
+    }
+
+    const segment = {
+      text: sentence,
+      start: cumulativeTime,
+      duration: clip.duration,
+      url: clip.url,
+      sceneId,
+      voice,
+      words
+    };
+    segments.push(segment);
+    onSegment?.(i, sentences.length, segment, !!previous);
+
+    cumulativeTime += clip.duration + SEGMENT_PADDING;
+  }
+
+  const totalDuration = cumulativeTime - SEGMENT_PADDING; // Remove last padding
+  for (const [voiceId, { words, seconds }] of spoken) {
+    recordNarrationSpeed(language, voiceId, words, seconds);
+  }
+  console.log('[AudioSegments] ===== SEGMENTATION COMPLETE =====');
+  console.log('[AudioSegments] Total segments:', segments.length, reused ? `(${reused} reused)` : '');
+  console.log('[AudioSegments] Total duration:', totalDuration.toFixed(2), 'seconds');
+  console.log('[AudioSegments] ===== END DEBUG =====');
+
+  return { segments, totalDuration };
+}
+
+/** Question and answer narration for every quiz scene, in quiz order, in one voice. */
+export async function synthesizeQuizNarration(quiz: QuizQuestion[], speaker: Speaker): Promise<QuizAudio[]> {
+  const result: QuizAudio[] = [];
+  for (const [i, question] of quiz.entries()) {
+    const { prompt, reveal } = quizNarration(question);
+    console.log(`[AudioSegments] Quiz ${i + 1}/${quiz.length}: narrating question and answer`);
+    const [promptClip, revealClip] = [await synthesizeClip(prompt, speaker), await synthesizeClip(reveal, speaker)];
+    result.push({
+      prompt: { url: promptClip.url, duration: promptClip.duration },
+      reveal: { url: revealClip.url, duration: revealClip.duration },
+    });
+  }
+  return result;
+}
@@ -0,0 +1,92 @@
+import type { Segment } from '../../remotion/Composition';
+import type { Storyboard } from '../../lib/storyboard';
+
+// Results a step has finished before the whole job returns, so the page can
+// show them while the rest is still running
+export type ProgressPartial =
+  | { kind: 'storyboard'; storyboard: Storyboard }
+  | { kind: 'segment'; index: number; segment: Omit<Segment, 'url'>; reused: boolean }
+  | { kind: 'clip'; index: number; sceneId: string; url: string };
+
+export type ProgressEvent = {
+  stage: string; // e.g. "map", "reduce", "storyboard", "voice", "broll"
+  current: number;
+  total: number;
+  message: string;
+  partial?: ProgressPartial;
+  at: number;
+};
+
+type Job = { events: ProgressEvent[]; done: boolean; updatedAt: number; listeners: Set<() => void> };
+
+// Jobs are forgotten this long after their last event
+const JOB_TTL_MS = 10 * 60 * 1000;
+
+// Kept on globalThis so Next's dev reloads don't drop running jobs
+const globalJobs = globalThis as unknown as { __graphycsJobs?: Map<string, Job> };
+const jobs = (globalJobs.__graphycsJobs ??= new Map<string, Job>());
+
+function prune() {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  for (const [id, job] of jobs) {
+    if (job.updatedAt < cutoff && !job.listeners.size) jobs.delete(id);
+  }
+}
+
+function getJob(jobId: string) {
+  let job = jobs.get(jobId);
+  if (!job) {
+    job = { events: [], done: false, updatedAt: Date.now(), listeners: new Set() };
+    jobs.set(jobId, job);
+  }
+  return job;
+}
+
+function notify(job: Job) {
+  job.updatedAt = Date.now();
+  for (const listener of job.listeners) listener();
+}
+
+/**
+ * Records a pipeline step for a client-supplied job id. Calls without a job
+ * id are no-ops so procedures can report unconditionally.
+ */
+export function reportProgress(jobId: string | undefined, event: Omit<ProgressEvent, 'at'>) {
+  if (!jobId) return;
+  prune();
+  const job = getJob(jobId);
+  job.events.push({ ...event, at: Date.now() });
+  notify(job);
+  console.log(`[Progress] ${jobId} ${event.stage} ${event.current}/${event.total}: ${event.message}`);
+}
+
+export function finishProgress(jobId: string | undefined) {
+  const job = jobId ? jobs.get(jobId) : undefined;
+  if (!job) return;
+  job.done = true;
+  notify(job);
+}
+
+/**
+ * Every event of a job as it happens, starting with the ones already
+ * recorded, until the job finishes or the caller aborts. The client may
+ * subscribe before the job's first event, so an unknown id waits for one.
+ */
+export async function* watchProgress(jobId: string, signal?: AbortSignal): AsyncGenerator<ProgressEvent> {
+  const job = getJob(jobId);
+  let sent = 0;
+  while (!signal?.aborted) {
+    while (sent < job.events.length) yield job.events[sent++];
+    if (job.done) return;
+
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        job.listeners.delete(wake);
+        signal?.removeEventListener('abort', wake);
+        resolve();
+      };
+      job.listeners.add(wake);
+      signal?.addEventListener('abort', wake);
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { bundle } from '@remotion/bundler';
+import { renderMedia, selectComposition } from '@remotion/renderer';
+import { join } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { renderOutputSchema, type RenderInput, type RenderOutput } from '../../lib/renderInput';
+
+export type { RenderInput } from '../../lib/renderInput';
+
+/** Webpack-bundles the Remotion project; batch renders reuse one bundle. */
+export async function bundleComposition() {
+  const bundleLocation = await bundle({
+    entryPoint: join(process.cwd(), 'remotion/index.tsx'),
+    webpackOverride: (config) => config,
+  });
+  console.log('[Render] Bundle created at:', bundleLocation);
+  return bundleLocation;
+}
+
+/**
+ * Renders one MP4 into public/renders and returns its public URL. Input is
+ * checked against renderInputSchema by the composition before rendering.
+ */
+export async function renderStoryboard(input: RenderInput, serveUrl?: string, output?: Partial<RenderOutput>) {
+  const { codec, crf, scale } = renderOutputSchema.parse(output);
+  const bundleLocation = serveUrl ?? (await bundleComposition());
+  const inputProps = {
+    storyboard: input.storyboard,
+    audioUrl: input.audioUrl,
+    brollClips: input.brollClips ?? undefined,
+    segments: input.segments ?? undefined,
+    quizAudio: input.quizAudio ?? undefined,
+    audioDuration: input.audioDuration ?? undefined,
+  };
+
+  // Get composition details
+  const composition = await selectComposition({
+    serveUrl: bundleLocation,
+    id: 'GraphycsComposition',
+    inputProps,
+  });
+
+  console.log('[Render] Composition selected:', composition.id);
+  console.log('[Render] Duration in frames:', composition.durationInFrames);
+  console.log('[Render] FPS:', composition.fps);
+  console.log('[Render] Dimensions:', `${composition.width}x${composition.height}`);
+
+  // Ensure output directory exists
+  const outputDir = join(process.cwd(), 'public', 'renders');
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+
+  // Generate output filename
+  const filename = `video-${Date.now()}.mp4`;
+  const outputPath = join(outputDir, filename);
+
+  console.log('[Render] Starting render to:', outputPath, `(${codec}, scale ${scale}${crf ? `, crf ${crf}` : ''})`);
+
+  // Render the video
+  await renderMedia({
+    composition,
+    serveUrl: bundleLocation,
+    codec,
+    crf,
+    scale,
+    outputLocation: outputPath,
+    inputProps,
+    onProgress: ({ progress, renderedFrames, encodedFrames }) => {
+      console.log(
+        `[Render] Progress: ${(progress * 100).toFixed(1)}% | ` +
+        `Rendered: ${renderedFrames}/${composition.durationInFrames} | ` +
+        `Encoded: ${encodedFrames}/${composition.durationInFrames}`
+      );
+    },
+  });
+
+  return {
+    outputPath,
+    videoUrl: `/renders/${filename}`,
+    duration: composition.durationInFrames / composition.fps,
+  };
+}
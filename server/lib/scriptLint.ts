@@ -0,0 +1,235 @@
+import { splitSentences, splitWords } from '../../lib/languages';
+import type { ReadingLevel } from '../../lib/brief';
+import { getRuntimeDurations, getSceneDurations, type Storyboard } from '../../remotion/Composition';
+import { theme } from '../../remotion/theme';
+import { estimateSpeechSeconds } from './lengthPlan';
+import { getSpeaker, type TtsProviderName } from '../tts';
+import { voiceForScene, type VoiceLibrary } from '../../lib/voices';
+
+export type LintRule = 'bullet-length' | 'sentence-complexity' | 'narration-fit' | 'duplicate-point' | 'distractor';
+
+export type LintWarning = {
+  rule: LintRule;
+  // Same addressing as sources and the glossary ("modules[1].points[0]"), or a
+  // whole scene ("intro", "overview", "modules[1]", "summary") or question ("quiz[2]")
+  path: string;
+  message: string;
+};
+
+export type LintOptions = {
+  readingLevel?: ReadingLevel;
+  // Segmented narration shows one sentence per scene and times scenes to the voice
+  segmented?: boolean;
+  // The project's engine and voice library; single-track narration is read by the default voice
+  voice?: TtsProviderName;
+  voices?: VoiceLibrary;
+};
+
+// A bullet may wrap once; a third line pushes the card's content out of frame
+const MAX_BULLET_LINES = 2;
+
+// Longest sentence (words) and most clause breaks a narrated sentence should have
+const SENTENCE_LIMITS: Record<ReadingLevel, { words: number; clauses: number }> = {
+  plain: { words: 15, clauses: 3 },
+  standard: { words: 22, clauses: 4 },
+  specialist: { words: 30, clauses: 5 },
+};
+
+// Token overlap above which two points are taken to say the same thing
+const DUPLICATE_SIMILARITY = 0.7;
+
+// CJK and other full-width characters are about 1em wide; Latin, Cyrillic and
+// Arabic text averages around half that in the body font
+const WIDE_CHAR = /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]/u;
+
+function estimateLines(text: string) {
+  const { bulletSize, bulletWidth } = theme.sceneText;
+  let width = 0;
+  for (const char of text) width += WIDE_CHAR.test(char) ? bulletSize : bulletSize * 0.52;
+  return Math.ceil(width / bulletWidth);
+}
+
+// Lowercased words without the short function words ("the", "and", "der");
+// CJK words are short by nature and always count
+function contentTokens(text: string, language: string) {
+  return new Set(
+    splitWords(text, language)
+      .map((word) => word.toLowerCase())
+      .filter((word) => word.length >= 4 || WIDE_CHAR.test(word))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+function lintBullets(storyboard: Storyboard, options: LintOptions): LintWarning[] {
+  const bullets: { path: string; text: string }[] = [
+    ...storyboard.overview.map((text, i) => ({ path: `overview[${i}]`, text })),
+    ...storyboard.modules.flatMap((m, i) => [
+      // Module titles are the bullets of the summary scene
+      { path: `modules[${i}].title`, text: m.title },
+      ...m.points.map((text, j) => ({ path: `modules[${i}].points[${j}]`, text })),
+    ]),
+  ];
+  // Segmented narration also puts the intro and summary on screen, a sentence at a time
+  if (options.segmented) {
+    for (const path of ['intro', 'summary'] as const) {
+      for (const text of splitSentences(storyboard[path], storyboard.language)) bullets.push({ path, text });
+    }
+  }
+
+  return bullets.flatMap(({ path, text }) => {
+    const lines = estimateLines(text);
+    return lines > MAX_BULLET_LINES
+      ? [{ rule: 'bullet-length' as const, path, message: `Wraps to about ${lines} lines on screen; keep it under ${MAX_BULLET_LINES}.` }]
+      : [];
+  });
+}
+
+function lintSentences(storyboard: Storyboard, options: LintOptions): LintWarning[] {
+  const level = options.readingLevel ?? 'standard';
+  const limits = SENTENCE_LIMITS[level];
+  const texts = [
+    { path: 'intro', text: storyboard.intro },
+    ...storyboard.overview.map((text, i) => ({ path: `overview[${i}]`, text })),
+    ...storyboard.modules.flatMap((m, i) => m.points.map((text, j) => ({ path: `modules[${i}].points[${j}]`, text }))),
+    { path: 'summary', text: storyboard.summary },
+    ...storyboard.quiz.map((q, i) => ({ path: `quiz[${i}]`, text: q.q })),
+  ];
+
+  return texts.flatMap(({ path, text }) => {
+    const warnings: LintWarning[] = [];
+    for (const sentence of splitSentences(text, storyboard.language)) {
+      const words = splitWords(sentence, storyboard.language).length;
+      const clauses = (sentence.match(/[,;:，、；：]/gu) ?? []).length + 1;
+      if (words > limits.words) {
+        warnings.push({
+          rule: 'sentence-complexity',
+          path,
+          message: `A sentence has ${words} words; ${level} reading level calls for at most ${limits.words}.`,
+        });
+      } else if (clauses > limits.clauses) {
+        warnings.push({
+          rule: 'sentence-complexity',
+          path,
+          message: `A sentence has ${clauses} clauses; split it for ${level} reading level.`,
+        });
+      }
+    }
+    return warnings;
+  });
+}
+
+// Only single-track narration can outrun its scenes; segmented scenes follow the voice
+function lintNarrationFit(storyboard: Storyboard, options: LintOptions): LintWarning[] {
+  if (options.segmented) return [];
+  const fps = 30;
+  const seconds = getRuntimeDurations(getSceneDurations(storyboard, fps)).map((frames) => frames / fps);
+  const speaker = getSpeaker(
+    voiceForScene(options.voices, null, storyboard.language),
+    storyboard.language,
+    options.voice
+  );
+  const scenes = [
+    { path: 'intro', lines: [storyboard.intro] },
+    { path: 'overview', lines: storyboard.overview },
+    ...storyboard.modules.map((m, i) => ({ path: `modules[${i}]`, lines: m.points })),
+    { path: 'summary', lines: [storyboard.summary] },
+  ];
+
+  return scenes.flatMap(({ path, lines }, index) => {
+    const spoken = estimateSpeechSeconds(lines, storyboard.language, speaker);
+    return spoken > seconds[index]
+      ? [{
+          rule: 'narration-fit' as const,
+          path,
+          message: `Narration takes about ${spoken.toFixed(1)}s but the scene shows for ${seconds[index].toFixed(1)}s; shorten it or use segmented narration.`,
+        }]
+      : [];
+  });
+}
+
+function lintDuplicatePoints(storyboard: Storyboard): LintWarning[] {
+  const points = storyboard.modules.flatMap((m, i) =>
+    m.points.map((text, j) => ({ module: i, point: j, tokens: contentTokens(text, storyboard.language) }))
+  );
+  const warnings: LintWarning[] = [];
+  for (const [k, a] of points.entries()) {
+    for (const b of points.slice(k + 1)) {
+      if (a.module === b.module || a.tokens.size < 3 || b.tokens.size < 3) continue;
+      if (similarity(a.tokens, b.tokens) >= DUPLICATE_SIMILARITY) {
+        warnings.push({
+          rule: 'duplicate-point',
+          path: `modules[${b.module}].points[${b.point}]`,
+          message: `Repeats module ${a.module + 1}, point ${a.point + 1}.`,
+        });
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Distractors a learner can rule out without knowing the content: duplicates,
+ * options much shorter than the answer, an answer that stands out as the only
+ * long option, and options that share no words with the question or module.
+ */
+function lintDistractors(storyboard: Storyboard): LintWarning[] {
+  const { language } = storyboard;
+  return storyboard.quiz.flatMap((question, index) => {
+    if (question.type !== 'multiple_choice' && question.type !== 'multi_select') return [];
+    const path = `quiz[${index}]`;
+    const warnings: LintWarning[] = [];
+    const warn = (message: string) => warnings.push({ rule: 'distractor', path, message });
+
+    const texts = question.options.map((o) => o.text.trim());
+    const correct = question.correct.map((i) => texts[i] ?? '');
+    const distractors = texts.map((text, i) => ({ text, i })).filter(({ i }) => !question.correct.includes(i));
+    if (!distractors.length || !correct.length) return [];
+
+    const seen = new Map<string, number>();
+    texts.forEach((text, i) => {
+      const key = text.toLowerCase();
+      if (seen.has(key)) warn(`Options ${optionLetter(seen.get(key)!)} and ${optionLetter(i)} are the same.`);
+      else seen.set(key, i);
+    });
+
+    const shortestCorrect = Math.min(...correct.map((t) => t.length));
+    const longestDistractor = Math.max(...distractors.map((d) => d.text.length));
+    if (question.correct.length === 1 && shortestCorrect > longestDistractor * 1.8 && shortestCorrect - longestDistractor > 20) {
+      warn(`The answer is by far the longest option, which gives it away.`);
+    }
+
+    const tested = question.moduleIndex === null ? undefined : storyboard.modules[question.moduleIndex];
+    const moduleTokens = contentTokens(tested ? [tested.title, ...tested.points].join(' ') : '', language);
+    for (const { text, i } of distractors) {
+      if (text.length < shortestCorrect * 0.35) {
+        warn(`Option ${optionLetter(i)} is much shorter than the answer and looks implausible.`);
+        continue;
+      }
+      const own = contentTokens(text, language);
+      const others = contentTokens([question.q, ...texts.filter((_, j) => j !== i)].join(' '), language);
+      if (own.size >= 2 && ![...own].some((token) => others.has(token) || moduleTokens.has(token))) {
+        warn(`Option ${optionLetter(i)} has nothing to do with the question; learners can rule it out.`);
+      }
+    }
+    return warnings;
+  });
+}
+
+/** Readability, on-screen length and narration-fit warnings for a storyboard. */
+export function lintStoryboard(storyboard: Storyboard, options: LintOptions = {}): LintWarning[] {
+  return [
+    ...lintBullets(storyboard, options),
+    ...lintSentences(storyboard, options),
+    ...lintNarrationFit(storyboard, options),
+    ...lintDuplicatePoints(storyboard),
+    ...lintDistractors(storyboard),
+  ];
+}
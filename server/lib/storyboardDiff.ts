@@ -0,0 +1,48 @@
+export type FieldChange = {
+  path: string; // e.g. "modules[1].points[2]" or "quiz[0].correct"
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function walk(before: unknown, after: unknown, path: string, changes: FieldChange[]) {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const itemPath = `${path}[${i}]`;
+      if (i >= after.length) changes.push({ path: itemPath, kind: 'removed', before: before[i] });
+      else if (i >= before.length) changes.push({ path: itemPath, kind: 'added', after: after[i] });
+      else walk(before[i], after[i], itemPath, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) changes.push({ path: keyPath, kind: 'removed', before: before[key] });
+      else if (!(key in before)) changes.push({ path: keyPath, kind: 'added', after: after[key] });
+      else walk(before[key], after[key], keyPath, changes);
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * Field-level diff between two storyboards. Lists are compared by position,
+ * so reordering modules shows up as changes on every moved field.
+ */
+export function diffStoryboards(before: unknown, after: unknown): FieldChange[] {
+  const changes: FieldChange[] = [];
+  walk(before, after, '', changes);
+  return changes;
+}
@@ -0,0 +1,98 @@
+import { TRPCError } from '@trpc/server';
+import { describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+import { alignVisualPlan } from '../../lib/visualPlan';
+import { parseStoryboardFile, serializeStoryboard, STORYBOARD_SCHEMA_VERSION } from './storyboardFile';
+
+const fields = {
+  title: 'Password basics',
+  language: 'en',
+  intro: 'Passwords protect our data.',
+  overview: ['Why passwords matter'],
+  modules: [
+    { title: 'Strong passwords', points: ['Use long passphrases.'] },
+    { title: 'Password managers', points: ['Let the manager generate them.'] },
+  ],
+  summary: 'Long, unique passwords keep accounts safe.',
+};
+
+const question = {
+  type: 'multiple_choice' as const,
+  q: 'What makes a password strong?',
+  moduleIndex: null,
+  options: [
+    { text: 'Length', feedback: '' },
+    { text: 'Your birthday', feedback: '' },
+  ],
+  correct: [0],
+  explanation: '',
+};
+
+const storyboard = { ...fields, quiz: [question], visualPlan: alignVisualPlan(null, fields) };
+
+// The error an import of this content fails with
+function importError(content: string) {
+  try {
+    parseStoryboardFile(content);
+  } catch (error) {
+    return error as TRPCError;
+  }
+  throw new Error('expected the import to fail');
+}
+
+describe('parseStoryboardFile', () => {
+  it.each(['json', 'yaml'] as const)('reads back an exported %s file unchanged', (format) => {
+    const result = parseStoryboardFile(serializeStoryboard(storyboard, format));
+    expect(result).toEqual({ storyboard, migratedFrom: null });
+  });
+
+  it('migrates a version 1 file with legacy quiz questions and module concepts', () => {
+    const file = {
+      ...fields,
+      quiz: [{ q: question.q, a: ['Length', 'Your birthday'], correct: 0 }],
+      moduleConcepts: ['padlock on a keyboard', ''],
+    };
+    const { storyboard: migrated, migratedFrom } = parseStoryboardFile(JSON.stringify(file));
+
+    expect(migratedFrom).toBe(1);
+    expect(migrated.quiz).toEqual([question]);
+    expect(migrated.visualPlan['module-0'].brollPrompt).toBe('padlock on a keyboard');
+    expect(migrated.visualPlan['module-1']).toEqual(storyboard.visualPlan['module-1']);
+    expect(migrated).not.toHaveProperty('moduleConcepts');
+  });
+
+  it('migrates a version 2 file from module concepts to a visual plan', () => {
+    const file = { schemaVersion: 2, ...fields, quiz: [question], moduleConcepts: ['server rack'] };
+    const { storyboard: migrated, migratedFrom } = parseStoryboardFile(YAML.stringify(file));
+
+    expect(migratedFrom).toBe(2);
+    expect(Object.keys(migrated.visualPlan)).toEqual(['intro', 'overview', 'module-0', 'module-1', 'summary']);
+    expect(migrated.visualPlan['module-0'].brollPrompt).toBe('server rack');
+  });
+
+  it('rejects files from a newer app version', () => {
+    const error = importError(JSON.stringify({ ...storyboard, schemaVersion: STORYBOARD_SCHEMA_VERSION + 1 }));
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe('BAD_REQUEST');
+    expect(error.message).toMatch(/reads up to 3/);
+  });
+
+  it('rejects a schemaVersion that is not a whole number', () => {
+    expect(importError('schemaVersion: "two"\n').message).toBe('schemaVersion must be a whole number, got "two"');
+  });
+
+  it('rejects content that is neither JSON nor YAML', () => {
+    const error = importError('title: [unclosed');
+    expect(error.code).toBe('BAD_REQUEST');
+    expect(error.message).toMatch(/^Not valid JSON or YAML/);
+  });
+
+  it('names the path and line of every invalid field', () => {
+    const content = serializeStoryboard(storyboard, 'yaml').replace('language: en', 'language: 42');
+    const error = importError(content);
+    const line = content.split('\n').findIndex((l) => l.startsWith('language:')) + 1;
+
+    expect(error.code).toBe('BAD_REQUEST');
+    expect(error.message).toContain(`- language (line ${line}):`);
+  });
+});
@@ -0,0 +1,130 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import YAML, { LineCounter, type Document } from 'yaml';
+import { migrateLegacyQuestion } from '../../lib/quiz';
+import { alignVisualPlan, migrateModuleConcepts, visualPlanSchema } from '../../lib/visualPlan';
+import { formatIssuePath } from '../../lib/validation';
+import { refineQuizModules, storyboardSchema, type StoryboardWithConcepts } from '../../lib/storyboard';
+
+// Storyboards as files for review outside the app (Legal, translators, other
+// tools): the storyboard fields at the top level next to a schemaVersion,
+// as JSON or YAML. Files from older versions are migrated on import.
+export const STORYBOARD_SCHEMA_VERSION = 3;
+
+export const STORYBOARD_FORMATS = ['json', 'yaml'] as const;
+export type StoryboardFormat = (typeof STORYBOARD_FORMATS)[number];
+
+// Where the published JSON Schema lives (app/api/schema/storyboard)
+const SCHEMA_URL = `${process.env.BASE_URL || 'http://localhost:3000'}/api/schema/storyboard`;
+
+const storyboardFileSchema = storyboardSchema
+  .extend({
+    $schema: z.string().optional(),
+    schemaVersion: z.literal(STORYBOARD_SCHEMA_VERSION),
+    // Left out or missing scenes get generic visuals
+    visualPlan: visualPlanSchema.optional(),
+  })
+  .superRefine(refineQuizModules);
+
+type FileObject = Record<string, unknown>;
+
+// Each entry lifts a file from its version to the next one
+const MIGRATIONS: Record<number, (file: FileObject) => FileObject> = {
+  // Version 1 had no schemaVersion and quiz questions as { q, a, correct }
+  1: (file) => ({
+    ...file,
+    quiz: Array.isArray(file.quiz) ? file.quiz.map(migrateLegacyQuestion) : file.quiz,
+  }),
+  // Version 2 had one B-roll concept string per module instead of a visual plan
+  2: (file) => migrateModuleConcepts(file) as FileObject,
+};
+
+/** The published JSON Schema of the file format. */
+export function storyboardFileJsonSchema() {
+  return {
+    ...z.toJSONSchema(storyboardFileSchema),
+    $id: SCHEMA_URL,
+    title: 'Graphycs storyboard',
+    description: `Training video storyboard, schema version ${STORYBOARD_SCHEMA_VERSION}`,
+  };
+}
+
+export function serializeStoryboard(storyboard: StoryboardWithConcepts, format: StoryboardFormat) {
+  const file = { schemaVersion: STORYBOARD_SCHEMA_VERSION, ...storyboard };
+  if (format === 'json') {
+    return JSON.stringify({ $schema: SCHEMA_URL, ...file }, null, 2) + '\n';
+  }
+  // Picked up by editors with the YAML language server for completion and checks
+  return `# yaml-language-server: $schema=${SCHEMA_URL}\n${YAML.stringify(file, { lineWidth: 0 })}`;
+}
+
+// Line of the closest node that exists, so a missing field points at its parent
+// (top-level fields have none worth naming)
+function lineOf(document: Document, lineCounter: LineCounter, path: PropertyKey[]) {
+  for (let depth = path.length; depth > 0; depth--) {
+    const node = document.getIn(path.slice(0, depth), true) as { range?: [number, number, number] } | undefined;
+    if (node?.range) return lineCounter.linePos(node.range[0]).line;
+  }
+  return null;
+}
+
+// A file that can't be imported is the uploader's to fix, not a server error
+function invalidFile(message: string) {
+  return new TRPCError({ code: 'BAD_REQUEST', message });
+}
+
+/**
+ * Reads a storyboard file (JSON is valid YAML, so one parser serves both),
+ * migrates it to the current version and validates it. Errors list every
+ * problem with its field path and line.
+ */
+export function parseStoryboardFile(content: string): { storyboard: StoryboardWithConcepts; migratedFrom: number | null } {
+  const lineCounter = new LineCounter();
+  const document = YAML.parseDocument(content, { lineCounter, prettyErrors: true });
+  if (document.errors.length) {
+    throw invalidFile(`Not valid JSON or YAML: ${document.errors[0].message}`);
+  }
+
+  let file = document.toJS() as unknown;
+  if (!file || typeof file !== 'object' || Array.isArray(file)) {
+    throw invalidFile('A storyboard file must contain an object with the storyboard fields');
+  }
+
+  const rawVersion = (file as FileObject).schemaVersion ?? 1;
+  if (typeof rawVersion !== 'number' || !Number.isInteger(rawVersion) || rawVersion < 1) {
+    throw invalidFile(`schemaVersion must be a whole number, got ${JSON.stringify(rawVersion)}`);
+  }
+  if (rawVersion > STORYBOARD_SCHEMA_VERSION) {
+    throw invalidFile(
+      `This file has schemaVersion ${rawVersion}; this app reads up to ${STORYBOARD_SCHEMA_VERSION}. Update the app to import it.`
+    );
+  }
+  for (let version = rawVersion; version < STORYBOARD_SCHEMA_VERSION; version++) {
+    try {
+      file = { ...MIGRATIONS[version](file as FileObject), schemaVersion: version + 1 };
+    } catch (error) {
+      throw invalidFile(
+        `Could not migrate from schema version ${version}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  if (rawVersion < STORYBOARD_SCHEMA_VERSION) {
+    console.log(`[StoryboardFile] Migrated from schema version ${rawVersion} to ${STORYBOARD_SCHEMA_VERSION}`);
+  }
+
+  const parsed = storyboardFileSchema.safeParse(file);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => {
+      const line = lineOf(document, lineCounter, issue.path);
+      return `- ${formatIssuePath(issue.path)}${line ? ` (line ${line})` : ''}: ${issue.message}`;
+    });
+    throw invalidFile(`Storyboard file has ${problems.length} problem(s):\n${problems.join('\n')}`);
+  }
+
+  // Parsing again leaves out $schema and schemaVersion
+  const storyboard = storyboardSchema.parse(parsed.data);
+  return {
+    storyboard: { ...storyboard, visualPlan: alignVisualPlan(parsed.data.visualPlan, storyboard) },
+    migratedFrom: rawVersion < STORYBOARD_SCHEMA_VERSION ? rawVersion : null,
+  };
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { createOpenAIProvider } from './openai';
+import { createLocalProvider } from './local';
+import { createMockProvider } from './mock';
+import type { LLMProvider, LLMProviderName } from './types';
+import { standinsEnabled } from '../standins/config';
+import { cacheKey, readCache, writeCache } from '../db/cache';
+
+export type { LLMProvider, LLMProviderName } from './types';
+export { generateStructured } from './structured';
+
+export const llmProviderNameSchema = z.enum(['openai', 'local', 'mock']);
+
+/**
+ * Resolves the provider to use: an explicit choice (e.g. from the project)
+ * wins, then LLM_PROVIDER, then the mock in stand-in mode, then OpenAI.
+ * Returns null when the chosen provider isn't configured so callers can fall back.
+ * `fresh` skips cached replies (and replaces them), for a user asking again.
+ */
+export function getLLMProvider(name?: LLMProviderName, options: { fresh?: boolean } = {}): LLMProvider | null {
+  const envChoice = llmProviderNameSchema.safeParse(process.env.LLM_PROVIDER);
+  const choice = name ?? (envChoice.success ? envChoice.data : standinsEnabled() ? 'mock' : 'openai');
+
+  const provider = createProvider(choice);
+  return provider && withCache(provider, options.fresh ?? false);
+}
+
+function createProvider(name: LLMProviderName): LLMProvider | null {
+  switch (name) {
+    case 'local':
+      return createLocalProvider();
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAIProvider();
+  }
+}
+
+/**
+ * Serves replies from the cache when the same provider and model already got
+ * exactly this request (messages, schema, temperature), so generating again
+ * from unchanged text costs nothing. A fresh provider asks the model anyway.
+ */
+function withCache(provider: LLMProvider, fresh: boolean): LLMProvider {
+  return {
+    ...provider,
+    async completeJson(request) {
+      const key = cacheKey({ provider: provider.name, model: provider.model, ...request });
+      const hit = fresh ? null : readCache('llm', key, '.json');
+      if (hit) return (JSON.parse(hit.toString('utf8')) as { content: string }).content;
+
+      const content = await provider.completeJson(request);
+      if (content) {
+        writeCache('llm', key, '.json', JSON.stringify({ provider: provider.name, model: provider.model, name: request.name, content }));
+      }
+      return content;
+    },
+  };
+}
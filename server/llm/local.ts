@@ -0,0 +1,36 @@
+import OpenAI from 'openai';
+import type { LLMProvider } from './types';
+
+/**
+ * Any OpenAI-compatible chat endpoint running on our own hardware, e.g.
+ * Ollama (http://localhost:11434/v1) or llama.cpp's server (http://localhost:8080/v1).
+ * These rarely honour strict JSON schemas, so we only ask for JSON mode and
+ * let generateStructured validate and repair the result.
+ */
+export function createLocalProvider(): LLMProvider {
+  const baseURL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+  const client = new OpenAI({
+    baseURL,
+    // Local servers ignore the key, but the SDK insists on one
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+  });
+
+  console.log('[LocalLLM] Using endpoint:', baseURL);
+
+  return {
+    name: 'local',
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    supportsStrictSchema: false,
+    contextTokens: parseInt(process.env.LOCAL_LLM_CONTEXT_TOKENS || '8192', 10),
+
+    async completeJson({ messages, temperature }) {
+      const response = await client.chat.completions.create({
+        model: this.model,
+        messages,
+        response_format: { type: 'json_object' },
+        temperature,
+      });
+      return response.choices[0]?.message?.content ?? null;
+    },
+  };
+}
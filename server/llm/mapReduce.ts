@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { generateStructured } from './structured';
+import type { LLMProvider } from './types';
+import { chunkBySection, estimateTokens, type TextChunk } from '../lib/chunking';
+import { reportProgress } from '../lib/progress';
+import { locateQuote } from '../../lib/sourceSpans';
+
+// Room left for instructions, schema and the model's answer
+const PROMPT_OVERHEAD_TOKENS = 2000;
+// Smaller chunks give more faithful notes; no point going beyond this
+const MAX_CHUNK_TOKENS = 8000;
+// Notes of notes of notes is as far as we go
+const MAX_REDUCE_LEVELS = 3;
+
+const sectionNotesSchema = z.object({
+  title: z.string(),
+  keyPoints: z.array(z.string()).min(1),
+  facts: z.array(z.string()),
+  // Verbatim passages behind the key points, so citations survive condensing
+  quotes: z.array(z.string()),
+});
+
+export type SectionNotes = z.infer<typeof sectionNotesSchema>;
+
+/** Tokens of source text that fit in a single storyboard prompt. */
+export function inputTokenBudget(provider: LLMProvider) {
+  return Math.max(1000, Math.floor(provider.contextTokens * 0.6) - PROMPT_OVERHEAD_TOKENS);
+}
+
+function chunkTokens(provider: LLMProvider) {
+  return Math.min(inputTokenBudget(provider), MAX_CHUNK_TOKENS);
+}
+
+// Used when the model fails on a chunk, so one bad call doesn't lose a section
+function fallbackNotes(chunk: TextChunk): SectionNotes {
+  const sentences = chunk.text
+    .replace(/^#{1,6}\s+.*$/gm, '')
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return {
+    title: chunk.heading ?? `Part ${chunk.index + 1}`,
+    keyPoints: sentences.slice(0, 5).length ? sentences.slice(0, 5) : [chunk.text.slice(0, 200)],
+    facts: [],
+    quotes: sentences.slice(0, 5),
+  };
+}
+
+// Keeps the quotes that really occur in the chunk and in the original document
+// (the chunk is itself notes from the second level on), as the exact text there
+function verbatimQuotes(quotes: string[], chunk: TextChunk, original: string) {
+  return quotes.flatMap((quote) => {
+    const span = locateQuote(chunk.text, quote);
+    if (!span || !locateQuote(original, quote)) return [];
+    return [chunk.text.slice(span.start, span.end)];
+  });
+}
+
+/**
+ * Map step: condenses every chunk into structured notes, one call per chunk.
+ * `original` is the document the quotes must come from (default: each chunk).
+ */
+export async function summarizeChunks({
+  provider,
+  chunks,
+  original,
+  jobId,
+}: {
+  provider: LLMProvider;
+  chunks: TextChunk[];
+  original?: string;
+  jobId?: string;
+}): Promise<SectionNotes[]> {
+  const notes: SectionNotes[] = [];
+
+  for (const chunk of chunks) {
+    reportProgress(jobId, {
+      stage: 'map',
+      current: chunk.index + 1,
+      total: chunks.length,
+      message: `Summarizing ${chunk.heading ? `"${chunk.heading}"` : `part ${chunk.index + 1}`} (${chunk.tokens} tokens)`,
+    });
+
+    const result = await generateStructured({
+      provider,
+      name: 'section_notes',
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You condense one section of a company policy into notes for a training video. Keep every obligation, deadline, role and number, in the language of the section. Do not invent anything.',
+        },
+        {
+          role: 'user',
+          content: `Section ${chunk.index + 1} of ${chunks.length}. Return a short title, the key points (max 8), concrete facts worth testing in a quiz, and up to 6 short quotes copied verbatim from the text that back the key points (copy "Quote:" lines as they are).\n\nText: ${chunk.text}`,
+        },
+      ],
+      schema: sectionNotesSchema,
+      temperature: 0.2,
+    });
+
+    notes.push(
+      result
+        ? { ...result, quotes: verbatimQuotes(result.quotes, chunk, original ?? chunk.text) }
+        : fallbackNotes(chunk)
+    );
+  }
+
+  return notes;
+}
+
+export function renderNotes(notes: SectionNotes[]) {
+  return notes
+    .map((n) =>
+      [
+        `## ${n.title}`,
+        ...n.keyPoints.map((p) => `- ${p}`),
+        ...n.facts.map((f) => `- Fact: ${f}`),
+        ...n.quotes.map((q) => `- Quote: "${q}"`),
+      ].join('\n')
+    )
+    .join('\n\n');
+}
+
+/**
+ * Returns text that fits the provider's budget for a single storyboard
+ * prompt. Short inputs pass through untouched; long ones are chunked by
+ * section and summarized, repeatedly if the notes are still too long. The
+ * notes carry "Quote:" lines copied verbatim from the document, the only
+ * part of them that citations can point back to. Throws PAYLOAD_TOO_LARGE
+ * when the notes still don't fit after MAX_REDUCE_LEVELS rounds, rather
+ * than sending a prompt the model would truncate.
+ */
+export async function condenseForStoryboard({
+  provider,
+  text,
+  jobId,
+}: {
+  provider: LLMProvider;
+  text: string;
+  jobId?: string;
+}): Promise<{ text: string; chunks: number }> {
+  const budget = inputTokenBudget(provider);
+  if (estimateTokens(text) <= budget) {
+    return { text, chunks: 0 };
+  }
+
+  let current = text;
+  let firstLevelChunks = 0;
+  for (let level = 1; level <= MAX_REDUCE_LEVELS; level++) {
+    const chunks = chunkBySection(current, chunkTokens(provider));
+    if (level === 1) firstLevelChunks = chunks.length;
+    console.log(`[MapReduce] Level ${level}: ${estimateTokens(current)} tokens → ${chunks.length} chunks (budget ${budget})`);
+
+    current = renderNotes(await summarizeChunks({ provider, chunks, original: text, jobId }));
+    reportProgress(jobId, {
+      stage: 'reduce',
+      current: level,
+      total: MAX_REDUCE_LEVELS,
+      message: `Condensed to ${estimateTokens(current)} tokens of notes`,
+    });
+    if (estimateTokens(current) <= budget) {
+      return { text: current, chunks: firstLevelChunks };
+    }
+  }
+
+  throw new TRPCError({
+    code: 'PAYLOAD_TOO_LARGE',
+    message:
+      `The document is still about ${estimateTokens(current)} tokens after condensing it ${MAX_REDUCE_LEVELS} times, ` +
+      `more than the ${budget} ${provider.name}/${provider.model} takes in one prompt. ` +
+      'Split it into a course or use a model with a larger context.',
+  });
+}
+
+const buildCourseOutlineSchema = (maxVideos: number) =>
+  z.object({
+    title: z.string(),
+    videos: z
+      .array(
+        z.object({
+          title: z.string(),
+          description: z.string(),
+          sections: z.array(z.number().int().min(1)).min(1),
+        })
+      )
+      .min(1)
+      .max(maxVideos),
+  });
+
+export type CourseVideo = {
+  title: string;
+  description: string;
+  sectionTitles: string[];
+  sourceText: string;
+};
+
+function splitEvenly(count: number, parts: number): number[][] {
+  const perPart = Math.ceil(count / Math.min(parts, count));
+  return Array.from({ length: Math.ceil(count / perPart) }, (_, p) =>
+    Array.from({ length: Math.min(perPart, count - p * perPart) }, (_, i) => p * perPart + i)
+  );
+}
+
+// Models skip or repeat sections; every section must end up in exactly one video
+function coverAllSections(groups: number[][], count: number): number[][] {
+  const owner = new Map<number, number>();
+  groups.forEach((sections, g) =>
+    sections.forEach((s) => {
+      if (s >= 0 && s < count && !owner.has(s)) owner.set(s, g);
+    })
+  );
+  // A skipped section joins the video of the section before it
+  for (let s = 0; s < count; s++) {
+    if (!owner.has(s)) owner.set(s, s > 0 ? owner.get(s - 1)! : 0);
+  }
+  return groups.map((_, g) => [...owner.entries()].filter(([, o]) => o === g).map(([s]) => s).sort((a, b) => a - b));
+}
+
+/**
+ * Splits a long document into a multi-video course. Each video gets the raw
+ * text of its sections so it can go through structure.generate on its own.
+ */
+export async function outlineCourse({
+  provider,
+  text,
+  maxVideos,
+  jobId,
+}: {
+  provider: LLMProvider;
+  text: string;
+  maxVideos: number;
+  jobId?: string;
+}): Promise<{ title: string; videos: CourseVideo[] }> {
+  const chunks = chunkBySection(text, Math.min(chunkTokens(provider), 3000));
+  const notes = await summarizeChunks({ provider, chunks, jobId });
+
+  reportProgress(jobId, { stage: 'reduce', current: 1, total: 1, message: `Grouping ${chunks.length} sections into videos` });
+
+  const numbered = notes.map((n, i) => `${i + 1}. ${n.title}: ${n.keyPoints.join('; ')}`).join('\n');
+  const outline = await generateStructured({
+    provider,
+    name: 'course_outline',
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are an instructional designer planning a course of short training videos (3-6 minutes each) from a long policy.',
+      },
+      {
+        role: 'user',
+        content: `Group these numbered sections into at most ${maxVideos} videos. Keep related sections together and in order, and use every section exactly once.\n\nText: ${numbered}`,
+      },
+    ],
+    schema: buildCourseOutlineSchema(maxVideos),
+    temperature: 0.3,
+  });
+
+  // Without a usable grouping, split the sections evenly in document order
+  const groups = outline
+    ? coverAllSections(
+        outline.videos.map((v) => v.sections.map((s) => s - 1)),
+        chunks.length
+      )
+    : splitEvenly(chunks.length, maxVideos);
+
+  const videos = groups
+    .map((sections, v) => ({ sections, v }))
+    .filter(({ sections }) => sections.length > 0)
+    .map(({ sections, v }) => ({
+      title: outline?.videos[v].title ?? notes[sections[0]]?.title ?? `Part ${v + 1}`,
+      description: outline?.videos[v].description ?? '',
+      sectionTitles: sections.map((s) => notes[s].title),
+      sourceText: sections.map((s) => chunks[s].text).join('\n\n'),
+    }));
+
+  return { title: outline?.title ?? notes[0]?.title ?? 'Course', videos };
+}
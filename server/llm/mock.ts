@@ -0,0 +1,73 @@
+import type { ChatMessage, LLMProvider } from './types';
+
+type JsonSchema = {
+  type?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  anyOf?: JsonSchema[];
+};
+
+// Prompts end with "Text: <input>"; only the input itself is worth echoing back
+function sourceText(messages: ChatMessage[]) {
+  const user = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+  const marker = user.lastIndexOf('Text:');
+  return marker >= 0 ? user.slice(marker + 'Text:'.length) : user;
+}
+
+function toPhrases(text: string) {
+  const phrases = text
+    .split(/[.!?;:\n]+/)
+    .map((p) => p.replace(/["{}[\]]/g, '').trim())
+    .filter((p) => p.length > 3)
+    .map((p) => p.split(/\s+/).slice(0, 12).join(' '));
+  return phrases.length > 0 ? phrases : ['Placeholder content'];
+}
+
+/**
+ * Builds a value that satisfies the given JSON schema, filling strings with
+ * phrases from the input in order. Arrays get their minimum length, integers
+ * their minimum and enums their first value, so the output is stable for a
+ * given prompt. Nullable fields take their non-null branch.
+ */
+function fillSchema(schema: JsonSchema, key: string, next: () => string): unknown {
+  if (schema.anyOf) return fillSchema(schema.anyOf[0], key, next);
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([k, s]) => [k, fillSchema(s, k, next)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () =>
+        fillSchema(schema.items ?? { type: 'string' }, key, next)
+      );
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      if (schema.enum) return schema.enum[0];
+      return key === 'language' ? 'en' : next();
+  }
+}
+
+/** Deterministic provider for tests and demos without any model at all. */
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    model: 'mock-1',
+    supportsStrictSchema: true,
+    contextTokens: 8192,
+
+    async completeJson({ name, messages, jsonSchema }) {
+      const phrases = toPhrases(sourceText(messages));
+      let cursor = 0;
+      const next = () => phrases[cursor++ % phrases.length];
+      console.log(`[MockLLM] Filling "${name}" schema from ${phrases.length} phrases`);
+      return JSON.stringify(fillSchema(jsonSchema as JsonSchema, name, next));
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import OpenAI from 'openai';
+import type { LLMProvider } from './types';
+
+function safeFingerprint(key: string) {
+  const k = key.trim();
+  const first = k.slice(0, 8);
+  const last = k.slice(-4);
+  return `${first}…${last}`;
+}
+
+export function getOpenAIClient() {
+  const rawKey = process.env.OPENAI_API_KEY;
+  if (!rawKey) {
+    console.warn("No OPENAI_API_KEY in env; using fallback.");
+    return null;
+  }
+  const trimmed = rawKey.trim();
+
+  // Basic sanity on length — project keys are typically ~150+ chars.
+  const len = trimmed.length;
+  console.log(
+    "[OpenAI] Using key fingerprint:",
+    safeFingerprint(trimmed),
+    "length:",
+    len
+  );
+
+  // If you (or a lib) set OPENAI_BASE_URL/OPENAI_API_BASE accidentally, this forces the official endpoint.
+  return new OpenAI({
+    apiKey: trimmed,
+    baseURL: "https://api.openai.com/v1",
+    // Do NOT set organization/project unless you must. Leaving them unset avoids scope mismatches.
+    // organization: undefined,
+    // project: undefined,
+  });
+}
+
+export function createOpenAIProvider(): LLMProvider | null {
+  const openai = getOpenAIClient();
+  if (!openai) return null;
+
+  return {
+    name: 'openai',
+    model: process.env.OPENAI_MODEL || "gpt-4o", // keep your default
+    supportsStrictSchema: true,
+    contextTokens: 128000,
+
+    async verify() {
+      // Same-process auth sanity check. If THIS throws 401,
+      // your runtime isn't actually reading the same key your curl used.
+      const models = await openai.models.list();
+      console.log("[OpenAI] models.list() ok, e.g.:", models.data[0]?.id);
+    },
+
+    async completeJson({ name, messages, jsonSchema, temperature }) {
+      const response = await openai.chat.completions.create({
+        model: this.model,
+        messages,
+        response_format: {
+          type: "json_schema",
+          json_schema: { name, strict: true, schema: jsonSchema },
+        },
+        temperature,
+      });
+      return response.choices[0]?.message?.content ?? null;
+    },
+  };
+}
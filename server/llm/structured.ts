@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import type { ChatMessage, LLMProvider } from './types';
+
+type StructuredRequest<T> = {
+  provider: LLMProvider;
+  name: string;
+  messages: ChatMessage[];
+  schema: z.ZodType<T>;
+  temperature?: number;
+  maxRepairs?: number;
+};
+
+// Models without JSON mode like to wrap their answer in prose or code fences
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * JSON Schema for the provider's response format, generated from the zod
+ * schema that validates the reply so the two can't drift apart. Refinements
+ * don't translate and stay zod-only; string lengths are dropped because
+ * OpenAI's strict mode rejects them.
+ */
+export function responseJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const jsonSchema = z.toJSONSchema(schema, {
+    override: ({ jsonSchema }) => {
+      delete jsonSchema.minLength;
+      delete jsonSchema.maxLength;
+    },
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * Asks the provider for JSON matching `schema`. Providers that can't enforce
+ * the schema get it spelled out in the system prompt. Invalid replies are sent
+ * back with the validation error so the model can fix them, up to `maxRepairs`
+ * times. Returns null when no valid result could be produced.
+ */
+export async function generateStructured<T>({
+  provider,
+  name,
+  messages,
+  schema,
+  temperature,
+  maxRepairs = 2,
+}: StructuredRequest<T>): Promise<T | null> {
+  const tag = `[LLM:${provider.name}]`;
+  const jsonSchema = responseJsonSchema(schema);
+  const conversation: ChatMessage[] = provider.supportsStrictSchema
+    ? [...messages]
+    : [
+        {
+          role: 'system',
+          content: `Respond with a single JSON object and nothing else. It must match this JSON schema exactly:\n${JSON.stringify(jsonSchema)}`,
+        },
+        ...messages,
+      ];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const content = await provider.completeJson({ name, messages: conversation, jsonSchema, temperature });
+    if (!content) {
+      console.warn(`${tag} No content in "${name}" response`);
+      return null;
+    }
+
+    console.log(`${tag} "${name}" response length: ${content.length} chars (attempt ${attempt + 1})`);
+    if (content.length > 10000) {
+      console.warn(`${tag} Response suspiciously large (${content.length} chars), first 500 chars:`, content.substring(0, 500));
+    }
+
+    let problem: string;
+    try {
+      const parsed = schema.safeParse(extractJson(content));
+      if (parsed.success) return parsed.data;
+      problem = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+    }
+
+    console.warn(`${tag} Invalid "${name}" output: ${problem}`);
+    conversation.push(
+      { role: 'assistant', content },
+      { role: 'user', content: `That JSON was invalid: ${problem}. Reply with the corrected JSON object only.` }
+    );
+  }
+
+  console.warn(`${tag} Giving up on "${name}" after ${maxRepairs} repair attempts`);
+  return null;
+}
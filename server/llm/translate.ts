@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import type { LLMProvider } from './types';
+import { generateStructured } from './structured';
+import { LANGUAGES, type LanguageCode } from '../../lib/languages';
+import { termPattern } from '../../lib/glossary';
+import type { StoryboardWithConcepts } from '../../lib/storyboard';
+
+// Every user-visible string of a storyboard, addressed by position. Layout
+// fields (lottie, correct, visualPlan, sources) are never sent out.
+function collectTexts(storyboard: StoryboardWithConcepts): string[] {
+  return [
+    storyboard.title,
+    storyboard.intro,
+    ...storyboard.overview,
+    ...storyboard.modules.flatMap((m) => [m.title, ...m.points]),
+    storyboard.summary,
+    ...storyboard.quiz.flatMap((q) => [
+      q.q,
+      ...q.options.flatMap((o) => [o.text, o.feedback]),
+      q.explanation,
+    ]),
+  ];
+}
+
+// Inverse of collectTexts: consumes translations in the same order
+function applyTexts(storyboard: StoryboardWithConcepts, texts: string[], language: LanguageCode): StoryboardWithConcepts {
+  let cursor = 0;
+  const next = () => texts[cursor++];
+  return {
+    ...storyboard,
+    language,
+    title: next(),
+    intro: next(),
+    overview: storyboard.overview.map(next),
+    modules: storyboard.modules.map((m) => ({ ...m, title: next(), points: m.points.map(next) })),
+    summary: next(),
+    quiz: storyboard.quiz.map((q) => ({
+      ...q,
+      q: next(),
+      options: q.options.map(() => ({ text: next(), feedback: next() })),
+      explanation: next(),
+    })),
+  };
+}
+
+/**
+ * Swaps do-not-translate terms for ⟦n⟧ tokens before the text goes to the
+ * model, so product names and legal terms come back exactly as written.
+ */
+function maskTerms(texts: string[], terms: string[]) {
+  const matchers = [...new Set(terms.map((t) => t.trim()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length) // "Data Protection Officer" before "Data"
+    .map(termPattern);
+
+  const originals: string[] = [];
+  const masked = texts.map((text) =>
+    matchers.reduce(
+      (acc, matcher) =>
+        acc.replace(matcher, (match) => {
+          originals.push(match);
+          return `⟦${originals.length - 1}⟧`;
+        }),
+      text
+    )
+  );
+  return { masked, originals };
+}
+
+function unmaskTerms(texts: string[], originals: string[]) {
+  let missing = 0;
+  const restored = texts.map((text) => text.replace(/⟦(\d+)⟧/g, (_, i) => originals[Number(i)] ?? ''));
+  originals.forEach((_, i) => {
+    if (!texts.some((text) => text.includes(`⟦${i}⟧`))) missing++;
+  });
+  return { restored, missing };
+}
+
+/**
+ * Translates a storyboard field by field. Structure, quiz answer order and
+ * the English B-roll concepts stay untouched, so the variant can reuse the
+ * master's clips and its quiz keeps the same correct answers.
+ */
+export async function translateStoryboard({
+  provider,
+  storyboard,
+  language,
+  doNotTranslate = [],
+}: {
+  provider: LLMProvider;
+  storyboard: StoryboardWithConcepts;
+  language: LanguageCode;
+  doNotTranslate?: string[];
+}): Promise<{ storyboard: StoryboardWithConcepts; missingTerms: number }> {
+  const texts = collectTexts(storyboard);
+  const { masked, originals } = maskTerms(texts, doNotTranslate);
+  const target = LANGUAGES[language].name;
+
+  const result = await generateStructured({
+    provider,
+    name: 'translation',
+    messages: [
+      {
+        role: 'system',
+        content: `You translate corporate training scripts into ${target}. Keep the tone, length and meaning of every line, and keep empty lines empty. Tokens like ⟦0⟧ stand for protected terms: copy them unchanged and in a grammatically sensible position.`,
+      },
+      {
+        role: 'user',
+        content: `Translate each of these ${masked.length} lines into ${target}. Return exactly ${masked.length} translations in the same order.\n\nText: ${JSON.stringify(masked)}`,
+      },
+    ],
+    schema: z.object({ translations: z.array(z.string()).length(masked.length) }),
+    temperature: 0.2,
+  });
+
+  if (!result) {
+    throw new Error(`Translation into ${target} failed`);
+  }
+
+  const { restored, missing } = unmaskTerms(result.translations, originals);
+  if (missing > 0) {
+    console.warn(`[Localize] ${missing}/${originals.length} protected terms dropped by the ${language} translation`);
+  }
+  return { storyboard: applyTexts(storyboard, restored, language), missingTerms: missing };
+}
@@ -0,0 +1,31 @@
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type JsonCompletionRequest = {
+  name: string; // schema name, e.g. "storyboard"
+  messages: ChatMessage[];
+  jsonSchema: Record<string, unknown>;
+  temperature?: number;
+};
+
+/**
+ * A chat model that can be asked for JSON. Providers that enforce the JSON
+ * schema server-side set `supportsStrictSchema`; for the others the schema is
+ * described in the prompt and the result is validated and repaired afterwards
+ * (see generateStructured).
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  supportsStrictSchema: boolean;
+  /** Context window in tokens; long inputs are chunked to fit (see mapReduce). */
+  contextTokens: number;
+  /** Returns the raw text content of the model's reply. */
+  completeJson(request: JsonCompletionRequest): Promise<string | null>;
+  /** Optional cheap auth/connectivity check run before a generation. */
+  verify?(): Promise<void>;
+}
@@ -0,0 +1,111 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { getLanguage } from '../../lib/languages';
+import { getSceneLabels } from '../../remotion/labels';
+import type { Storyboard } from '../../remotion/Composition';
+import { cmi5CourseStructure, escapeXml, scormManifest } from './manifest';
+import { getPlayerLabels } from './labels';
+
+export const LMS_FORMATS = ['scorm12', 'cmi5'] as const;
+export type LmsFormat = (typeof LMS_FORMATS)[number];
+
+export type LmsPackageInput = {
+  projectId: string;
+  storyboard: Storyboard;
+  videoUrl: string; // a render under public/renders, e.g. "/renders/video-123.mp4"
+  format: LmsFormat;
+  passingScore: number; // percent of quiz questions answered correctly
+};
+
+const PLAYER_DIR = join(process.cwd(), 'server', 'lms', 'player');
+
+/** Maps a render URL to its file, refusing anything outside public/renders. */
+export function resolveRenderPath(videoUrl: string): string | null {
+  if (!videoUrl.startsWith('/renders/')) return null;
+  const path = join(process.cwd(), 'public', 'renders', basename(videoUrl));
+  return existsSync(path) ? path : null;
+}
+
+function playerPage(storyboard: Storyboard) {
+  const { code, direction } = getLanguage(storyboard.language);
+  return `<!doctype html>
+<html lang="${code}" dir="${direction}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeXml(storyboard.title)}</title>
+  <link rel="stylesheet" href="player.css">
+</head>
+<body>
+  <main>
+    <h1>${escapeXml(storyboard.title)}</h1>
+    <video id="video" src="video.mp4" controls playsinline preload="metadata"></video>
+    <p id="lms-status" class="notice" hidden></p>
+    <section id="quiz" class="quiz"></section>
+  </main>
+  <script src="course.js"></script>
+  <script src="player.js"></script>
+</body>
+</html>
+`;
+}
+
+// Everything player.js needs, so the page works from the zip without a server
+function courseData(storyboard: Storyboard, format: LmsFormat, passingScore: number | null) {
+  const sceneLabels = getSceneLabels(storyboard.language);
+  return {
+    format,
+    title: storyboard.title,
+    passingScore,
+    labels: getPlayerLabels(storyboard.language),
+    hints: sceneLabels.quizHints,
+    answerLabel: sceneLabels.quizAnswer,
+    quiz: storyboard.quiz.map(({ type, q, options, correct, explanation }) => ({
+      type,
+      q,
+      options,
+      correct,
+      explanation,
+    })),
+  };
+}
+
+/**
+ * Zips a rendered video, the HTML5 player with the storyboard's quiz and the
+ * manifest for the chosen standard into one package an LMS can import.
+ */
+export function buildLmsPackage(input: LmsPackageInput): Uint8Array {
+  const { storyboard, format } = input;
+  const videoPath = resolveRenderPath(input.videoUrl);
+  if (!videoPath) {
+    throw new Error(`Render ${input.videoUrl} not found`);
+  }
+
+  const passingScore = storyboard.quiz.length ? input.passingScore : null;
+  const files: Zippable = {
+    'index.html': strToU8(playerPage(storyboard)),
+    'course.js': strToU8(`window.COURSE = ${JSON.stringify(courseData(storyboard, format, passingScore))};\n`),
+    'player.js': readFileSync(join(PLAYER_DIR, 'player.js')),
+    'player.css': readFileSync(join(PLAYER_DIR, 'player.css')),
+    // Already compressed; storing it keeps the export fast
+    'video.mp4': [readFileSync(videoPath), { level: 0 }],
+  };
+
+  const manifestInput = {
+    projectId: input.projectId,
+    title: storyboard.title,
+    description: storyboard.intro,
+    language: getLanguage(storyboard.language).code,
+    passingScore,
+    files: Object.keys(files),
+  };
+  if (format === 'scorm12') {
+    files['imsmanifest.xml'] = strToU8(scormManifest(manifestInput));
+  } else {
+    files['cmi5.xml'] = strToU8(cmi5CourseStructure(manifestInput));
+  }
+
+  console.log(`[LMS] Packaged ${format} for ${input.projectId}: ${storyboard.quiz.length} questions, ${input.videoUrl}`);
+  return zipSync(files, { level: 6 });
+}
@@ -0,0 +1,164 @@
+import { normalizeLanguage, type LanguageCode } from '../../lib/languages';
+
+// Copy for the HTML player page, per storyboard language. Placeholders:
+// {score} and {passing} are filled in by player.js.
+export type PlayerLabels = {
+  quizTitle: string;
+  watchFirst: string;
+  submit: string;
+  retry: string;
+  correct: string;
+  incorrect: string;
+  score: string;
+  passed: string;
+  failed: string;
+  moveUp: string;
+  moveDown: string;
+  noLms: string;
+};
+
+const PLAYER_LABELS: Record<LanguageCode, PlayerLabels> = {
+  en: {
+    quizTitle: 'Knowledge check',
+    watchFirst: 'Watch the video to the end to unlock the quiz.',
+    submit: 'Check answers',
+    retry: 'Try again',
+    correct: 'Correct',
+    incorrect: 'Not quite',
+    score: 'Your score: {score}% (pass mark {passing}%)',
+    passed: 'Passed. This training is complete.',
+    failed: 'Not passed yet. Review the feedback and try again.',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    noLms: 'No LMS connection found; your result is not being recorded.',
+  },
+  de: {
+    quizTitle: 'Wissenscheck',
+    watchFirst: 'Sehen Sie das Video bis zum Ende, um das Quiz freizuschalten.',
+    submit: 'Antworten prüfen',
+    retry: 'Erneut versuchen',
+    correct: 'Richtig',
+    incorrect: 'Nicht ganz',
+    score: 'Ihr Ergebnis: {score} % (Bestehensgrenze {passing} %)',
+    passed: 'Bestanden. Diese Schulung ist abgeschlossen.',
+    failed: 'Noch nicht bestanden. Lesen Sie das Feedback und versuchen Sie es erneut.',
+    moveUp: 'Nach oben',
+    moveDown: 'Nach unten',
+    noLms: 'Keine LMS-Verbindung gefunden; Ihr Ergebnis wird nicht gespeichert.',
+  },
+  fr: {
+    quizTitle: 'Vérification des connaissances',
+    watchFirst: 'Regardez la vidéo jusqu’à la fin pour débloquer le quiz.',
+    submit: 'Vérifier les réponses',
+    retry: 'Réessayer',
+    correct: 'Correct',
+    incorrect: 'Pas tout à fait',
+    score: 'Votre score : {score} % (seuil de réussite {passing} %)',
+    passed: 'Réussi. Cette formation est terminée.',
+    failed: 'Pas encore réussi. Consultez les commentaires et réessayez.',
+    moveUp: 'Monter',
+    moveDown: 'Descendre',
+    noLms: 'Aucune connexion LMS trouvée ; votre résultat n’est pas enregistré.',
+  },
+  es: {
+    quizTitle: 'Comprobación de conocimientos',
+    watchFirst: 'Mira el vídeo hasta el final para desbloquear el cuestionario.',
+    submit: 'Comprobar respuestas',
+    retry: 'Intentar de nuevo',
+    correct: 'Correcto',
+    incorrect: 'No del todo',
+    score: 'Tu puntuación: {score} % (aprobado con {passing} %)',
+    passed: 'Aprobado. Esta formación está completa.',
+    failed: 'Aún no aprobado. Revisa los comentarios e inténtalo de nuevo.',
+    moveUp: 'Subir',
+    moveDown: 'Bajar',
+    noLms: 'No se encontró conexión con el LMS; tu resultado no se registra.',
+  },
+  it: {
+    quizTitle: 'Verifica delle conoscenze',
+    watchFirst: 'Guarda il video fino alla fine per sbloccare il quiz.',
+    submit: 'Verifica le risposte',
+    retry: 'Riprova',
+    correct: 'Corretto',
+    incorrect: 'Non proprio',
+    score: 'Il tuo punteggio: {score}% (soglia {passing}%)',
+    passed: 'Superato. Questa formazione è completata.',
+    failed: 'Non ancora superato. Leggi il feedback e riprova.',
+    moveUp: 'Sposta su',
+    moveDown: 'Sposta giù',
+    noLms: 'Nessuna connessione LMS trovata; il risultato non viene registrato.',
+  },
+  pt: {
+    quizTitle: 'Verificação de conhecimentos',
+    watchFirst: 'Assista ao vídeo até o fim para desbloquear o quiz.',
+    submit: 'Verificar respostas',
+    retry: 'Tentar novamente',
+    correct: 'Correto',
+    incorrect: 'Não exatamente',
+    score: 'Sua pontuação: {score}% (aprovação com {passing}%)',
+    passed: 'Aprovado. Este treinamento está concluído.',
+    failed: 'Ainda não aprovado. Revise o feedback e tente novamente.',
+    moveUp: 'Mover para cima',
+    moveDown: 'Mover para baixo',
+    noLms: 'Nenhuma conexão com o LMS encontrada; seu resultado não está sendo registrado.',
+  },
+  nl: {
+    quizTitle: 'Kennischeck',
+    watchFirst: 'Bekijk de video tot het einde om de quiz te ontgrendelen.',
+    submit: 'Antwoorden controleren',
+    retry: 'Opnieuw proberen',
+    correct: 'Juist',
+    incorrect: 'Niet helemaal',
+    score: 'Je score: {score}% (geslaagd vanaf {passing}%)',
+    passed: 'Geslaagd. Deze training is afgerond.',
+    failed: 'Nog niet geslaagd. Bekijk de feedback en probeer het opnieuw.',
+    moveUp: 'Omhoog',
+    moveDown: 'Omlaag',
+    noLms: 'Geen LMS-verbinding gevonden; je resultaat wordt niet opgeslagen.',
+  },
+  pl: {
+    quizTitle: 'Sprawdzenie wiedzy',
+    watchFirst: 'Obejrzyj film do końca, aby odblokować quiz.',
+    submit: 'Sprawdź odpowiedzi',
+    retry: 'Spróbuj ponownie',
+    correct: 'Dobrze',
+    incorrect: 'Nie do końca',
+    score: 'Twój wynik: {score}% (próg zaliczenia {passing}%)',
+    passed: 'Zaliczone. To szkolenie jest ukończone.',
+    failed: 'Jeszcze nie zaliczone. Przejrzyj wskazówki i spróbuj ponownie.',
+    moveUp: 'W górę',
+    moveDown: 'W dół',
+    noLms: 'Nie znaleziono połączenia z LMS; wynik nie jest zapisywany.',
+  },
+  ar: {
+    quizTitle: 'اختبار المعرفة',
+    watchFirst: 'شاهد الفيديو حتى النهاية لفتح الاختبار.',
+    submit: 'تحقق من الإجابات',
+    retry: 'حاول مرة أخرى',
+    correct: 'صحيح',
+    incorrect: 'ليس تمامًا',
+    score: 'نتيجتك: {score}٪ (درجة النجاح {passing}٪)',
+    passed: 'ناجح. اكتمل هذا التدريب.',
+    failed: 'لم تنجح بعد. راجع الملاحظات وحاول مرة أخرى.',
+    moveUp: 'تحريك لأعلى',
+    moveDown: 'تحريك لأسفل',
+    noLms: 'لم يتم العثور على اتصال بنظام إدارة التعلم؛ لا يتم تسجيل نتيجتك.',
+  },
+  ja: {
+    quizTitle: '理解度チェック',
+    watchFirst: 'クイズを始めるには動画を最後まで視聴してください。',
+    submit: '回答を確認',
+    retry: 'もう一度挑戦',
+    correct: '正解',
+    incorrect: '不正解',
+    score: 'スコア：{score}%（合格ライン {passing}%）',
+    passed: '合格です。この研修は完了しました。',
+    failed: 'まだ合格していません。フィードバックを確認して再挑戦してください。',
+    moveUp: '上へ',
+    moveDown: '下へ',
+    noLms: 'LMS に接続されていないため、結果は記録されません。',
+  },
+};
+
+export const getPlayerLabels = (language: string | null | undefined) =>
+  PLAYER_LABELS[normalizeLanguage(language)];
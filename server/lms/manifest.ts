@@ -0,0 +1,82 @@
+// Package manifests the LMS reads on import: imsmanifest.xml for SCORM 1.2,
+// cmi5.xml for cmi5. Both point at the same index.html player.
+
+export type ManifestInput = {
+  projectId: string; // ids derive from it, so a re-export is an update, not a new course
+  title: string;
+  description: string;
+  language: string;
+  passingScore: number | null; // percent; null when there's no quiz to score
+  files: string[]; // every file in the package, relative to its root
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// SCORM identifiers are XML IDs (NCNames): no colons, no leading digit
+const scormIdentifier = (projectId: string) => `graphycs-course-${projectId.replace(/[^\w.-]/g, '-')}`;
+
+// cmi5 course and AU ids are IRIs
+const cmi5CourseIri = (projectId: string) => `urn:graphycs:course:${projectId}`;
+
+export function scormManifest(input: ManifestInput): string {
+  const title = escapeXml(input.title);
+  const files = input.files.map((href) => `      <file href="${escapeXml(href)}"/>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${scormIdentifier(input.projectId)}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${title}</title>
+      <item identifier="item-1" identifierref="sco-1">
+        <title>${title}</title>
+${input.passingScore === null ? '' : `        <adlcp:masteryscore>${input.passingScore}</adlcp:masteryscore>\n`}      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="sco-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${files}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+export function cmi5CourseStructure(input: ManifestInput): string {
+  const lang = escapeXml(input.language);
+  const title = `<langstring lang="${lang}">${escapeXml(input.title)}</langstring>`;
+  const description = `<langstring lang="${lang}">${escapeXml(input.description)}</langstring>`;
+  const moveOn =
+    input.passingScore === null
+      ? 'moveOn="Completed"'
+      : `moveOn="CompletedAndPassed" masteryScore="${(input.passingScore / 100).toFixed(2)}"`;
+
+  const courseIri = escapeXml(cmi5CourseIri(input.projectId));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="${courseIri}">
+    <title>${title}</title>
+    <description>${description}</description>
+  </course>
+  <au id="${courseIri}/au" ${moveOn} launchMethod="AnyWindow">
+    <title>${title}</title>
+    <description>${description}</description>
+    <url>index.html</url>
+  </au>
+</courseStructure>
+`;
+}
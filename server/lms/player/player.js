@@ -0,0 +1,435 @@
+// Runtime for exported LMS packages. Plays the rendered video, unlocks the
+// quiz once it has been watched, grades it in the browser and reports
+// completion and score through SCORM 1.2 or cmi5 (xAPI), whichever the
+// package was exported for. Course data comes from course.js (window.COURSE).
+(function () {
+  "use strict";
+
+  var course = window.COURSE;
+  var labels = course.labels;
+  var startedAt = Date.now();
+
+  // ---------------------------------------------------------------------------
+  // SCORM 1.2
+
+  function findScormApi(win) {
+    for (var tries = 0; win && tries < 10; tries++) {
+      if (win.API) return win.API;
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  // HHHH:MM:SS.SS as required by cmi.core.session_time
+  function scormTime(ms) {
+    var seconds = ms / 1000;
+    var h = Math.floor(seconds / 3600);
+    var m = Math.floor((seconds % 3600) / 60);
+    var s = (seconds % 60).toFixed(2);
+    return String(h).padStart(4, "0") + ":" + String(m).padStart(2, "0") + ":" + s.padStart(5, "0");
+  }
+
+  var SCORM_INTERACTION_TYPES = {
+    multiple_choice: "choice",
+    multi_select: "choice",
+    true_false: "true-false",
+    ordering: "sequencing",
+  };
+
+  function scormResponse(question, indices) {
+    if (question.type === "true_false") return indices[0] === 0 ? "t" : "f";
+    return indices
+      .map(function (i) {
+        return String.fromCharCode(97 + i);
+      })
+      .join(",");
+  }
+
+  function scormAdapter() {
+    var api = findScormApi(window) || (window.opener && findScormApi(window.opener));
+    if (!api || api.LMSInitialize("") !== "true") return null;
+
+    var finished = false;
+    var get = function (key) {
+      return api.LMSGetValue(key);
+    };
+    var set = function (key, value) {
+      api.LMSSetValue(key, String(value));
+    };
+
+    if (get("cmi.core.lesson_status") === "not attempted") {
+      set("cmi.core.lesson_status", "incomplete");
+    }
+    var mastery = parseFloat(get("cmi.student_data.mastery_score"));
+
+    return {
+      masteryScore: isNaN(mastery) ? null : mastery,
+      videoWatched: get("cmi.suspend_data") === "video=1",
+      start: function () {},
+      watched: function () {
+        set("cmi.suspend_data", "video=1");
+        if (course.passingScore === null) set("cmi.core.lesson_status", "completed");
+        api.LMSCommit("");
+      },
+      graded: function (results, score, passed) {
+        var offset = parseInt(get("cmi.interactions._count"), 10) || 0;
+        results.forEach(function (r, i) {
+          var key = "cmi.interactions." + (offset + i) + ".";
+          set(key + "id", "q" + (i + 1));
+          set(key + "type", SCORM_INTERACTION_TYPES[r.question.type]);
+          set(key + "student_response", scormResponse(r.question, r.response));
+          set(key + "correct_responses.0.pattern", scormResponse(r.question, r.question.correct));
+          set(key + "result", r.correct ? "correct" : "wrong");
+          set(key + "weighting", 1);
+        });
+        set("cmi.core.score.min", 0);
+        set("cmi.core.score.max", 100);
+        set("cmi.core.score.raw", score);
+        set("cmi.core.lesson_status", passed ? "passed" : "failed");
+        api.LMSCommit("");
+      },
+      finish: function () {
+        if (finished) return;
+        finished = true;
+        var status = get("cmi.core.lesson_status");
+        set("cmi.core.session_time", scormTime(Date.now() - startedAt));
+        set("cmi.core.exit", status === "passed" || status === "completed" ? "" : "suspend");
+        api.LMSCommit("");
+        api.LMSFinish("");
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // cmi5: xAPI statements to the endpoint named in the launch URL
+
+  var VERBS = {
+    initialized: "http://adlnet.gov/expapi/verbs/initialized",
+    completed: "http://adlnet.gov/expapi/verbs/completed",
+    passed: "http://adlnet.gov/expapi/verbs/passed",
+    failed: "http://adlnet.gov/expapi/verbs/failed",
+    terminated: "http://adlnet.gov/expapi/verbs/terminated",
+  };
+  var CATEGORY_CMI5 = { id: "https://w3id.org/xapi/cmi5/context/categories/cmi5" };
+  var CATEGORY_MOVEON = { id: "https://w3id.org/xapi/cmi5/context/categories/moveon" };
+
+  function uuid() {
+    if (window.crypto && crypto.randomUUID) return crypto.randomUUID();
+    return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, function (c) {
+      var r = (Math.random() * 16) | 0;
+      return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+    });
+  }
+
+  function isoDuration(ms) {
+    return "PT" + (ms / 1000).toFixed(2) + "S";
+  }
+
+  async function cmi5Adapter() {
+    var params = new URLSearchParams(location.search);
+    var endpoint = params.get("endpoint");
+    var fetchUrl = params.get("fetch");
+    if (!endpoint || !fetchUrl) return null;
+    if (!endpoint.endsWith("/")) endpoint += "/";
+
+    var actor = JSON.parse(params.get("actor"));
+    var registration = params.get("registration");
+    var activityId = params.get("activityId");
+
+    var tokenResponse = await fetch(fetchUrl, { method: "POST" });
+    var token = (await tokenResponse.json())["auth-token"];
+    var headers = {
+      Authorization: "Basic " + token,
+      "X-Experience-API-Version": "1.0.3",
+      "Content-Type": "application/json",
+    };
+
+    var stateQuery = new URLSearchParams({
+      stateId: "LMS.LaunchData",
+      activityId: activityId,
+      agent: JSON.stringify(actor),
+      registration: registration,
+    });
+    var launchData = await (await fetch(endpoint + "activities/state?" + stateQuery, { headers: headers })).json();
+    var template = launchData.contextTemplate || {};
+    // Browse and Review launches must not record completion or results
+    var recording = (launchData.launchMode || "Normal") === "Normal";
+    var sent = {};
+
+    function send(verb, extra, keepalive) {
+      var contextActivities = Object.assign({}, template.contextActivities);
+      contextActivities.category = (contextActivities.category || []).concat(
+        extra.moveOn ? [CATEGORY_CMI5, CATEGORY_MOVEON] : [CATEGORY_CMI5]
+      );
+      var statement = {
+        id: uuid(),
+        actor: actor,
+        verb: { id: VERBS[verb], display: { "en-US": verb } },
+        object: { objectType: "Activity", id: activityId },
+        context: Object.assign({}, template, { registration: registration, contextActivities: contextActivities }),
+        timestamp: new Date().toISOString(),
+      };
+      if (extra.result) statement.result = extra.result;
+      sent[verb] = true;
+      return fetch(endpoint + "statements", {
+        method: "POST",
+        headers: headers,
+        body: JSON.stringify(statement),
+        keepalive: !!keepalive,
+      }).catch(function (error) {
+        console.error("[cmi5] Statement failed:", verb, error);
+      });
+    }
+
+    return {
+      masteryScore: typeof launchData.masteryScore === "number" ? launchData.masteryScore * 100 : null,
+      videoWatched: false,
+      start: function () {
+        send("initialized", {});
+      },
+      watched: function () {
+        if (recording && !sent.completed) {
+          send("completed", { moveOn: true, result: { completion: true, duration: isoDuration(Date.now() - startedAt) } });
+        }
+      },
+      graded: function (results, score, passed) {
+        // One passed per registration session, and no failed after it
+        if (!recording || sent.passed || (!passed && sent.failed)) return;
+        send(passed ? "passed" : "failed", {
+          moveOn: true,
+          result: {
+            success: passed,
+            score: { scaled: score / 100, raw: score, min: 0, max: 100 },
+            duration: isoDuration(Date.now() - startedAt),
+          },
+        });
+      },
+      finish: function () {
+        if (sent.terminated) return;
+        send("terminated", { result: { duration: isoDuration(Date.now() - startedAt) } }, true);
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Quiz
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === "text") node.textContent = attrs[key];
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) {
+      if (child) node.appendChild(child);
+    });
+    return node;
+  }
+
+  function sameList(a, b) {
+    return a.length === b.length && a.every(function (value, i) {
+      return value === b[i];
+    });
+  }
+
+  // Ordering questions start rotated by one so they never open already solved
+  function initialOrder(question) {
+    return question.correct.slice(1).concat(question.correct.slice(0, 1));
+  }
+
+  function renderQuestion(question, index) {
+    var fieldset = el("fieldset", { class: "question" }, [
+      el("legend", { text: index + 1 + ". " + question.q }),
+      el("p", { class: "hint", text: course.hints[question.type] }),
+    ]);
+    var state = { question: question, fieldset: fieldset, inputs: [], order: null, list: null };
+
+    if (question.type === "ordering") {
+      state.order = initialOrder(question);
+      state.list = el("ol", { class: "ordering" });
+      fieldset.appendChild(state.list);
+      renderOrdering(state);
+    } else {
+      var inputType = question.type === "multi_select" ? "checkbox" : "radio";
+      question.options.forEach(function (option, i) {
+        var input = el("input", { type: inputType, name: "q" + index, value: String(i) });
+        state.inputs.push(input);
+        fieldset.appendChild(
+          el("label", { class: "option", "data-option": String(i) }, [input, el("span", { text: option.text })])
+        );
+      });
+    }
+
+    fieldset.appendChild(el("div", { class: "explanation", hidden: "" }));
+    return state;
+  }
+
+  function renderOrdering(state) {
+    state.list.textContent = "";
+    state.order.forEach(function (optionIndex, position) {
+      var up = el("button", { type: "button", "aria-label": labels.moveUp, text: "↑" });
+      var down = el("button", { type: "button", "aria-label": labels.moveDown, text: "↓" });
+      up.disabled = position === 0;
+      down.disabled = position === state.order.length - 1;
+      up.onclick = function () {
+        move(state, position, -1);
+      };
+      down.onclick = function () {
+        move(state, position, 1);
+      };
+      state.list.appendChild(
+        el("li", { class: "option", "data-option": String(optionIndex) }, [
+          el("span", { text: state.question.options[optionIndex].text }),
+          el("span", {}, [up, down]),
+        ])
+      );
+    });
+  }
+
+  function move(state, position, delta) {
+    var target = position + delta;
+    var swap = state.order[target];
+    state.order[target] = state.order[position];
+    state.order[position] = swap;
+    renderOrdering(state);
+  }
+
+  function responseOf(state) {
+    if (state.order) return state.order.slice();
+    return state.inputs
+      .filter(function (input) {
+        return input.checked;
+      })
+      .map(function (input) {
+        return Number(input.value);
+      });
+  }
+
+  function isCorrect(question, response) {
+    if (question.type === "ordering") return sameList(response, question.correct);
+    return sameList(response.slice().sort(), question.correct.slice().sort());
+  }
+
+  function showFeedback(state, response, correct) {
+    var question = state.question;
+    state.fieldset.querySelectorAll("[data-option]").forEach(function (node) {
+      var i = Number(node.getAttribute("data-option"));
+      var chosen = question.type === "ordering" || response.indexOf(i) !== -1;
+      var right = question.type === "ordering" ? correct : question.correct.indexOf(i) !== -1;
+      if (chosen) node.classList.add(right ? "is-correct" : "is-wrong");
+      if (chosen && question.options[i].feedback && question.type !== "ordering") {
+        node.lastChild.appendChild(el("p", { class: "feedback", text: question.options[i].feedback }));
+      }
+    });
+    state.fieldset.querySelectorAll("input, button").forEach(function (control) {
+      control.disabled = true;
+    });
+
+    var explanation = state.fieldset.querySelector(".explanation");
+    explanation.textContent = "";
+    explanation.appendChild(
+      el("p", { class: "verdict " + (correct ? "is-correct" : "is-wrong"), text: correct ? labels.correct : labels.incorrect })
+    );
+    if (question.explanation) {
+      explanation.appendChild(el("p", { text: course.answerLabel + ": " + question.explanation }));
+    }
+    explanation.hidden = false;
+  }
+
+  // ---------------------------------------------------------------------------
+
+  async function main() {
+    var video = document.getElementById("video");
+    var notice = document.getElementById("lms-status");
+    var section = document.getElementById("quiz");
+
+    var lms = null;
+    try {
+      lms = course.format === "cmi5" ? await cmi5Adapter() : scormAdapter();
+    } catch (error) {
+      console.error("[LMS] Connection failed:", error);
+    }
+    if (!lms) {
+      notice.textContent = labels.noLms;
+      notice.hidden = false;
+    } else {
+      lms.start();
+      window.addEventListener("pagehide", lms.finish);
+      window.addEventListener("beforeunload", lms.finish);
+    }
+
+    var passingScore = lms && lms.masteryScore !== null ? lms.masteryScore : course.passingScore;
+    var videoWatched = !!(lms && lms.videoWatched);
+
+    if (!course.quiz.length) {
+      video.addEventListener("ended", function () {
+        if (lms) lms.watched();
+      });
+      return;
+    }
+
+    var lockNote = el("p", { class: "notice", text: labels.watchFirst });
+    var states = course.quiz.map(renderQuestion);
+    var submit = el("button", { type: "button", text: labels.submit });
+    var retry = el("button", { type: "button", text: labels.retry, hidden: "" });
+    var result = el("p", { class: "result", role: "status" });
+
+    section.appendChild(el("h2", { text: labels.quizTitle }));
+    section.appendChild(lockNote);
+    states.forEach(function (state) {
+      section.appendChild(state.fieldset);
+    });
+    section.appendChild(el("div", { class: "actions" }, [submit, retry, result]));
+
+    function unlock() {
+      videoWatched = true;
+      section.setAttribute("aria-disabled", "false");
+      lockNote.hidden = true;
+      submit.disabled = false;
+    }
+    section.setAttribute("aria-disabled", "true");
+    submit.disabled = true;
+    if (videoWatched) unlock();
+
+    video.addEventListener("ended", function () {
+      if (lms) lms.watched();
+      unlock();
+    });
+
+    submit.onclick = function () {
+      var results = states.map(function (state) {
+        var response = responseOf(state);
+        var correct = isCorrect(state.question, response);
+        showFeedback(state, response, correct);
+        return { question: state.question, response: response, correct: correct };
+      });
+      var right = results.filter(function (r) {
+        return r.correct;
+      }).length;
+      var score = Math.round((100 * right) / results.length);
+      var passed = score >= passingScore;
+
+      result.textContent =
+        labels.score.replace("{score}", score).replace("{passing}", passingScore) +
+        " " +
+        (passed ? labels.passed : labels.failed);
+      submit.hidden = true;
+      retry.hidden = passed;
+      if (lms) lms.graded(results, score, passed);
+    };
+
+    retry.onclick = function () {
+      var fresh = course.quiz.map(renderQuestion);
+      states.forEach(function (state, i) {
+        section.replaceChild(fresh[i].fieldset, state.fieldset);
+      });
+      states = fresh;
+      result.textContent = "";
+      retry.hidden = true;
+      submit.hidden = false;
+    };
+  }
+
+  main();
+})();
@@ -0,0 +1,27 @@
+/**
+ * Offline stand-in mode. With USE_STANDINS=1 every vendor call goes to the
+ * local route handlers under /api/standins instead of the real APIs, the LLM
+ * defaults to the mock provider, and no API keys are required. This lets the
+ * whole generate → voice → B-roll → render flow run on an air-gapped machine.
+ */
+export function standinsEnabled() {
+  const flag = process.env.USE_STANDINS;
+  return flag === '1' || flag === 'true';
+}
+
+function standinsBaseUrl() {
+  return `${process.env.BASE_URL || 'http://localhost:3000'}/api/standins`;
+}
+
+export function elevenLabsBaseUrl() {
+  return standinsEnabled() ? `${standinsBaseUrl()}/elevenlabs` : 'https://api.elevenlabs.io';
+}
+
+export function runwayBaseUrl() {
+  return standinsEnabled() ? `${standinsBaseUrl()}/runway` : 'https://api.dev.runwayml.com';
+}
+
+// Stand-ins accept any key, so a missing one is only fatal against the real API
+export function vendorApiKey(envName: 'ELEVENLABS_API_KEY' | 'RUNWAY_API_KEY') {
+  return process.env[envName] || (standinsEnabled() ? 'standin' : undefined);
+}
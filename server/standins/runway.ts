@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { RenderInternals } from '@remotion/renderer';
+
+// Fake generations "run" for this long before they report success
+const TASK_RUNTIME_MS = 3000;
+
+const CLIPS_DIR = path.join(process.cwd(), 'public', 'standins');
+
+type TaskInfo = { createdAt: number; duration: number; seed: number };
+
+// Task ids carry their own state so any server instance can answer a poll
+export function encodeTaskId(info: TaskInfo) {
+  return Buffer.from(JSON.stringify(info)).toString('base64url');
+}
+
+export function decodeTaskId(id: string): TaskInfo | null {
+  try {
+    const info = JSON.parse(Buffer.from(id, 'base64url').toString('utf8'));
+    return typeof info.createdAt === 'number' && typeof info.duration === 'number' ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+export function taskStatus(info: TaskInfo) {
+  const elapsed = Date.now() - info.createdAt;
+  if (elapsed < TASK_RUNTIME_MS / 2) return 'PENDING';
+  if (elapsed < TASK_RUNTIME_MS) return 'RUNNING';
+  return 'SUCCEEDED';
+}
+
+/**
+ * Makes (once) a still clip of the style frame at 1280x720 using the ffmpeg
+ * binary that ships with @remotion/renderer, and returns its public path.
+ */
+export async function ensurePlaceholderClip(duration: number): Promise<string> {
+  const filename = `placeholder-${duration}s.mp4`;
+  const outputPath = path.join(CLIPS_DIR, filename);
+
+  if (!fs.existsSync(outputPath)) {
+    fs.mkdirSync(CLIPS_DIR, { recursive: true });
+
+    let framePath = path.join(process.cwd(), 'public', 'style-frame.png');
+    if (!fs.existsSync(framePath)) {
+      // Same 1x1 neutral gray PNG the video router falls back to
+      framePath = path.join(CLIPS_DIR, 'placeholder-frame.png');
+      fs.writeFileSync(
+        framePath,
+        Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', 'base64')
+      );
+    }
+
+    console.log('[Standins] Rendering placeholder clip:', outputPath);
+    await RenderInternals.callFf({
+      bin: 'ffmpeg',
+      args: [
+        '-y',
+        '-loop', '1',
+        '-i', framePath,
+        '-t', String(duration),
+        '-r', '24',
+        '-vf', 'scale=1280:720',
+        '-c:v', 'libx264',
+        '-pix_fmt', 'yuv420p',
+        '-movflags', '+faststart',
+        outputPath,
+      ],
+      indent: false,
+      logLevel: 'warn',
+      binariesDirectory: null,
+      cancelSignal: undefined,
+    });
+  }
+
+  return `/standins/${filename}`;
+}
@@ -0,0 +1,39 @@
+// Narration pace used to size fake audio; ElevenLabs voices average ~150 wpm
+const WORDS_PER_SECOND = 2.5;
+
+// MPEG-1 Layer III, 32 kbps, 44.1 kHz, mono. A frame of zeroed side info and
+// main data decodes as 1152 samples of silence.
+const FRAME_HEADER = [0xff, 0xfb, 0x10, 0xc0];
+const FRAME_BYTES = 104;
+const SAMPLES_PER_FRAME = 1152;
+const SAMPLE_RATE = 44100;
+
+// Japanese/Chinese have no spaces between words; count characters instead
+const CJK_CHARS_PER_SECOND = 7;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff]/g;
+
+export function estimateSpeechSeconds(text: string) {
+  const cjkChars = (text.match(CJK_CHAR) ?? []).length;
+  const words = text.replace(CJK_CHAR, ' ').trim().split(/\s+/).filter(Boolean).length;
+  // Short pause for sentence punctuation, like a real voice
+  const pauses = (text.match(/[.!?;:。！？]/g) ?? []).length * 0.25;
+  return Math.max(0.5, words / WORDS_PER_SECOND + cjkChars / CJK_CHARS_PER_SECOND + pauses);
+}
+
+export function createSilentMp3(seconds: number): Buffer {
+  const frame = Buffer.alloc(FRAME_BYTES);
+  FRAME_HEADER.forEach((byte, i) => (frame[i] = byte));
+  const frameCount = Math.ceil((seconds * SAMPLE_RATE) / SAMPLES_PER_FRAME);
+  return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+}
+
+/** ElevenLabs-style alignment: the characters spoken one after another at an even pace. */
+export function evenCharacterAlignment(text: string, seconds: number) {
+  const characters = Array.from(text);
+  const step = seconds / Math.max(1, characters.length);
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => i * step),
+    character_end_times_seconds: characters.map((_, i) => (i + 1) * step),
+  };
+}
@@ -0,0 +1,99 @@
+import { getLanguage } from '../../lib/languages';
+import { elevenLabsBaseUrl, vendorApiKey } from '../standins/config';
+import type { TtsProvider, TtsVoice } from './types';
+
+// ElevenLabs models that only speak English
+const ENGLISH_ONLY_MODELS = new Set(['eleven_monolingual_v1', 'eleven_turbo_v2', 'eleven_flash_v2']);
+// Models that accept a language_code to enforce the spoken language
+const LANGUAGE_CODE_MODELS = new Set(['eleven_turbo_v2_5', 'eleven_flash_v2_5']);
+
+// Voice settings unless the voice library tunes them; part of the cache key:
+// other settings, other audio
+const VOICE_SETTINGS = { stability: 0.5, similarity_boost: 0.7 };
+
+/**
+ * Voice and model for a storyboard language. ELEVEN_VOICE_ID_<LANG>
+ * (e.g. ELEVEN_VOICE_ID_DE) picks a native speaker per language, falling back
+ * to ELEVEN_VOICE_ID; an English-only ELEVEN_MODEL_ID is swapped for the
+ * multilingual model when the narration isn't English.
+ */
+export function resolveElevenLabsVoice(language: string | null | undefined): TtsVoice {
+  const { code } = getLanguage(language);
+  const voiceId = process.env[`ELEVEN_VOICE_ID_${code.toUpperCase()}`] || process.env.ELEVEN_VOICE_ID || 'Rachel';
+
+  let modelId = process.env.ELEVEN_MODEL_ID || 'eleven_multilingual_v2';
+  if (code !== 'en' && ENGLISH_ONLY_MODELS.has(modelId)) {
+    console.warn(`[TTS] ${modelId} is English-only; using eleven_multilingual_v2 for ${code}`);
+    modelId = 'eleven_multilingual_v2';
+  }
+
+  return {
+    voiceId,
+    modelId,
+    languageCode: LANGUAGE_CODE_MODELS.has(modelId) ? code : undefined,
+  };
+}
+
+type TimestampedSpeech = {
+  audio_base64: string;
+  // Per character of the request text
+  alignment: {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+  } | null;
+};
+
+export function createElevenLabsProvider(): TtsProvider {
+  return {
+    name: 'eleven',
+    mimeType: 'audio/mpeg',
+    aligns: true,
+    cacheParams: { endpoint: elevenLabsBaseUrl(), voiceSettings: VOICE_SETTINGS },
+    voice: resolveElevenLabsVoice,
+
+    async synthesize(text, { voiceId, modelId, languageCode, settings = {} }) {
+      // Checked here rather than up front so cached clips play without a key
+      const apiKey = vendorApiKey('ELEVENLABS_API_KEY');
+      if (!apiKey) {
+        console.error('[ElevenLabs] ELEVENLABS_API_KEY missing');
+        throw new Error('ELEVENLABS_API_KEY missing');
+      }
+
+      // Same audio as the plain endpoint, plus when each character is spoken
+      const res = await fetch(`${elevenLabsBaseUrl()}/v1/text-to-speech/${voiceId}/with-timestamps`, {
+        method: 'POST',
+        headers: {
+          'xi-api-key': apiKey,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          text,
+          model_id: modelId,
+          language_code: languageCode,
+          voice_settings: {
+            stability: settings.stability ?? VOICE_SETTINGS.stability,
+            similarity_boost: settings.similarityBoost ?? VOICE_SETTINGS.similarity_boost,
+            speed: settings.speed
+          }
+        })
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        console.error('[ElevenLabs] API error:', res.status, errorText);
+        throw new Error(`${res.status} - ${errorText}`);
+      }
+
+      const body = (await res.json()) as TimestampedSpeech;
+      const { alignment } = body;
+      return {
+        audio: Buffer.from(body.audio_base64, 'base64'),
+        alignment: alignment && {
+          starts: alignment.character_start_times_seconds,
+          ends: alignment.character_end_times_seconds,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { TTS_PROVIDERS, type VoiceProfile } from '../../lib/voices';
+import { createElevenLabsProvider } from './elevenlabs';
+import { createOpenAITtsProvider } from './openai';
+import { createLocalTtsProvider } from './local';
+import type { CharacterAlignment, Speaker, TtsProvider, TtsProviderName } from './types';
+import { cacheFile, cacheKey, readCache, writeCache } from '../db/cache';
+
+export type { CharacterAlignment, Speaker, Speech, TtsProvider, TtsProviderName, TtsVoice } from './types';
+
+export const ttsProviderNameSchema = z.enum(TTS_PROVIDERS);
+
+/**
+ * Resolves the speech engine: an explicit choice (e.g. from the project)
+ * wins, then TTS_PROVIDER, then ElevenLabs (which stand-in mode points at
+ * the local stand-in). Keys are checked when speaking, not here, so clips
+ * already in the cache play without one.
+ */
+export function getTtsProvider(name?: TtsProviderName): TtsProvider {
+  const envChoice = ttsProviderNameSchema.safeParse(process.env.TTS_PROVIDER);
+  return withCache(createProvider(name ?? (envChoice.success ? envChoice.data : 'eleven')));
+}
+
+/**
+ * Who speaks: a voice from the project's library with its tuning, or, without
+ * one, the engine's configured voice for the language.
+ */
+export function getSpeaker(profile: VoiceProfile | null, language: string, engine?: TtsProviderName): Speaker {
+  const provider = getTtsProvider(profile?.provider ?? engine);
+  const voice = provider.voice(language);
+  if (!profile) return { provider, voice };
+
+  const { speed, stability, similarityBoost, style } = profile;
+  return {
+    provider,
+    voice: { ...voice, voiceId: profile.voiceId || voice.voiceId, settings: { speed, stability, similarityBoost, style } },
+  };
+}
+
+/** Tells clips of different voices or tuning apart, so a changed voice is re-recorded. */
+export const speakerKey = ({ provider, voice }: Speaker) => cacheKey({ provider: provider.name, ...voice }).slice(0, 16);
+
+function createProvider(name: TtsProviderName): TtsProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAITtsProvider();
+    case 'local':
+      return createLocalTtsProvider();
+    case 'eleven':
+      return createElevenLabsProvider();
+  }
+}
+
+/**
+ * Serves clips from the cache when the same engine, voice and settings
+ * already spoke exactly this text, so a sentence is only paid for once.
+ * The alignment is kept next to the audio; a clip cached without one is
+ * requested again from engines that report it.
+ */
+function withCache(provider: TtsProvider): TtsProvider {
+  const ext = provider.mimeType === 'audio/wav' ? '.wav' : '.mp3';
+  return {
+    ...provider,
+    async synthesize(text, voice) {
+      const key = cacheKey({ ...provider.cacheParams, ...voice, text });
+      const audio = readCache('tts', key, ext);
+      const alignment = audio && provider.aligns ? readCachedAlignment(key) : null;
+      if (audio && (alignment || !provider.aligns)) return { audio, alignment };
+
+      const speech = await provider.synthesize(text, voice);
+      writeCache('tts', key, ext, speech.audio);
+      if (speech.alignment) writeCache('tts', key, '.json', JSON.stringify(speech.alignment));
+      return speech;
+    },
+  };
+}
+
+// Not counted as a cache hit: the audio next to it already was
+function readCachedAlignment(key: string): CharacterAlignment | null {
+  const file = cacheFile('tts', key, '.json');
+  return file && fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as CharacterAlignment) : null;
+}
@@ -0,0 +1,85 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getLanguage } from '../../lib/languages';
+import type { TtsProvider, TtsVoice } from './types';
+
+type LocalTtsEngine = 'espeak-ng' | 'piper';
+
+const localEngine = (): LocalTtsEngine => (process.env.LOCAL_TTS_ENGINE === 'piper' ? 'piper' : 'espeak-ng');
+
+// Feeds `input` to a command and resolves with what it wrote to stdout
+function run(command: string, args: string[], input: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const stdout: Buffer[] = [];
+    let stderr = '';
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT' ? new Error(`${command} not found; install it or set its path in .env`) : error);
+    });
+    child.on('close', (code) => {
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim().slice(0, 500)}`));
+    });
+    child.stdin.end(input);
+  });
+}
+
+// espeak-ng's default pace in words per minute
+const ESPEAK_WPM = 175;
+
+async function speakWithEspeak(text: string, { voiceId, settings }: TtsVoice) {
+  const wpm = String(Math.round(ESPEAK_WPM * (settings?.speed ?? 1)));
+  return run(process.env.ESPEAK_NG_BIN || 'espeak-ng', ['-v', voiceId, '-s', wpm, '--stdin', '--stdout'], text);
+}
+
+// Piper only writes WAV to a file, so it goes through a temporary one
+async function speakWithPiper(text: string, { voiceId, settings }: TtsVoice) {
+  if (!voiceId) {
+    throw new Error('No Piper voice for this language; set PIPER_MODEL or PIPER_MODEL_<LANG> to an .onnx voice');
+  }
+  const file = path.join(os.tmpdir(), `piper-${crypto.randomUUID()}.wav`);
+  try {
+    const lengthScale = String(1 / (settings?.speed ?? 1));
+    await run(process.env.PIPER_BIN || 'piper', ['--model', voiceId, '--length_scale', lengthScale, '--output_file', file], text);
+    return fs.readFileSync(file);
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Speech synthesized on this machine, free and offline: espeak-ng (robotic
+ * but installed everywhere) or Piper (natural, one model file per voice).
+ * LOCAL_TTS_ENGINE picks the engine. Good enough for drafts and review
+ * rounds; the final cut should use a hosted voice.
+ */
+export function createLocalTtsProvider(): TtsProvider {
+  const engine = localEngine();
+
+  return {
+    name: 'local',
+    mimeType: 'audio/wav',
+    aligns: false,
+    cacheParams: { endpoint: `local:${engine}` },
+
+    voice(language) {
+      const { code } = getLanguage(language);
+      const suffix = code.toUpperCase();
+      if (engine === 'piper') {
+        return { voiceId: process.env[`PIPER_MODEL_${suffix}`] || process.env.PIPER_MODEL || '', modelId: engine };
+      }
+      // espeak-ng voices are named after the language ("de", "fr", …)
+      return { voiceId: process.env[`ESPEAK_NG_VOICE_${suffix}`] || code, modelId: engine };
+    },
+
+    async synthesize(text, voice) {
+      const audio = await (engine === 'piper' ? speakWithPiper(text, voice) : speakWithEspeak(text, voice));
+      return { audio, alignment: null };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { getLanguage } from '../../lib/languages';
+import { getOpenAIClient } from '../llm/openai';
+import type { TtsProvider } from './types';
+
+/**
+ * OpenAI's speech endpoint. Its voices speak whatever language the text is
+ * in, so OPENAI_TTS_VOICE_<LANG> is only needed to prefer another voice for
+ * a language.
+ */
+export function createOpenAITtsProvider(): TtsProvider {
+  return {
+    name: 'openai',
+    mimeType: 'audio/mpeg',
+    aligns: false,
+    cacheParams: { endpoint: 'https://api.openai.com/v1/audio/speech' },
+
+    voice(language) {
+      const { code } = getLanguage(language);
+      return {
+        voiceId: process.env[`OPENAI_TTS_VOICE_${code.toUpperCase()}`] || process.env.OPENAI_TTS_VOICE || 'alloy',
+        modelId: process.env.OPENAI_TTS_MODEL || 'gpt-4o-mini-tts',
+      };
+    },
+
+    async synthesize(text, { voiceId, modelId, settings = {} }) {
+      const openai = getOpenAIClient();
+      if (!openai) {
+        throw new Error('OPENAI_API_KEY missing');
+      }
+      const response = await openai.audio.speech.create({
+        model: modelId,
+        voice: voiceId,
+        input: text,
+        response_format: 'mp3',
+        speed: settings.speed,
+        // Only the gpt-4o voices take delivery instructions
+        instructions: modelId.startsWith('gpt-4o') ? settings.style : undefined,
+      });
+      return { audio: Buffer.from(await response.arrayBuffer()), alignment: null };
+    },
+  };
+}
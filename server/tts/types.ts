@@ -0,0 +1,49 @@
+import type { TtsProviderName } from '../../lib/voices';
+
+export type { TtsProviderName };
+
+// Tuning from the project's voice library; engines ignore what they can't do
+export type VoiceSettings = {
+  speed?: number; // 1 is the voice's natural pace
+  stability?: number;
+  similarityBoost?: number;
+  style?: string; // delivery instructions
+};
+
+export type TtsVoice = {
+  voiceId: string; // also keys the voice's measured narration speed
+  modelId: string;
+  languageCode?: string;
+  settings?: VoiceSettings;
+};
+
+// Seconds at which each character of the text starts and stops being spoken
+export type CharacterAlignment = { starts: number[]; ends: number[] };
+
+export type Speech = {
+  audio: Buffer;
+  alignment: CharacterAlignment | null;
+};
+
+/**
+ * A speech engine. `voice` picks the voice for a narration language;
+ * `synthesize` speaks a text in it. Everything besides voice and text that
+ * changes the audio (endpoint, voice settings) goes in `cacheParams`, so a
+ * cached clip is only reused for identical audio (see getTtsProvider).
+ */
+export interface TtsProvider {
+  name: TtsProviderName;
+  /** Container of the returned audio. */
+  mimeType: 'audio/mpeg' | 'audio/wav';
+  /** Whether `synthesize` reports when each character is spoken. */
+  aligns: boolean;
+  cacheParams: Record<string, unknown>;
+  voice(language: string): TtsVoice;
+  synthesize(text: string, voice: TtsVoice): Promise<Speech>;
+}
+
+/** An engine with the voice it speaks in. */
+export type Speaker = {
+  provider: TtsProvider;
+  voice: TtsVoice;
+};